@@ -17,6 +17,8 @@ import { PlacementUserPageComponent } from './pages/placement-user-page/placemen
 import { TwoPlayersFieldComponent } from './pages/two-players-field-page/two-players-field-page.component';
 import {AiPlacementPageComponent} from "./pages/ai-placement-page/ai-placement-page.component";
 import {SinglePlayerGamePageComponent} from "./pages/single-player-game-page/single-player-game-page.component";
+import { ReplayPageComponent } from './pages/replay-page/replay-page.component';
+import { WatchPageComponent } from './pages/watch-page/watch-page.component';
 
 export const routes: Routes = [
   { path: '', component: HomePageComponent }, // Главная страница
@@ -42,6 +44,8 @@ export const routes: Routes = [
     component: AiPlacementPageComponent
   },
   { path: 'single-player-game', component: SinglePlayerGamePageComponent },
+  { path: 'replay/:gameId', component: ReplayPageComponent },
+  { path: 'watch/:gameId', component: WatchPageComponent },
   { path: '**', redirectTo: '' },
 
 ];
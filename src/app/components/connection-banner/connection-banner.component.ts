@@ -0,0 +1,40 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ConnectionState, WebSocketService } from '../../services/webSocket.service';
+
+/**
+ * Баннер состояния соединения с сервером
+ *
+ * Показывается на игровых страницах, пока соединения нет: при подключении,
+ * переподключении и после исчерпания попыток (тогда с кнопкой повтора).
+ * При работающем соединении баннер скрыт.
+ */
+@Component({
+  selector: 'app-connection-banner',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './connection-banner.component.html',
+  styleUrls: ['./connection-banner.component.scss']
+})
+export class ConnectionBannerComponent {
+  connectionState$ = this.webSocketService.connectionState$;
+
+  constructor(private webSocketService: WebSocketService) {}
+
+  getMessage(state: ConnectionState): string {
+    switch (state) {
+      case 'connecting':
+        return 'Подключение к серверу...';
+      case 'reconnecting':
+        return 'Соединение потеряно. Переподключение...';
+      case 'offline':
+        return 'Нет соединения с сервером';
+      default:
+        return '';
+    }
+  }
+
+  retry(): void {
+    this.webSocketService.reconnect();
+  }
+}
@@ -0,0 +1,440 @@
+import { Coordinate, ShipContact, ShipType, Shot } from './battleship.model';
+import {
+  BOARD_SIZE,
+  EMPTY_CELL,
+  HIT_CELL,
+  MISS_CELL,
+  SHIP_TYPES,
+  createEmptyMatrix,
+  isInsideBoard
+} from './battleship.engine';
+
+/**
+ * Компьютерный противник для игры без сервера
+ *
+ * Три уровня сложности:
+ * - 'sailor' (Матрос) - стреляет наугад по нестреляным клеткам
+ * - 'captain' (Капитан) - ищет корабли наугад, после попадания добивает раненый корабль
+ * - 'admiral' (Адмирал) - считает плотность вероятности расположения оставшихся кораблей
+ */
+
+/** Уровень сложности компьютерного противника */
+export type AiDifficulty = 'sailor' | 'captain' | 'admiral';
+
+/**
+ * Описание уровня сложности для интерфейса
+ * @interface AiDifficultyInfo
+ * @property {AiDifficulty} id - Идентификатор уровня
+ * @property {string} name - Отображаемое название
+ * @property {string} description - Краткое описание поведения
+ */
+export interface AiDifficultyInfo {
+  id: AiDifficulty;
+  name: string;
+  description: string;
+}
+
+/** Доступные уровни сложности в порядке возрастания */
+export const AI_DIFFICULTIES: AiDifficultyInfo[] = [
+  { id: 'sailor', name: 'Матрос', description: 'Стреляет наугад' },
+  { id: 'captain', name: 'Капитан', description: 'Добивает раненые корабли' },
+  { id: 'admiral', name: 'Адмирал', description: 'Просчитывает вероятное положение кораблей' }
+];
+
+/** Уровень сложности по умолчанию */
+export const DEFAULT_AI_DIFFICULTY: AiDifficulty = 'captain';
+
+/**
+ * Проверка, что строка является известным уровнем сложности
+ */
+export function isAiDifficulty(value: unknown): value is AiDifficulty {
+  return AI_DIFFICULTIES.some(level => level.id === value);
+}
+
+/**
+ * Компьютерный противник
+ * @interface AiOpponent
+ */
+export interface AiOpponent {
+  /** Уровень сложности */
+  readonly difficulty: AiDifficulty;
+
+  /** Выбор клетки для следующего выстрела */
+  nextShot(): Coordinate;
+
+  /** Выбор клеток для залпа (без повторов, не больше числа нестреляных клеток) */
+  nextSalvo(count: number): Coordinate[];
+
+  /** Учет результата выстрела, выбранного через nextShot */
+  registerShot(shot: Shot): void;
+}
+
+/** Соседние клетки по сторонам */
+const ORTHOGONAL = [
+  { r: -1, c: 0 }, { r: 1, c: 0 }, { r: 0, c: -1 }, { r: 0, c: 1 }
+];
+
+/** Соседние клетки по диагоналям */
+const DIAGONAL = [
+  { r: -1, c: -1 }, { r: -1, c: 1 }, { r: 1, c: -1 }, { r: 1, c: 1 }
+];
+
+/**
+ * Общая часть всех уровней: учет сделанных выстрелов и знаний о поле
+ *
+ * Если корабли не касаются друг друга, клетки по диагонали от попадания
+ * и все клетки вокруг потопленного корабля заведомо пусты. При касании углами
+ * пусты только клетки по сторонам от потопленного корабля, а при любом
+ * касании соседние клетки ничего не говорят о поле.
+ */
+abstract class BaseAiOpponent implements AiOpponent {
+  abstract readonly difficulty: AiDifficulty;
+
+  /** Матрица собственных выстрелов ('H' / 'M') */
+  protected shots: string[][];
+
+  /** Клетки, где корабля точно нет, хотя выстрела не было */
+  protected blocked: boolean[][];
+
+  /** Клетки потопленных кораблей */
+  protected sunk: boolean[][];
+
+  /** Размеры еще не потопленных кораблей */
+  protected remainingSizes: number[];
+
+  /** Клетки, уже выбранные в текущий залп */
+  private pending = new Set<string>();
+
+  /** Попадания по кораблям с известным идентификатором */
+  private shipHits = new Map<number, Coordinate[]>();
+
+  constructor(
+    protected readonly boardSize: number = BOARD_SIZE,
+    shipTypes: ShipType[] = SHIP_TYPES,
+    protected readonly random: () => number = Math.random,
+    private readonly contact: ShipContact = 'none'
+  ) {
+    this.shots = createEmptyMatrix(boardSize);
+    this.blocked = this.createFlags();
+    this.sunk = this.createFlags();
+    this.remainingSizes = shipTypes.flatMap(type => Array(type.count).fill(type.size));
+  }
+
+  abstract nextShot(): Coordinate;
+
+  nextSalvo(count: number): Coordinate[] {
+    const salvo: Coordinate[] = [];
+    const size = Math.min(count, this.unshotCells().length);
+
+    for (let i = 0; i < size; i++) {
+      const cell = this.nextShot();
+      salvo.push(cell);
+      this.pending.add(`${cell.row},${cell.col}`);
+    }
+
+    this.pending.clear();
+    return salvo;
+  }
+
+  registerShot(shot: Shot): void {
+    if (shot.result === 'miss') {
+      this.shots[shot.row][shot.col] = MISS_CELL;
+      return;
+    }
+
+    this.shots[shot.row][shot.col] = HIT_CELL;
+    if (shot.shipId !== undefined) {
+      this.shipHits.set(shot.shipId, [...(this.shipHits.get(shot.shipId) ?? []), { row: shot.row, col: shot.col }]);
+    }
+    if (this.contact === 'none') {
+      for (const dir of DIAGONAL) {
+        this.block({ row: shot.row + dir.r, col: shot.col + dir.c });
+      }
+    }
+
+    if (shot.result === 'sunk') {
+      const cells = this.collectShipCells(shot);
+      const emptyAround = this.contact === 'none' ? [...ORTHOGONAL, ...DIAGONAL]
+        : this.contact === 'corner' ? ORTHOGONAL : [];
+      cells.forEach(cell => {
+        this.sunk[cell.row][cell.col] = true;
+        for (const dir of emptyAround) {
+          this.block({ row: cell.row + dir.r, col: cell.col + dir.c });
+        }
+      });
+      const index = this.remainingSizes.indexOf(cells.length);
+      if (index >= 0) {
+        this.remainingSizes.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Клетки, по которым еще не стреляли
+   */
+  protected unshotCells(): Coordinate[] {
+    const cells: Coordinate[] = [];
+    for (let row = 0; row < this.boardSize; row++) {
+      for (let col = 0; col < this.boardSize; col++) {
+        if (this.shots[row][col] === EMPTY_CELL && !this.pending.has(`${row},${col}`)) {
+          cells.push({ row, col });
+        }
+      }
+    }
+    return cells;
+  }
+
+  /**
+   * Клетки, где еще может находиться корабль
+   */
+  protected candidateCells(): Coordinate[] {
+    const cells = this.unshotCells().filter(cell => !this.blocked[cell.row][cell.col]);
+    return cells.length > 0 ? cells : this.unshotCells();
+  }
+
+  /**
+   * Проверка, что по клетке можно стрелять с пользой
+   */
+  protected isCandidate(cell: Coordinate): boolean {
+    return isInsideBoard(cell, this.boardSize) &&
+      this.shots[cell.row][cell.col] === EMPTY_CELL &&
+      !this.blocked[cell.row][cell.col] &&
+      !this.pending.has(`${cell.row},${cell.col}`);
+  }
+
+  /**
+   * Попадания по кораблям, которые еще не потоплены
+   */
+  protected woundedCells(): Coordinate[] {
+    const cells: Coordinate[] = [];
+    for (let row = 0; row < this.boardSize; row++) {
+      for (let col = 0; col < this.boardSize; col++) {
+        if (this.shots[row][col] === HIT_CELL && !this.sunk[row][col]) {
+          cells.push({ row, col });
+        }
+      }
+    }
+    return cells;
+  }
+
+  /**
+   * Случайный элемент массива
+   */
+  protected pick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  private createFlags(): boolean[][] {
+    return Array(this.boardSize).fill(null).map(() => Array(this.boardSize).fill(false));
+  }
+
+  private block(cell: Coordinate): void {
+    if (isInsideBoard(cell, this.boardSize)) {
+      this.blocked[cell.row][cell.col] = true;
+    }
+  }
+
+  /**
+   * Клетки потопленного корабля
+   * @description Если известен идентификатор корабля - его попадания,
+   * иначе все попадания, связанные с клеткой по сторонам
+   */
+  private collectShipCells(start: Shot): Coordinate[] {
+    if (start.shipId !== undefined && this.shipHits.has(start.shipId)) {
+      return this.shipHits.get(start.shipId)!;
+    }
+
+    const cells: Coordinate[] = [];
+    const visited = new Set<string>();
+    const stack: Coordinate[] = [start];
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const key = `${cell.row},${cell.col}`;
+      if (visited.has(key) || !isInsideBoard(cell, this.boardSize) ||
+        this.shots[cell.row][cell.col] !== HIT_CELL) {
+        continue;
+      }
+      visited.add(key);
+      cells.push(cell);
+      for (const dir of ORTHOGONAL) {
+        stack.push({ row: cell.row + dir.r, col: cell.col + dir.c });
+      }
+    }
+
+    return cells;
+  }
+}
+
+/**
+ * Матрос - случайные выстрелы по нестреляным клеткам
+ */
+class RandomAiOpponent extends BaseAiOpponent {
+  readonly difficulty: AiDifficulty = 'sailor';
+
+  nextShot(): Coordinate {
+    return this.pick(this.unshotCells());
+  }
+}
+
+/**
+ * Капитан - поиск наугад и добивание после попадания
+ */
+class HuntTargetAiOpponent extends BaseAiOpponent {
+  readonly difficulty: AiDifficulty = 'captain';
+
+  nextShot(): Coordinate {
+    const targets = this.targetCells();
+    return this.pick(targets.length > 0 ? targets : this.candidateCells());
+  }
+
+  /**
+   * Клетки для добивания раненого корабля
+   * @description Если известны две клетки корабля, стреляем по продолжению линии,
+   * иначе - по четырем соседним клеткам
+   */
+  private targetCells(): Coordinate[] {
+    const wounded = this.woundedCells();
+    if (wounded.length === 0) {
+      return [];
+    }
+
+    const first = wounded[0];
+    const line = wounded.filter(cell => cell.row === first.row || cell.col === first.col);
+    const horizontal = line.some(cell => cell.row === first.row && cell.col !== first.col);
+    const vertical = line.some(cell => cell.col === first.col && cell.row !== first.row);
+
+    if (horizontal !== vertical) {
+      const cells = line.filter(cell => horizontal ? cell.row === first.row : cell.col === first.col);
+      const values = cells.map(cell => horizontal ? cell.col : cell.row);
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      const ends = horizontal
+        ? [{ row: first.row, col: min - 1 }, { row: first.row, col: max + 1 }]
+        : [{ row: min - 1, col: first.col }, { row: max + 1, col: first.col }];
+      const candidates = ends.filter(cell => this.isCandidate(cell));
+      if (candidates.length > 0) {
+        return candidates;
+      }
+    }
+
+    return ORTHOGONAL
+      .map(dir => ({ row: first.row + dir.r, col: first.col + dir.c }))
+      .filter(cell => this.isCandidate(cell));
+  }
+}
+
+/**
+ * Адмирал - карта плотности вероятности
+ *
+ * Для каждого оставшегося корабля перебираются все допустимые положения.
+ * Каждая клетка получает вес по числу положений, которые ее накрывают.
+ * Положения, проходящие через раненый корабль, получают многократный вес,
+ * поэтому после попадания адмирал добивает корабль.
+ */
+class ProbabilityAiOpponent extends BaseAiOpponent {
+  readonly difficulty: AiDifficulty = 'admiral';
+
+  /** Множитель веса положений, накрывающих попадания */
+  private static readonly HIT_WEIGHT = 50;
+
+  nextShot(): Coordinate {
+    const weights = this.buildDensity();
+    let best: Coordinate[] = [];
+    let bestWeight = 0;
+
+    for (const cell of this.unshotCells()) {
+      const weight = weights[cell.row][cell.col];
+      if (weight > bestWeight) {
+        bestWeight = weight;
+        best = [cell];
+      } else if (weight === bestWeight && weight > 0) {
+        best.push(cell);
+      }
+    }
+
+    return this.pick(best.length > 0 ? best : this.candidateCells());
+  }
+
+  /**
+   * Построение карты весов клеток
+   */
+  private buildDensity(): number[][] {
+    const weights: number[][] = Array(this.boardSize).fill(null).map(() => Array(this.boardSize).fill(0));
+    const hasWounded = this.woundedCells().length > 0;
+
+    for (const size of new Set(this.remainingSizes)) {
+      const count = this.remainingSizes.filter(s => s === size).length;
+
+      for (let row = 0; row < this.boardSize; row++) {
+        for (let col = 0; col < this.boardSize; col++) {
+          for (const horizontal of size > 1 ? [true, false] : [true]) {
+            const cells: Coordinate[] = [];
+            for (let i = 0; i < size; i++) {
+              cells.push(horizontal ? { row, col: col + i } : { row: row + i, col });
+            }
+
+            if (!cells.every(cell => this.canHoldShip(cell))) {
+              continue;
+            }
+
+            const hits = cells.filter(cell => this.shots[cell.row][cell.col] === HIT_CELL).length;
+            if (hasWounded && hits === 0) {
+              continue;
+            }
+
+            const weight = count * (hits > 0 ? ProbabilityAiOpponent.HIT_WEIGHT * hits : 1);
+            cells.forEach(cell => {
+              if (this.shots[cell.row][cell.col] === EMPTY_CELL) {
+                weights[cell.row][cell.col] += weight;
+              }
+            });
+          }
+        }
+      }
+    }
+
+    return weights;
+  }
+
+  /**
+   * Может ли клетка быть частью еще не потопленного корабля
+   */
+  private canHoldShip(cell: Coordinate): boolean {
+    if (!isInsideBoard(cell, this.boardSize)) {
+      return false;
+    }
+    const mark = this.shots[cell.row][cell.col];
+    if (mark === MISS_CELL || this.sunk[cell.row][cell.col]) {
+      return false;
+    }
+    return mark === HIT_CELL || !this.blocked[cell.row][cell.col];
+  }
+}
+
+/**
+ * Создание компьютерного противника указанного уровня
+ * @param {AiDifficulty} difficulty - Уровень сложности
+ * @param {number} boardSize - Размер поля
+ * @param {ShipType[]} shipTypes - Состав флота противника ИИ
+ * @param {() => number} random - Источник случайных чисел в диапазоне [0, 1)
+ * @param {ShipContact} contact - Допустимое касание кораблей противника
+ * @returns {AiOpponent} Противник
+ */
+export function createAiOpponent(
+  difficulty: AiDifficulty,
+  boardSize: number = BOARD_SIZE,
+  shipTypes: ShipType[] = SHIP_TYPES,
+  random: () => number = Math.random,
+  contact: ShipContact = 'none'
+): AiOpponent {
+  switch (difficulty) {
+    case 'sailor':
+      return new RandomAiOpponent(boardSize, shipTypes, random, contact);
+    case 'admiral':
+      return new ProbabilityAiOpponent(boardSize, shipTypes, random, contact);
+    case 'captain':
+    default:
+      return new HuntTargetAiOpponent(boardSize, shipTypes, random, contact);
+  }
+}
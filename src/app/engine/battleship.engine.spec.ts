@@ -0,0 +1,129 @@
+import { Coordinate, Fleet, ShipType } from './battleship.model';
+import {
+  HIT_CELL,
+  MISS_CELL,
+  canPlaceShip,
+  createEmptyMatrix,
+  createFleet,
+  fleetToMatrix,
+  generateSeededFleet,
+  isValidFleet,
+  placeShip,
+  resolveNewShots
+} from './battleship.engine';
+
+/** Флот с одним двухпалубным кораблем в клетках (4, 4) и (4, 5) */
+function fleetWithDestroyer(): Fleet {
+  const fleet = createFleet();
+  placeShip(fleet, 'destroyer', [{ row: 4, col: 4 }, { row: 4, col: 5 }]);
+  return fleet;
+}
+
+/** Матрица выстрелов с попаданиями и промахами */
+function shotsMatrix(hits: Coordinate[], misses: Coordinate[] = []): string[][] {
+  const matrix = createEmptyMatrix();
+  hits.forEach(({ row, col }) => matrix[row][col] = HIT_CELL);
+  misses.forEach(({ row, col }) => matrix[row][col] = MISS_CELL);
+  return matrix;
+}
+
+describe('canPlaceShip', () => {
+  const overlapping = [{ row: 4, col: 5 }];
+  const sideBySide = [{ row: 5, col: 4 }];
+  const cornerToCorner = [{ row: 5, col: 6 }];
+  const apart = [{ row: 6, col: 4 }];
+
+  it('не ставит корабль за край поля и на пустой список клеток', () => {
+    const fleet = createFleet();
+    expect(canPlaceShip(fleet, [{ row: 9, col: 9 }, { row: 9, col: 10 }])).toBeFalse();
+    expect(canPlaceShip(fleet, [{ row: -1, col: 0 }])).toBeFalse();
+    expect(canPlaceShip(fleet, [])).toBeFalse();
+  });
+
+  it('без касания запрещает соседство по стороне и по углу', () => {
+    const fleet = fleetWithDestroyer();
+    expect(canPlaceShip(fleet, overlapping, 10, undefined, 'none')).toBeFalse();
+    expect(canPlaceShip(fleet, sideBySide, 10, undefined, 'none')).toBeFalse();
+    expect(canPlaceShip(fleet, cornerToCorner, 10, undefined, 'none')).toBeFalse();
+    expect(canPlaceShip(fleet, apart, 10, undefined, 'none')).toBeTrue();
+  });
+
+  it('с касанием углами запрещает только соседство по стороне', () => {
+    const fleet = fleetWithDestroyer();
+    expect(canPlaceShip(fleet, overlapping, 10, undefined, 'corner')).toBeFalse();
+    expect(canPlaceShip(fleet, sideBySide, 10, undefined, 'corner')).toBeFalse();
+    expect(canPlaceShip(fleet, cornerToCorner, 10, undefined, 'corner')).toBeTrue();
+    expect(canPlaceShip(fleet, apart, 10, undefined, 'corner')).toBeTrue();
+  });
+
+  it('с любым касанием запрещает только пересечение', () => {
+    const fleet = fleetWithDestroyer();
+    expect(canPlaceShip(fleet, overlapping, 10, undefined, 'any')).toBeFalse();
+    expect(canPlaceShip(fleet, sideBySide, 10, undefined, 'any')).toBeTrue();
+    expect(canPlaceShip(fleet, cornerToCorner, 10, undefined, 'any')).toBeTrue();
+  });
+
+  it('переносимый корабль не мешает сам себе', () => {
+    const fleet = fleetWithDestroyer();
+    const destroyer = fleet.find(ship => ship.placed)!;
+    const shifted = [{ row: 4, col: 5 }, { row: 4, col: 6 }];
+    expect(canPlaceShip(fleet, shifted)).toBeFalse();
+    expect(canPlaceShip(fleet, shifted, 10, destroyer.id)).toBeTrue();
+  });
+});
+
+describe('resolveNewShots', () => {
+  const shipField = fleetToMatrix(fleetWithDestroyer());
+
+  it('без поля с кораблями считает попадания ранениями', () => {
+    const after = shotsMatrix([{ row: 4, col: 4 }, { row: 4, col: 5 }], [{ row: 0, col: 0 }]);
+    const shots = resolveNewShots(createEmptyMatrix(), after);
+    expect(shots.map(shot => shot.result)).toEqual(['miss', 'hit', 'hit']);
+  });
+
+  it('отмечает потопление выстрелом, который добил корабль', () => {
+    const before = shotsMatrix([{ row: 4, col: 4 }]);
+    const after = shotsMatrix([{ row: 4, col: 4 }, { row: 4, col: 5 }]);
+    expect(resolveNewShots(before, after, shipField)).toEqual([{ row: 4, col: 5, result: 'sunk' }]);
+  });
+
+  it('из нескольких новых попаданий в один корабль потопившим считает только последнее', () => {
+    const after = shotsMatrix([{ row: 4, col: 4 }, { row: 4, col: 5 }]);
+    expect(resolveNewShots(createEmptyMatrix(), after, shipField)).toEqual([
+      { row: 4, col: 4, result: 'hit' },
+      { row: 4, col: 5, result: 'sunk' }
+    ]);
+  });
+
+  it('не повторяет уже известные выстрелы', () => {
+    const before = shotsMatrix([{ row: 4, col: 4 }], [{ row: 0, col: 0 }]);
+    expect(resolveNewShots(before, before, shipField)).toEqual([]);
+  });
+});
+
+describe('generateSeededFleet', () => {
+  it('по одному сиду дает одну и ту же расстановку', () => {
+    const first = generateSeededFleet(12345);
+    const second = generateSeededFleet(12345);
+    expect(second.seed).toBe(12345);
+    expect(second.fleet).toEqual(first.fleet);
+  });
+
+  it('расставляет весь флот по правилу касания', () => {
+    (['none', 'corner', 'any'] as const).forEach(contact => {
+      const { fleet } = generateSeededFleet(7, undefined, 10, contact);
+      expect(isValidFleet(fleet, 10, contact)).withContext(contact).toBeTrue();
+    });
+  });
+
+  it('без сида берет новый и возвращает его', () => {
+    const { seed, fleet } = generateSeededFleet();
+    expect(generateSeededFleet(seed).fleet).toEqual(fleet);
+  });
+
+  it('завершается ошибкой, если флот не помещается на поле', () => {
+    // Без касания на поле 10x10 помещается не больше 25 однопалубных кораблей
+    const boats: ShipType[] = [{ type: 'boat', size: 1, count: 26 }];
+    expect(() => generateSeededFleet(1, boats, 10, 'none')).toThrowError('Не удалось расставить флот на поле');
+  });
+});
@@ -0,0 +1,912 @@
+import {
+  Board,
+  BoardLayoutDTO,
+  Coordinate,
+  Fleet,
+  SalvoShotDTO,
+  SeededFleet,
+  Ship,
+  ShipContact,
+  ShipPlacement,
+  ShipType,
+  Shot,
+  ShotResult
+} from './battleship.model';
+import { createSeededRandom, generateSeed, shuffle } from './seeded-random';
+
+/**
+ * Движок правил игры "Морской бой"
+ *
+ * Единое место для проверки расстановки, расчета позиций кораблей,
+ * обработки выстрелов и преобразования флота в формат сервера.
+ * Модуль не зависит от Angular и работает с чистыми данными.
+ */
+
+/** Размер игрового поля по умолчанию (10x10) */
+export const BOARD_SIZE = 10;
+
+/**
+ * Буквы для обозначения строк поля
+ * @description Без Ё, Й, Ъ, Ы, Ь - как принято в морском бое
+ */
+export const ROW_ALPHABET = [
+  'А', 'Б', 'В', 'Г', 'Д', 'Е', 'Ж', 'З', 'И', 'К', 'Л', 'М', 'Н', 'О',
+  'П', 'Р', 'С', 'Т', 'У', 'Ф', 'Х', 'Ц', 'Ч', 'Ш', 'Щ', 'Э', 'Ю', 'Я'
+];
+
+/** Буквенные обозначения строк игрового поля (А-К без Й) */
+export const ROW_LABELS = ROW_ALPHABET.slice(0, BOARD_SIZE);
+
+/**
+ * Конфигурация типов кораблей и их количества
+ * @description 1 линкор (4 клетки), 2 крейсера (3 клетки), 3 эсминца (2 клетки), 4 катера (1 клетка)
+ */
+export const SHIP_TYPES: ShipType[] = [
+  { type: 'battleship', size: 4, count: 1 },
+  { type: 'cruiser', size: 3, count: 2 },
+  { type: 'destroyer', size: 2, count: 3 },
+  { type: 'boat', size: 1, count: 4 }
+];
+
+/** Отметка пустой клетки */
+export const EMPTY_CELL = ' ';
+
+/** Отметка клетки с кораблем */
+export const SHIP_CELL = 'S';
+
+/** Отметка попадания */
+export const HIT_CELL = 'H';
+
+/** Отметка промаха */
+export const MISS_CELL = 'M';
+
+/** Названия результатов выстрела для интерфейса */
+export const SHOT_RESULT_LABELS: Record<ShotResult, string> = {
+  miss: 'мимо',
+  hit: 'ранен',
+  sunk: 'убит'
+};
+
+/** Названия типов кораблей для интерфейса */
+export const SHIP_TYPE_NAMES: Record<string, string> = {
+  carrier: 'Авианосец',
+  battleship: 'Линкор',
+  cruiser: 'Крейсер',
+  destroyer: 'Эсминец',
+  boat: 'Катер'
+};
+
+/** Соседние клетки по сторонам */
+const ORTHOGONAL_DIRECTIONS = [
+  { r: -1, c: 0 }, { r: 1, c: 0 }, { r: 0, c: -1 }, { r: 0, c: 1 }
+];
+
+/** Соседние клетки по сторонам и углам */
+const ALL_DIRECTIONS = [
+  ...ORTHOGONAL_DIRECTIONS,
+  { r: -1, c: -1 }, { r: -1, c: 1 }, { r: 1, c: -1 }, { r: 1, c: 1 }
+];
+
+/** Соседние клетки, в которых не может стоять другой корабль */
+const FORBIDDEN_NEIGHBOURS: Record<ShipContact, { r: number; c: number }[]> = {
+  none: ALL_DIRECTIONS,
+  corner: ORTHOGONAL_DIRECTIONS,
+  any: []
+};
+
+/** Предел проверок положений при случайной расстановке флота */
+const MAX_PLACEMENT_CHECKS = 200000;
+
+// ==================== ФЛОТ И ПОЛЕ ====================
+
+/**
+ * Создание нерасставленного флота по списку типов кораблей
+ * @param {ShipType[]} shipTypes - Состав флота
+ * @returns {Fleet} Флот с идентификаторами кораблей начиная с 1
+ */
+export function createFleet(shipTypes: ShipType[] = SHIP_TYPES): Fleet {
+  const fleet: Fleet = [];
+  for (const shipType of shipTypes) {
+    for (let i = 0; i < shipType.count; i++) {
+      fleet.push({
+        id: fleet.length + 1,
+        type: shipType.type,
+        size: shipType.size,
+        positions: [],
+        placed: false
+      });
+    }
+  }
+  return fleet;
+}
+
+/**
+ * Создание пустого игрового поля
+ * @param {number} size - Размер стороны поля
+ * @param {ShipType[]} shipTypes - Состав флота
+ * @returns {Board} Поле с нерасставленным флотом
+ */
+export function createBoard(size: number = BOARD_SIZE, shipTypes: ShipType[] = SHIP_TYPES): Board {
+  return { size, fleet: createFleet(shipTypes) };
+}
+
+/**
+ * Создание матрицы поля, заполненной одним значением
+ * @param {number} size - Размер стороны поля
+ * @param {string} fill - Значение клеток (по умолчанию пустая клетка)
+ * @returns {string[][]} Матрица size x size
+ */
+export function createEmptyMatrix(size: number = BOARD_SIZE, fill: string = EMPTY_CELL): string[][] {
+  return Array(size).fill(null).map(() => Array(size).fill(fill));
+}
+
+/**
+ * Буквенные обозначения строк для поля заданного размера
+ */
+export function getRowLabels(boardSize: number = BOARD_SIZE): string[] {
+  return ROW_ALPHABET.slice(0, boardSize);
+}
+
+/**
+ * Числовые обозначения столбцов для поля заданного размера
+ */
+export function getColumnLabels(boardSize: number = BOARD_SIZE): number[] {
+  return Array.from({ length: boardSize }, (_, i) => i + 1);
+}
+
+/**
+ * Сброс расстановки всех кораблей флота
+ * @param {Fleet} fleet - Флот для очистки
+ */
+export function clearFleet(fleet: Fleet): void {
+  fleet.forEach(ship => {
+    ship.positions = [];
+    ship.placed = false;
+  });
+}
+
+/**
+ * Копирование флота вместе с позициями кораблей
+ * @param {Fleet} fleet - Исходный флот
+ * @returns {Fleet} Независимая копия флота
+ */
+export function cloneFleet(fleet: Fleet): Fleet {
+  return fleet.map(ship => ({
+    ...ship,
+    positions: ship.positions.map(pos => ({ ...pos }))
+  }));
+}
+
+/**
+ * Проверка, что все корабли флота размещены
+ */
+export function isFleetPlaced(fleet: Fleet): boolean {
+  return fleet.every(ship => ship.placed);
+}
+
+/**
+ * Количество нерасставленных кораблей указанного типа
+ */
+export function countUnplacedShips(fleet: Fleet, type: string): number {
+  return fleet.filter(ship => ship.type === type && !ship.placed).length;
+}
+
+/**
+ * Случайная расстановка всего флота
+ * @description Поиск с возвратом: для каждого корабля перебираются все допустимые
+ * положения в случайном порядке, а если следующий корабль поставить некуда,
+ * предыдущий переставляется. Одинаковые корабли ставятся в порядке положений,
+ * чтобы не перебирать их перестановки, а число проверок ограничено, поэтому
+ * поиск всегда завершается - расстановкой или ошибкой. Если задана
+ * предпочтительная зона, сначала пробуются положения целиком в ней
+ * @param {ShipType[]} shipTypes - Состав флота
+ * @param {number} boardSize - Размер поля
+ * @param {() => number} random - Источник случайных чисел в диапазоне [0, 1)
+ * @param {(coord: Coordinate) => boolean} [preferred] - Предпочтительная зона поля
+ * @param {ShipContact} contact - Допустимое касание кораблей
+ * @returns {Fleet} Полностью расставленный флот
+ * @throws {Error} Если флот не помещается на поле
+ */
+export function generateRandomFleet(
+  shipTypes: ShipType[] = SHIP_TYPES,
+  boardSize: number = BOARD_SIZE,
+  random: () => number = Math.random,
+  preferred?: (coord: Coordinate) => boolean,
+  contact: ShipContact = 'none'
+): Fleet {
+  const fleet = createFleet(shipTypes);
+  const order = (positions: Coordinate[]) =>
+    (positions[0].row * boardSize + positions[0].col) * 2 + (positions.length > 1 && positions[1].row !== positions[0].row ? 1 : 0);
+  let checksLeft = MAX_PLACEMENT_CHECKS;
+
+  const placeFrom = (index: number): boolean => {
+    if (index === fleet.length) {
+      return true;
+    }
+    const ship = fleet[index];
+    const previous = fleet[index - 1];
+    const minOrder = previous?.size === ship.size ? order(previous.positions) : -1;
+    const candidates = shuffle(
+      getAllShipPositions(ship.size, boardSize).filter(positions => order(positions) > minOrder),
+      random
+    );
+    if (preferred) {
+      candidates.sort((a, b) => Number(b.every(preferred)) - Number(a.every(preferred)));
+    }
+
+    for (const positions of candidates) {
+      if (--checksLeft < 0) {
+        return false;
+      }
+      if (!canPlaceShip(fleet, positions, boardSize, undefined, contact)) {
+        continue;
+      }
+      ship.positions = positions;
+      ship.placed = true;
+      if (placeFrom(index + 1)) {
+        return true;
+      }
+      ship.positions = [];
+      ship.placed = false;
+    }
+    return false;
+  };
+
+  if (!placeFrom(0)) {
+    throw new Error('Не удалось расставить флот на поле');
+  }
+  return fleet;
+}
+
+/**
+ * Воспроизводимая случайная расстановка флота
+ * @param {number} [seed] - Сид (нет - берется новый случайный)
+ * @param {ShipType[]} shipTypes - Состав флота
+ * @param {number} boardSize - Размер поля
+ * @param {ShipContact} contact - Допустимое касание кораблей
+ * @returns {SeededFleet} Расстановка и сид, по которому она получена
+ * @throws {Error} Если флот не помещается на поле
+ */
+export function generateSeededFleet(
+  seed: number = generateSeed(),
+  shipTypes: ShipType[] = SHIP_TYPES,
+  boardSize: number = BOARD_SIZE,
+  contact: ShipContact = 'none'
+): SeededFleet {
+  const fleet = generateRandomFleet(shipTypes, boardSize, createSeededRandom(seed), undefined, contact);
+  return { seed, fleet };
+}
+
+/**
+ * Все положения корабля на поле без учета других кораблей
+ * @description Корабль идет от начальной клетки вправо или вниз
+ */
+function getAllShipPositions(size: number, boardSize: number): Coordinate[][] {
+  const result: Coordinate[][] = [];
+  const orientations = size > 1 ? [true, false] : [true];
+  for (let row = 0; row < boardSize; row++) {
+    for (let col = 0; col < boardSize; col++) {
+      for (const horizontal of orientations) {
+        const positions: Coordinate[] = [];
+        for (let i = 0; i < size; i++) {
+          positions.push(horizontal ? { row, col: col + i } : { row: row + i, col });
+        }
+        if (positions.every(pos => isInsideBoard(pos, boardSize))) {
+          result.push(positions);
+        }
+      }
+    }
+  }
+  return result;
+}
+
+// ==================== ВАЛИДАЦИЯ РАССТАНОВКИ ====================
+
+/**
+ * Проверка, что координата находится в пределах поля
+ */
+export function isInsideBoard(coord: Coordinate, boardSize: number = BOARD_SIZE): boolean {
+  return coord.row >= 0 && coord.row < boardSize &&
+    coord.col >= 0 && coord.col < boardSize;
+}
+
+/**
+ * Поиск корабля, занимающего клетку
+ * @returns {Ship | undefined} Корабль в клетке или undefined
+ */
+export function getShipAt(fleet: Fleet, coord: Coordinate): Ship | undefined {
+  return fleet.find(ship =>
+    ship.positions.some(pos => pos.row === coord.row && pos.col === coord.col)
+  );
+}
+
+/**
+ * Проверка наличия корабля в клетке
+ */
+export function hasShipAt(fleet: Fleet, coord: Coordinate): boolean {
+  return !!getShipAt(fleet, coord);
+}
+
+/**
+ * Проверка наличия корабля в соседних клетках, запрещенных правилом касания
+ * @description По умолчанию проверяются все восемь соседей, включая углы
+ * @param {Fleet} fleet - Флот
+ * @param {Coordinate} coord - Проверяемая клетка
+ * @param {number} boardSize - Размер поля
+ * @param {number} [ignoreShipId] - Корабль, который не учитывается при проверке
+ * @param {ShipContact} contact - Допустимое касание кораблей
+ */
+export function hasAdjacentShip(
+  fleet: Fleet,
+  coord: Coordinate,
+  boardSize: number = BOARD_SIZE,
+  ignoreShipId?: number,
+  contact: ShipContact = 'none'
+): boolean {
+  for (const dir of FORBIDDEN_NEIGHBOURS[contact]) {
+    const neighbour = { row: coord.row + dir.r, col: coord.col + dir.c };
+    if (!isInsideBoard(neighbour, boardSize)) {
+      continue;
+    }
+    const ship = getShipAt(fleet, neighbour);
+    if (ship && ship.id !== ignoreShipId) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Определение направления размещения для горизонтальной ориентации
+ * @param {number} startCol - Индекс начального столбца
+ * @param {number} size - Размер корабля
+ * @param {number} boardSize - Размер поля
+ * @returns {boolean} true если размещать вправо, false если влево
+ */
+export function shouldFlipHorizontal(startCol: number, size: number, boardSize: number = BOARD_SIZE): boolean {
+  if (startCol < size) {
+    return true; // Вправо, если у левого края
+  }
+  if (startCol >= boardSize - size) {
+    return false; // Влево, если у правого края
+  }
+  return true; // По умолчанию вправо
+}
+
+/**
+ * Определение направления размещения для вертикальной ориентации
+ * @param {number} startRow - Индекс начальной строки
+ * @param {number} size - Размер корабля
+ * @param {number} boardSize - Размер поля
+ * @returns {boolean} true если размещать вниз, false если вверх
+ */
+export function shouldFlipVertical(startRow: number, size: number, boardSize: number = BOARD_SIZE): boolean {
+  if (startRow < size) {
+    return true; // Вниз, если у верхнего края
+  }
+  if (startRow >= boardSize - size) {
+    return false; // Вверх, если у нижнего края
+  }
+  return true; // По умолчанию вниз
+}
+
+/**
+ * Расчет всех клеток корабля исходя из начальной точки и ориентации
+ * @description У края поля корабль разворачивается в сторону центра
+ * @param {number} size - Размер корабля
+ * @param {Coordinate} start - Клетка, на которую указал игрок
+ * @param {boolean} horizontal - Горизонтальная ориентация
+ * @param {number} boardSize - Размер поля
+ * @returns {Coordinate[]} Клетки корабля
+ */
+export function getShipPositions(
+  size: number,
+  start: Coordinate,
+  horizontal: boolean,
+  boardSize: number = BOARD_SIZE
+): Coordinate[] {
+  const positions: Coordinate[] = [];
+
+  if (horizontal) {
+    const step = shouldFlipHorizontal(start.col, size, boardSize) ? 1 : -1;
+    for (let i = 0; i < size; i++) {
+      positions.push({ row: start.row, col: start.col + i * step });
+    }
+  } else {
+    const step = shouldFlipVertical(start.row, size, boardSize) ? 1 : -1;
+    for (let i = 0; i < size; i++) {
+      positions.push({ row: start.row + i * step, col: start.col });
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Проверка возможности размещения корабля в указанных клетках
+ * @description Корабль должен целиком помещаться на поле, не пересекаться
+ * с другими кораблями и касаться их не больше, чем разрешает правило
+ * @param {Fleet} fleet - Флот с уже расставленными кораблями
+ * @param {Coordinate[]} positions - Клетки нового корабля
+ * @param {number} boardSize - Размер поля
+ * @param {number} [ignoreShipId] - Корабль, который переставляется (не мешает сам себе)
+ * @param {ShipContact} contact - Допустимое касание кораблей (по умолчанию никакого)
+ */
+export function canPlaceShip(
+  fleet: Fleet,
+  positions: Coordinate[],
+  boardSize: number = BOARD_SIZE,
+  ignoreShipId?: number,
+  contact: ShipContact = 'none'
+): boolean {
+  if (positions.length === 0) {
+    return false;
+  }
+
+  // Проверка выхода за границы поля
+  if (!positions.every(pos => isInsideBoard(pos, boardSize))) {
+    return false;
+  }
+
+  // Проверка пересечения с другими кораблями и правил соседства
+  for (const pos of positions) {
+    const ship = getShipAt(fleet, pos);
+    if (ship && ship.id !== ignoreShipId) {
+      return false;
+    }
+    if (hasAdjacentShip(fleet, pos, boardSize, ignoreShipId, contact)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Размещение первого свободного корабля указанного типа
+ * @param {Fleet} fleet - Флот
+ * @param {string} type - Тип корабля
+ * @param {Coordinate[]} positions - Клетки корабля (должны быть проверены canPlaceShip)
+ * @returns {Ship | null} Размещенный корабль или null, если свободных кораблей этого типа нет
+ */
+export function placeShip(fleet: Fleet, type: string, positions: Coordinate[]): Ship | null {
+  const ship = fleet.find(s => s.type === type && !s.placed);
+  if (!ship) {
+    return null;
+  }
+  ship.positions = positions.map(pos => ({ ...pos }));
+  ship.placed = true;
+  return ship;
+}
+
+/**
+ * Проверка, что корабль стоит горизонтально
+ * @description Однопалубный корабль считается горизонтальным
+ */
+export function isShipHorizontal(ship: Ship): boolean {
+  return ship.positions.every(pos => pos.row === ship.positions[0].row);
+}
+
+/**
+ * Перемещение расставленного корабля в новые клетки
+ * @param {Fleet} fleet - Флот
+ * @param {number} shipId - Идентификатор корабля
+ * @param {Coordinate[]} positions - Новые клетки корабля
+ * @param {number} boardSize - Размер поля
+ * @param {ShipContact} contact - Допустимое касание кораблей
+ * @returns {boolean} true если корабль перемещен (иначе флот не меняется)
+ */
+export function moveShip(
+  fleet: Fleet,
+  shipId: number,
+  positions: Coordinate[],
+  boardSize: number = BOARD_SIZE,
+  contact: ShipContact = 'none'
+): boolean {
+  const ship = fleet.find(s => s.id === shipId);
+  if (!ship || positions.length !== ship.size || !canPlaceShip(fleet, positions, boardSize, shipId, contact)) {
+    return false;
+  }
+  ship.positions = positions.map(pos => ({ ...pos }));
+  ship.placed = true;
+  return true;
+}
+
+/**
+ * Клетки корабля после поворота на месте
+ * @description Корабль поворачивается вокруг верхней левой клетки,
+ * у края поля - в сторону центра, как при обычной расстановке
+ */
+export function getRotatedPositions(ship: Ship, boardSize: number = BOARD_SIZE): Coordinate[] {
+  const start = {
+    row: Math.min(...ship.positions.map(pos => pos.row)),
+    col: Math.min(...ship.positions.map(pos => pos.col))
+  };
+  return getShipPositions(ship.size, start, !isShipHorizontal(ship), boardSize);
+}
+
+/**
+ * Снятие корабля с поля (он снова ждет расстановки)
+ */
+export function removeShip(fleet: Fleet, shipId: number): void {
+  const ship = fleet.find(s => s.id === shipId);
+  if (ship) {
+    ship.positions = [];
+    ship.placed = false;
+  }
+}
+
+/**
+ * Проверка корректности полной расстановки флота
+ * @description Все корабли размещены, длина совпадает с размером,
+ * клетки идут подряд по прямой и корабли касаются не больше, чем разрешает правило
+ */
+export function isValidFleet(
+  fleet: Fleet,
+  boardSize: number = BOARD_SIZE,
+  contact: ShipContact = 'none'
+): boolean {
+  if (!isFleetPlaced(fleet)) {
+    return false;
+  }
+
+  for (const ship of fleet) {
+    if (ship.positions.length !== ship.size || !isStraightLine(ship.positions)) {
+      return false;
+    }
+    const others = fleet.filter(s => s.id !== ship.id);
+    if (!canPlaceShip(others, ship.positions, boardSize, undefined, contact)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Проверка, что клетки образуют непрерывную прямую линию
+ */
+function isStraightLine(positions: Coordinate[]): boolean {
+  if (positions.length <= 1) {
+    return positions.length === 1;
+  }
+  const sameRow = positions.every(pos => pos.row === positions[0].row);
+  const sameCol = positions.every(pos => pos.col === positions[0].col);
+  if (!sameRow && !sameCol) {
+    return false;
+  }
+  const values = positions.map(pos => sameRow ? pos.col : pos.row).sort((a, b) => a - b);
+  return values.every((value, i) => i === 0 || value === values[i - 1] + 1);
+}
+
+// ==================== ВЫСТРЕЛЫ ====================
+
+/**
+ * Проверка потопления корабля по матрицам поля и попаданий
+ * @description Обходит в глубину все клетки корабля, начиная с указанной,
+ * и проверяет, что каждая из них поражена. Матрица не различает корабли,
+ * стоящие вплотную (правило 'any'), - они проверяются как один корабль
+ * @param {string[][]} field - Матрица поля с отметками кораблей ('S')
+ * @param {string[][]} hits - Матрица выстрелов ('H' - попадание)
+ * @param {Coordinate} coord - Любая клетка корабля
+ */
+export function checkShipSunk(field: string[][], hits: string[][], coord: Coordinate): boolean {
+  const rows = field.length;
+  let isSunk = true;
+  const visited = new Set<string>();
+
+  const dfs = (r: number, c: number) => {
+    const key = `${r},${c}`;
+    if (visited.has(key) || r < 0 || r >= rows || c < 0 || c >= (field[r]?.length ?? 0)) return;
+    visited.add(key);
+
+    if (field[r][c] === SHIP_CELL) {
+      if (hits[r]?.[c] !== HIT_CELL) {
+        isSunk = false;
+        return;
+      }
+      for (const dir of ORTHOGONAL_DIRECTIONS) {
+        dfs(r + dir.r, c + dir.c);
+      }
+    }
+  };
+
+  dfs(coord.row, coord.col);
+  return isSunk;
+}
+
+/**
+ * Клетки корабля, которому принадлежит клетка поля
+ * @returns {Coordinate[]} Связанные по сторонам клетки 'S' (пусто, если в клетке нет корабля)
+ */
+export function getShipCellsAt(field: string[][], coord: Coordinate): Coordinate[] {
+  const cells: Coordinate[] = [];
+  const visited = new Set<string>();
+
+  const dfs = (r: number, c: number) => {
+    const key = `${r},${c}`;
+    if (visited.has(key) || field[r]?.[c] !== SHIP_CELL) return;
+    visited.add(key);
+    cells.push({ row: r, col: c });
+    for (const dir of ORTHOGONAL_DIRECTIONS) {
+      dfs(r + dir.r, c + dir.c);
+    }
+  };
+
+  dfs(coord.row, coord.col);
+  return cells;
+}
+
+/**
+ * Проверка, является ли клетка частью потопленного корабля
+ * @returns {boolean} false, если в клетке нет корабля
+ */
+export function isShipSunk(field: string[][], hits: string[][], coord: Coordinate): boolean {
+  if (!field[coord.row] || field[coord.row][coord.col] !== SHIP_CELL) {
+    return false;
+  }
+  return checkShipSunk(field, hits, coord);
+}
+
+/**
+ * Проверка, что по клетке уже стреляли
+ */
+export function isCellShot(shots: string[][], coord: Coordinate): boolean {
+  const cell = shots[coord.row]?.[coord.col];
+  return cell === HIT_CELL || cell === MISS_CELL;
+}
+
+/**
+ * Выстрел по полю с расставленным флотом
+ * @description Отмечает результат в матрице выстрелов ('H' или 'M')
+ * @param {Board} board - Поле противника
+ * @param {string[][]} shots - Матрица выстрелов по этому полю (изменяется)
+ * @param {Coordinate} target - Клетка выстрела
+ * @returns {Shot} Результат выстрела
+ * @throws {Error} Если клетка за пределами поля или по ней уже стреляли
+ */
+export function fireAt(board: Board, shots: string[][], target: Coordinate): Shot {
+  if (!isInsideBoard(target, board.size)) {
+    throw new Error(`Клетка ${target.row},${target.col} за пределами поля`);
+  }
+  if (isCellShot(shots, target)) {
+    throw new Error(`По клетке ${target.row},${target.col} уже стреляли`);
+  }
+
+  const ship = getShipAt(board.fleet, target);
+  if (!ship) {
+    shots[target.row][target.col] = MISS_CELL;
+    return { ...target, result: 'miss' };
+  }
+
+  shots[target.row][target.col] = HIT_CELL;
+  const sunk = ship.positions.every(pos => shots[pos.row]?.[pos.col] === HIT_CELL);
+  return { ...target, result: sunk ? 'sunk' : 'hit', shipId: ship.id };
+}
+
+/**
+ * Залп по нескольким клеткам поля
+ * @description Результаты всех выстрелов вычисляются сразу и раскрываются вместе
+ * @param {Board} board - Поле с флотом противника
+ * @param {string[][]} shots - Матрица выстрелов по этому полю (изменяется)
+ * @param {Coordinate[]} targets - Клетки залпа
+ * @returns {Shot[]} Результаты выстрелов в порядке клеток залпа
+ * @throws {Error} Если клетки повторяются, выходят за поле или уже обстреляны
+ */
+export function fireSalvo(board: Board, shots: string[][], targets: Coordinate[]): Shot[] {
+  const unique = new Set(targets.map(target => `${target.row},${target.col}`));
+  if (unique.size !== targets.length) {
+    throw new Error('Клетки залпа не должны повторяться');
+  }
+  targets.forEach(target => {
+    if (!isInsideBoard(target, board.size) || isCellShot(shots, target)) {
+      throw new Error(`По клетке ${target.row},${target.col} нельзя выстрелить`);
+    }
+  });
+  return targets.map(target => fireAt(board, shots, target));
+}
+
+/**
+ * Поиск клеток, обстрелянных между двумя состояниями поля
+ * @description Нужен, когда сервер присылает только матрицы, а не список выстрелов
+ * @param {string[][]} before - Матрица выстрелов до хода
+ * @param {string[][]} after - Матрица выстрелов после хода
+ * @returns {Coordinate[]} Новые клетки с отметкой попадания или промаха
+ */
+export function findNewShots(before: string[][], after: string[][]): Coordinate[] {
+  const cells: Coordinate[] = [];
+  after.forEach((row, r) => row.forEach((cell, c) => {
+    if ((cell === HIT_CELL || cell === MISS_CELL) && before[r]?.[c] !== cell) {
+      cells.push({ row: r, col: c });
+    }
+  }));
+  return cells;
+}
+
+/**
+ * Результаты выстрелов, сделанных между двумя состояниями поля
+ * @param {string[][]} before - Матрица выстрелов до хода
+ * @param {string[][]} after - Матрица выстрелов после хода
+ * @param {string[][]} [shipField] - Матрица с кораблями. Без нее (поле противника,
+ * корабли не видны) потопление не определяется и попадания считаются ранениями
+ * @returns {Shot[]} Новые выстрелы с результатом
+ */
+export function resolveNewShots(before: string[][], after: string[][], shipField?: string[][]): Shot[] {
+  const shots: Shot[] = findNewShots(before, after).map(cell => {
+    const result: ShotResult = after[cell.row][cell.col] !== HIT_CELL
+      ? 'miss'
+      : shipField && isShipSunk(shipField, after, cell) ? 'sunk' : 'hit';
+    return { ...cell, result };
+  });
+
+  // Несколько новых попаданий в один корабль (залп или первое состояние после входа):
+  // потопившим считается только последнее из них
+  const sunkShips = new Set<string>();
+  for (let i = shots.length - 1; i >= 0; i--) {
+    if (shots[i].result !== 'sunk') continue;
+    const key = getShipCellsAt(shipField!, shots[i]).map(cell => `${cell.row},${cell.col}`).sort()[0];
+    if (sunkShips.has(key)) {
+      shots[i] = { ...shots[i], result: 'hit' };
+    } else {
+      sunkShips.add(key);
+    }
+  }
+  return shots;
+}
+
+/**
+ * Проверка, что все корабли поля потоплены
+ */
+export function isFleetSunk(board: Board, shots: string[][]): boolean {
+  return board.fleet.every(ship =>
+    ship.positions.every(pos => shots[pos.row]?.[pos.col] === HIT_CELL)
+  );
+}
+
+/**
+ * Подсчет выстрелов и попаданий по матрице выстрелов
+ * @returns {{shots: number, hits: number}} Количество выстрелов и попаданий
+ */
+export function countShots(field: string[][]): { shots: number; hits: number } {
+  let shots = 0;
+  let hits = 0;
+
+  for (const row of field) {
+    for (const cell of row ?? []) {
+      if (cell === HIT_CELL || cell === MISS_CELL) {
+        shots++;
+        if (cell === HIT_CELL) hits++;
+      }
+    }
+  }
+
+  return { shots, hits };
+}
+
+// ==================== ПРЕОБРАЗОВАНИЕ ФОРМАТОВ ====================
+
+/**
+ * Построение матрицы поля с отметками кораблей
+ */
+export function fleetToMatrix(fleet: Fleet, boardSize: number = BOARD_SIZE): string[][] {
+  const matrix = createEmptyMatrix(boardSize);
+
+  fleet.forEach(ship => {
+    if (ship.placed) {
+      ship.positions.forEach(pos => {
+        if (isInsideBoard(pos, boardSize)) {
+          matrix[pos.row][pos.col] = SHIP_CELL;
+        }
+      });
+    }
+  });
+
+  return matrix;
+}
+
+/**
+ * Конвертация флота в формат размещений для сервера
+ * @description Начальная позиция - клетка с наименьшими индексами
+ */
+export function fleetToShipPlacements(fleet: Fleet): ShipPlacement[] {
+  return fleet
+    .filter(ship => ship.placed && ship.positions.length > 0)
+    .map(ship => {
+      const rows = ship.positions.map(pos => pos.row);
+      const cols = ship.positions.map(pos => pos.col);
+      return {
+        shipId: ship.id,
+        size: ship.size,
+        row: Math.min(...rows),
+        col: Math.min(...cols),
+        vertical: new Set(rows).size > 1
+      };
+    });
+}
+
+/**
+ * Конвертация флота в формат BoardLayoutDTO для отправки на сервер
+ */
+export function fleetToBoardLayout(fleet: Fleet, boardSize: number = BOARD_SIZE): BoardLayoutDTO {
+  return {
+    ships: fleetToShipPlacements(fleet),
+    matrix: fleetToMatrix(fleet, boardSize)
+  };
+}
+
+/**
+ * Конвертация клеток залпа в формат выстрелов для отправки на сервер
+ */
+export function toSalvoShots(targets: Coordinate[]): SalvoShotDTO[] {
+  return targets.map(({ row, col }) => ({ row, column: col }));
+}
+
+/**
+ * Восстановление флота из формата размещений сервера
+ * @param {ShipPlacement[]} placements - Размещения кораблей
+ * @param {ShipType[]} shipTypes - Состав флота
+ * @param {number} boardSize - Размер поля
+ * @returns {Fleet} Флот с расставленными кораблями
+ */
+export function fleetFromShipPlacements(
+  placements: ShipPlacement[],
+  shipTypes: ShipType[] = SHIP_TYPES,
+  boardSize: number = BOARD_SIZE
+): Fleet {
+  const fleet = createFleet(shipTypes);
+
+  placements.forEach(placement => {
+    const ship = fleet.find(s => s.id === placement.shipId);
+    if (!ship) {
+      return;
+    }
+
+    const positions: Coordinate[] = [];
+    for (let i = 0; i < placement.size; i++) {
+      const pos = {
+        row: placement.row + (placement.vertical ? i : 0),
+        col: placement.col + (placement.vertical ? 0 : i)
+      };
+      if (isInsideBoard(pos, boardSize)) {
+        positions.push(pos);
+      }
+    }
+
+    ship.positions = positions;
+    ship.placed = true;
+  });
+
+  return fleet;
+}
+
+/**
+ * Обозначение клетки в нотации поля (например, "Д5")
+ */
+export function formatCoordinate(coord: Coordinate): string {
+  return `${ROW_ALPHABET[coord.row] ?? '?'}${coord.col + 1}`;
+}
+
+/**
+ * Разбор введенного обозначения клетки (например, "Б7", "б 7" или "b7")
+ * @description Строка задается русской буквой поля или латинской буквой
+ * с тем же порядковым номером (A - А, B - Б, ..., J - К)
+ * @param {string} text - Введенный текст
+ * @returns {Coordinate | null} Координата или null, если текст не похож на клетку.
+ * Принадлежность клетки полю не проверяется
+ */
+export function parseCoordinate(text: string): Coordinate | null {
+  const match = text.trim().toUpperCase().match(/^([A-ZА-ЯЁ])[\s-]*(\d{1,2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, letter, number] = match;
+  const row = /[A-Z]/.test(letter)
+    ? letter.charCodeAt(0) - 'A'.charCodeAt(0)
+    : ROW_ALPHABET.indexOf(letter);
+  const col = Number(number) - 1;
+  if (row < 0 || col < 0) {
+    return null;
+  }
+  return { row, col };
+}
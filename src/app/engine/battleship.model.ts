@@ -0,0 +1,185 @@
+/**
+ * Модель данных игры "Морской бой"
+ *
+ * Не зависит от Angular: используется движком правил, страницами расстановки
+ * и игровыми полями. Все координаты задаются индексами с нуля.
+ */
+
+/**
+ * Координата клетки игрового поля
+ * @interface Coordinate
+ * @property {number} row - Индекс строки (0 - первая строка, буква 'А')
+ * @property {number} col - Индекс столбца (0 - первый столбец, цифра 1)
+ */
+export interface Coordinate {
+  row: number;
+  col: number;
+}
+
+/**
+ * Описание типа корабля во флоте
+ * @interface ShipType
+ * @property {string} type - Тип корабля (carrier, battleship, cruiser, destroyer, boat)
+ * @property {number} size - Размер корабля в клетках
+ * @property {number} count - Количество кораблей этого типа во флоте
+ */
+export interface ShipType {
+  type: string;
+  size: number;
+  count: number;
+}
+
+/**
+ * Корабль на игровом поле
+ * @interface Ship
+ * @property {number} id - Уникальный идентификатор корабля во флоте
+ * @property {string} type - Тип корабля
+ * @property {number} size - Размер корабля в клетках
+ * @property {Coordinate[]} positions - Клетки, занятые кораблем
+ * @property {boolean} placed - Флаг размещения корабля
+ */
+export interface Ship {
+  id: number;
+  type: string;
+  size: number;
+  positions: Coordinate[];
+  placed: boolean;
+}
+
+/**
+ * Режим стрельбы
+ * - 'classic' - один выстрел за ход, после попадания ход сохраняется
+ * - 'salvo' - залп из стольких выстрелов, сколько у игрока осталось кораблей
+ */
+export type FiringMode = 'classic' | 'salvo';
+
+/**
+ * Допустимое касание кораблей при расстановке
+ * - 'none' - корабли не касаются даже углами
+ * - 'corner' - разрешено касание углами
+ * - 'any' - корабли могут стоять вплотную
+ */
+export type ShipContact = 'none' | 'corner' | 'any';
+
+/**
+ * Действие при истечении времени на ход
+ * - 'random-shot' - за игрока делается случайный выстрел
+ * - 'forfeit' - игрок проигрывает по времени
+ */
+export type TurnExpiryAction = 'random-shot' | 'forfeit';
+
+/**
+ * Контроль времени сетевой партии
+ * @interface TimeControl
+ * @property {number | null} turnSeconds - Время на один ход в секундах (null - без ограничения)
+ * @property {number | null} totalSeconds - Общее время каждого игрока на партию
+ * (шахматные часы, null - без ограничения). Когда оно истекает, игрок проигрывает
+ * @property {TurnExpiryAction} onTurnExpired - Что происходит, когда истекло время на ход
+ */
+export interface TimeControl {
+  turnSeconds: number | null;
+  totalSeconds: number | null;
+  onTurnExpired: TurnExpiryAction;
+}
+
+/**
+ * Правила партии: размер поля, состав флота, режим стрельбы и касание кораблей
+ * @interface GameRules
+ * @property {number} boardSize - Размер стороны квадратного поля
+ * @property {ShipType[]} shipTypes - Состав флота каждого игрока
+ * @property {FiringMode} [firingMode] - Режим стрельбы (по умолчанию 'classic')
+ * @property {ShipContact} [shipContact] - Касание кораблей (по умолчанию 'none')
+ * @property {TimeControl} [timeControl] - Контроль времени (по умолчанию без ограничений)
+ */
+export interface GameRules {
+  boardSize: number;
+  shipTypes: ShipType[];
+  firingMode?: FiringMode;
+  shipContact?: ShipContact;
+  timeControl?: TimeControl;
+}
+
+/** Флот игрока - полный набор кораблей для расстановки */
+export type Fleet = Ship[];
+
+/**
+ * Расстановка вместе с сидом, по которому ее можно получить снова
+ * @interface SeededFleet
+ * @property {number} seed - Сид генератора случайных чисел
+ * @property {Fleet} fleet - Расставленный флот
+ */
+export interface SeededFleet {
+  seed: number;
+  fleet: Fleet;
+}
+
+/**
+ * Игровое поле с расставленным флотом
+ * @interface Board
+ * @property {number} size - Размер стороны квадратного поля
+ * @property {Fleet} fleet - Флот, расставленный на поле
+ */
+export interface Board {
+  size: number;
+  fleet: Fleet;
+}
+
+/**
+ * Результат выстрела
+ * - 'miss' - промах
+ * - 'hit' - попадание (корабль ранен)
+ * - 'sunk' - попадание, корабль потоплен
+ */
+export type ShotResult = 'miss' | 'hit' | 'sunk';
+
+/**
+ * Выстрел по клетке поля и его результат
+ * @interface Shot
+ * @property {number} row - Индекс строки
+ * @property {number} col - Индекс столбца
+ * @property {ShotResult} result - Результат выстрела
+ * @property {number} [shipId] - Идентификатор корабля, в который попал выстрел
+ */
+export interface Shot extends Coordinate {
+  result: ShotResult;
+  shipId?: number;
+}
+
+/**
+ * Размещение корабля в формате сервера
+ * @interface ShipPlacement
+ * @property {number} shipId - Идентификатор корабля
+ * @property {number} size - Размер корабля
+ * @property {number} row - Строка начальной позиции (с нуля)
+ * @property {number} col - Столбец начальной позиции (с нуля)
+ * @property {boolean} vertical - Ориентация корабля (true - вертикальная)
+ */
+export interface ShipPlacement {
+  shipId: number;
+  size: number;
+  row: number;
+  col: number;
+  vertical: boolean;
+}
+
+/**
+ * Расстановка для отправки на сервер
+ * @interface BoardLayoutDTO
+ * @property {ShipPlacement[]} ships - Массив размещенных кораблей
+ * @property {string[][]} matrix - Матрица поля с отметками кораблей ('S')
+ */
+export interface BoardLayoutDTO {
+  ships: ShipPlacement[];
+  matrix: string[][];  // Character[][] в Java эквивалентен string[][] в TypeScript
+}
+
+/**
+ * Выстрел залпа для отправки на сервер (одинаков в одиночной и сетевой игре)
+ * @interface SalvoShotDTO
+ * @property {number} row - Строка клетки (с нуля)
+ * @property {number} column - Столбец клетки (с нуля)
+ */
+export interface SalvoShotDTO {
+  row: number;
+  column: number;
+}
@@ -0,0 +1,85 @@
+/**
+ * Чат сетевой партии
+ *
+ * Сообщения хранит и рассылает сервер: отправленное сообщение приходит обратно
+ * обоим игрокам, а при входе в партию клиент получает историю чата.
+ * Ограничения длины и частоты сообщений проверяются на клиенте до отправки.
+ */
+
+/** Наибольшая длина сообщения */
+export const CHAT_MESSAGE_MAX_LENGTH = 200;
+
+/** Сколько сообщений можно отправить за CHAT_RATE_WINDOW_MS */
+export const CHAT_RATE_LIMIT = 5;
+
+/** Окно ограничения частоты сообщений (мс) */
+export const CHAT_RATE_WINDOW_MS = 10000;
+
+/**
+ * Сообщение чата
+ * @interface ChatMessage
+ * @property {string} id - Идентификатор сообщения
+ * @property {number} playerId - Автор
+ * @property {string} text - Текст
+ * @property {number} sentAt - Время отправки (мс с начала эпохи)
+ */
+export interface ChatMessage {
+  id: string;
+  playerId: number;
+  text: string;
+  sentAt: number;
+}
+
+/**
+ * Текст сообщения без лишних пробелов и переводов строк
+ */
+export function normalizeChatText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Проверка текста перед отправкой
+ * @param {string} text - Нормализованный текст
+ * @returns {string | null} Описание ошибки или null, если текст можно отправить
+ */
+export function validateChatText(text: string): string | null {
+  if (!text) {
+    return 'Введите сообщение';
+  }
+  if (text.length > CHAT_MESSAGE_MAX_LENGTH) {
+    return `Сообщение длиннее ${CHAT_MESSAGE_MAX_LENGTH} символов`;
+  }
+  return null;
+}
+
+/**
+ * Сколько ждать до следующего сообщения
+ * @param {number[]} sentTimes - Время отправки последних сообщений
+ * @param {number} [now] - Текущее время
+ * @returns {number} Мс до разрешенной отправки (0 - можно отправлять)
+ */
+export function getChatCooldown(sentTimes: number[], now: number = Date.now()): number {
+  const recent = pruneSentTimes(sentTimes, now);
+  if (recent.length < CHAT_RATE_LIMIT) {
+    return 0;
+  }
+  return recent[recent.length - CHAT_RATE_LIMIT] + CHAT_RATE_WINDOW_MS - now;
+}
+
+/**
+ * Время отправки сообщений, попадающих в окно ограничения
+ */
+export function pruneSentTimes(sentTimes: number[], now: number = Date.now()): number[] {
+  return sentTimes.filter(time => now - time < CHAT_RATE_WINDOW_MS);
+}
+
+/**
+ * Объединение сообщений без повторов, в порядке отправки
+ * @description История и сообщения в реальном времени могут пересекаться,
+ * поэтому сообщения с одинаковым id берутся один раз
+ */
+export function mergeChatMessages(existing: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  const byId = new Map(existing.map(message => [message.id, message]));
+  incoming.forEach(message => byId.set(message.id, message));
+  return [...byId.values()].sort((a, b) => a.sentAt - b.sentAt);
+}
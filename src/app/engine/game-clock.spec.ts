@@ -0,0 +1,97 @@
+import { TimeControl } from './battleship.model';
+import { ClockSync, pauseClock, readClock, resumeClock, syncClock } from './game-clock';
+
+describe('game-clock', () => {
+  const timeControl: TimeControl = { turnSeconds: 30, totalSeconds: 300, onTurnExpired: 'random-shot' };
+
+  /** Часы хода игрока, начатого в момент 10 000 по часам сервера */
+  function myTurnClock(changes: Partial<ClockSync> = {}): ClockSync {
+    return {
+      serverOffsetMs: 0,
+      turnStartedAt: 10000,
+      myClockMs: 200000,
+      opponentClockMs: 150000,
+      isMyTurn: true,
+      pausedAt: null,
+      ...changes
+    };
+  }
+
+  describe('readClock', () => {
+    it('отсчитывает время хода и общие часы того, чей ход', () => {
+      expect(readClock(myTurnClock(), timeControl, 15000)).toEqual({
+        turnLeftMs: 25000,
+        myClockMs: 195000,
+        opponentClockMs: 150000
+      });
+      expect(readClock(myTurnClock({ isMyTurn: false }), timeControl, 15000)).toEqual({
+        turnLeftMs: 25000,
+        myClockMs: 200000,
+        opponentClockMs: 145000
+      });
+    });
+
+    it('учитывает разницу часов сервера и браузера', () => {
+      const sync = syncClock({ serverTime: 12000, turnStartedAt: 10000, myClockMs: 200000 }, true, 2000);
+      expect(sync.serverOffsetMs).toBe(10000);
+      expect(readClock(sync, timeControl, 5000).turnLeftMs).toBe(25000);
+    });
+
+    it('не уходит ниже нуля', () => {
+      const reading = readClock(myTurnClock({ myClockMs: 1000 }), timeControl, 100000);
+      expect(reading.turnLeftMs).toBe(0);
+      expect(reading.myClockMs).toBe(0);
+    });
+
+    it('без ограничений времени возвращает null', () => {
+      const unlimited: TimeControl = { turnSeconds: null, totalSeconds: null, onTurnExpired: 'random-shot' };
+      expect(readClock(myTurnClock(), unlimited, 15000)).toEqual({
+        turnLeftMs: null,
+        myClockMs: null,
+        opponentClockMs: null
+      });
+    });
+
+    it('без остатка от сервера берет полное общее время', () => {
+      const reading = readClock(myTurnClock({ myClockMs: null, opponentClockMs: null }), timeControl, 15000);
+      expect(reading.myClockMs).toBe(295000);
+      expect(reading.opponentClockMs).toBe(300000);
+    });
+  });
+
+  describe('pauseClock', () => {
+    it('останавливает отсчет в момент начала паузы', () => {
+      const paused = pauseClock(myTurnClock(), 15000);
+      expect(readClock(paused, timeControl, 15000)).toEqual(readClock(paused, timeControl, 60000));
+      expect(readClock(paused, timeControl, 60000).turnLeftMs).toBe(25000);
+    });
+
+    it('не переносит начало уже идущей паузы', () => {
+      const paused = pauseClock(myTurnClock(), 15000);
+      expect(pauseClock(paused, 20000)).toBe(paused);
+    });
+  });
+
+  describe('resumeClock', () => {
+    it('не засчитывает паузу ни в ход, ни в общее время', () => {
+      const resumed = resumeClock(pauseClock(myTurnClock(), 15000), 75000);
+      expect(resumed.pausedAt).toBeNull();
+      expect(resumed.turnStartedAt).toBe(70000);
+      expect(readClock(resumed, timeControl, 80000)).toEqual({
+        turnLeftMs: 20000,
+        myClockMs: 190000,
+        opponentClockMs: 150000
+      });
+    });
+
+    it('не меняет идущие часы', () => {
+      const running = myTurnClock();
+      expect(resumeClock(running, 75000)).toBe(running);
+    });
+
+    it('не сдвигает начало хода назад, если продолжение пришло раньше паузы', () => {
+      const resumed = resumeClock(pauseClock(myTurnClock(), 15000), 14000);
+      expect(resumed.turnStartedAt).toBe(10000);
+    });
+  });
+});
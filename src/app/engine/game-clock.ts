@@ -0,0 +1,175 @@
+import { TimeControl } from './battleship.model';
+
+/**
+ * Часы сетевой партии
+ *
+ * Время считает сервер: в каждом состоянии партии он присылает свое текущее время,
+ * время начала текущего хода и остаток общего времени игроков на момент начала хода.
+ * Клиент только показывает обратный отсчет. Разница между часами сервера
+ * и браузера запоминается при каждом состоянии, поэтому неточное время
+ * на устройстве игрока не влияет на отсчет.
+ *
+ * Во время паузы часы стоят: отсчет идет до момента начала паузы,
+ * а после продолжения начало хода сдвигается на длительность паузы.
+ */
+
+/** Остаток времени, после которого часы подсвечиваются как заканчивающиеся */
+export const CLOCK_WARNING_MS = 10000;
+
+/** Наибольшая длительность паузы (после нее игра продолжается автоматически) */
+export const PAUSE_DURATION_SECONDS = 120;
+
+/** Сколько пауз может взять каждый игрок за партию */
+export const MAX_PAUSES_PER_PLAYER = 2;
+
+/**
+ * Поля состояния партии, относящиеся к часам (время - мс с начала эпохи или ISO 8601)
+ * @interface ServerClockState
+ * @property {number | string} [serverTime] - Время сервера при отправке состояния
+ * @property {number | string} [turnStartedAt] - Время начала текущего хода
+ * @property {number} [myClockMs] - Остаток общего времени игрока на начало хода
+ * @property {number} [opponentClockMs] - Остаток общего времени соперника на начало хода
+ * @property {number | string} [pausedAt] - Начало паузы, если партия на паузе
+ */
+export interface ServerClockState {
+  serverTime?: number | string;
+  turnStartedAt?: number | string;
+  myClockMs?: number;
+  opponentClockMs?: number;
+  pausedAt?: number | string | null;
+}
+
+/**
+ * Часы, синхронизированные с сервером
+ * @interface ClockSync
+ * @property {number} serverOffsetMs - На сколько часы сервера впереди часов браузера
+ * @property {number | null} turnStartedAt - Начало текущего хода по часам сервера
+ * @property {number | null} myClockMs - Остаток общего времени игрока на начало хода
+ * @property {number | null} opponentClockMs - Остаток общего времени соперника на начало хода
+ * @property {boolean} isMyTurn - Чей сейчас ход (у того идут общие часы)
+ * @property {number | null} pausedAt - Начало паузы по часам сервера (null - игра идет)
+ */
+export interface ClockSync {
+  serverOffsetMs: number;
+  turnStartedAt: number | null;
+  myClockMs: number | null;
+  opponentClockMs: number | null;
+  isMyTurn: boolean;
+  pausedAt: number | null;
+}
+
+/**
+ * Показания часов в текущий момент
+ * @interface ClockReading
+ * @property {number | null} turnLeftMs - Остаток времени на ход (null - без лимита)
+ * @property {number | null} myClockMs - Остаток общего времени игрока (null - без часов)
+ * @property {number | null} opponentClockMs - Остаток общего времени соперника (null - без часов)
+ */
+export interface ClockReading {
+  turnLeftMs: number | null;
+  myClockMs: number | null;
+  opponentClockMs: number | null;
+}
+
+/**
+ * Синхронизация часов по состоянию партии
+ * @param {ServerClockState} state - Состояние партии от сервера
+ * @param {boolean} isMyTurn - Ход игрока
+ * @param {number} [receivedAt] - Время получения состояния по часам браузера
+ * @returns {ClockSync} Часы для readClock
+ */
+export function syncClock(state: ServerClockState, isMyTurn: boolean, receivedAt: number = Date.now()): ClockSync {
+  const serverTime = parseServerTime(state.serverTime);
+  return {
+    serverOffsetMs: serverTime === null ? 0 : serverTime - receivedAt,
+    turnStartedAt: parseServerTime(state.turnStartedAt),
+    myClockMs: typeof state.myClockMs === 'number' ? state.myClockMs : null,
+    opponentClockMs: typeof state.opponentClockMs === 'number' ? state.opponentClockMs : null,
+    isMyTurn,
+    pausedAt: parseServerTime(state.pausedAt ?? undefined)
+  };
+}
+
+/**
+ * Показания часов
+ * @param {ClockSync} sync - Часы, синхронизированные с сервером
+ * @param {TimeControl} timeControl - Контроль времени партии
+ * @param {number} [now] - Текущее время по часам браузера
+ * @returns {ClockReading} Остатки времени (не меньше нуля)
+ */
+export function readClock(sync: ClockSync, timeControl: TimeControl, now: number = Date.now()): ClockReading {
+  const serverNow = sync.pausedAt ?? now + sync.serverOffsetMs;
+  const elapsed = sync.turnStartedAt === null ? 0 : Math.max(0, serverNow - sync.turnStartedAt);
+
+  const total = (clockMs: number | null, running: boolean): number | null => {
+    if (timeControl.totalSeconds === null) {
+      return null;
+    }
+    const left = clockMs ?? timeControl.totalSeconds * 1000;
+    return Math.max(0, left - (running ? elapsed : 0));
+  };
+
+  return {
+    turnLeftMs: timeControl.turnSeconds === null ? null : Math.max(0, timeControl.turnSeconds * 1000 - elapsed),
+    myClockMs: total(sync.myClockMs, sync.isMyTurn),
+    opponentClockMs: total(sync.opponentClockMs, !sync.isMyTurn)
+  };
+}
+
+/**
+ * Остановка часов на паузу
+ * @param {ClockSync} sync - Часы
+ * @param {number} pausedAt - Начало паузы по часам сервера
+ * @returns {ClockSync} Остановленные часы
+ */
+export function pauseClock(sync: ClockSync, pausedAt: number): ClockSync {
+  return sync.pausedAt === null ? { ...sync, pausedAt } : sync;
+}
+
+/**
+ * Запуск часов после паузы
+ * @description Начало хода сдвигается на длительность паузы, чтобы она не засчитывалась
+ * ни в ход, ни в общее время. Точные значения придут со следующим состоянием партии
+ * @param {ClockSync} sync - Остановленные часы
+ * @param {number} resumedAt - Время продолжения по часам сервера
+ * @returns {ClockSync} Идущие часы
+ */
+export function resumeClock(sync: ClockSync, resumedAt: number): ClockSync {
+  if (sync.pausedAt === null) {
+    return sync;
+  }
+  const pausedMs = Math.max(0, resumedAt - sync.pausedAt);
+  return {
+    ...sync,
+    turnStartedAt: sync.turnStartedAt === null ? null : sync.turnStartedAt + pausedMs,
+    pausedAt: null
+  };
+}
+
+/**
+ * Текущее время по часам сервера
+ */
+export function getServerNow(sync: ClockSync | null, now: number = Date.now()): number {
+  return now + (sync?.serverOffsetMs ?? 0);
+}
+
+/**
+ * Остаток времени в виде "м:сс" (неполная секунда округляется вверх)
+ */
+export function formatClock(ms: number): string {
+  const seconds = Math.ceil(Math.max(0, ms) / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Время из сообщения сервера в мс с начала эпохи
+ * @param {number | string} [value] - Мс с начала эпохи или ISO 8601
+ * @returns {number | null} null, если время не передано или не распознано
+ */
+export function parseServerTime(value: number | string | undefined): number | null {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const parsed = value ? Date.parse(value) : NaN;
+  return isNaN(parsed) ? null : parsed;
+}
@@ -0,0 +1,48 @@
+/**
+ * Быстрые реакции сетевой партии
+ *
+ * Набор готовых реплик и эмодзи, которые игроки отправляют друг другу
+ * одним нажатием. На поле соперника реакция пролетает и исчезает
+ * через REACTION_DISPLAY_MS. По сети передается только идентификатор реакции.
+ */
+
+/** Сколько реакция видна на экране (мс) */
+export const REACTION_DISPLAY_MS = 2500;
+
+/** Наименьший интервал между отправкой реакций (мс) */
+export const REACTION_COOLDOWN_MS = 1500;
+
+/** Сколько реакций может быть на экране одновременно */
+export const MAX_VISIBLE_REACTIONS = 5;
+
+/**
+ * Быстрая реакция
+ * @interface GameReaction
+ * @property {string} id - Идентификатор (передается по сети)
+ * @property {string} label - Текст или эмодзи на кнопке и на поле
+ * @property {string} title - Описание для подсказки и экранного диктора
+ */
+export interface GameReaction {
+  id: string;
+  label: string;
+  title: string;
+}
+
+/** Доступные реакции */
+export const GAME_REACTIONS: GameReaction[] = [
+  { id: 'good-shot', label: 'Хороший выстрел!', title: 'Хороший выстрел!' },
+  { id: 'oops', label: 'Упс', title: 'Упс' },
+  { id: 'gg', label: 'GG', title: 'Хорошая игра' },
+  { id: 'thumbs-up', label: '👍', title: 'Отлично' },
+  { id: 'laugh', label: '😄', title: 'Смех' },
+  { id: 'wow', label: '😮', title: 'Удивление' },
+  { id: 'fire', label: '🔥', title: 'Огонь' }
+];
+
+/**
+ * Реакция по идентификатору
+ * @returns {GameReaction | null} null для неизвестного идентификатора
+ */
+export function getReaction(id: string): GameReaction | null {
+  return GAME_REACTIONS.find(reaction => reaction.id === id) ?? null;
+}
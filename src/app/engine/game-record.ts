@@ -0,0 +1,173 @@
+import { Coordinate, Shot } from './battleship.model';
+import { HIT_CELL, MISS_CELL, createEmptyMatrix, isInsideBoard } from './battleship.engine';
+
+/**
+ * Запись партии для повтора
+ *
+ * Игровые страницы получают от сервера только текущие матрицы полей,
+ * поэтому ходы восстанавливаются по разнице между соседними состояниями
+ * (resolveNewShots) и дописываются в запись с отметкой времени.
+ * По записи можно построить оба поля на момент любого хода.
+ */
+
+/** Чей ход записан: игрока, который смотрит запись, или его соперника */
+export type RecordedPlayer = 'me' | 'opponent';
+
+/** Итог партии в записи */
+export type RecordedWinner = RecordedPlayer | 'draw';
+
+/** Режим записанной партии */
+export type RecordedGameMode = 'ai' | 'online';
+
+/**
+ * Записанный выстрел
+ * @interface RecordedMove
+ * @property {RecordedPlayer} player - Кто стрелял
+ * @property {number} timestamp - Время хода (мс с начала эпохи)
+ */
+export interface RecordedMove extends Shot {
+  player: RecordedPlayer;
+  timestamp: number;
+}
+
+/**
+ * Запись партии
+ * @interface GameRecord
+ * @property {string} gameId - Идентификатор партии (у партий без сервера - "local-<время начала>")
+ * @property {RecordedGameMode} mode - Игра с компьютером или с другим игроком
+ * @property {number} boardSize - Размер поля
+ * @property {string} myName - Имя игрока
+ * @property {string} opponentName - Имя соперника
+ * @property {string[][]} myField - Поле игрока с кораблями ('S')
+ * @property {number} startedAt - Время начала записи
+ * @property {number} [finishedAt] - Время окончания партии
+ * @property {RecordedWinner} [winner] - Итог партии (нет - партия не закончена)
+ * @property {RecordedMove[]} moves - Выстрелы в порядке хода партии
+ */
+export interface GameRecord {
+  gameId: string;
+  mode: RecordedGameMode;
+  boardSize: number;
+  myName: string;
+  opponentName: string;
+  myField: string[][];
+  startedAt: number;
+  finishedAt?: number;
+  winner?: RecordedWinner;
+  moves: RecordedMove[];
+}
+
+/**
+ * Состояние полей на момент хода
+ * @interface ReplayFrame
+ * @property {string[][]} myField - Поле игрока с кораблями
+ * @property {string[][]} opponentShots - Выстрелы соперника по полю игрока ('H' / 'M')
+ * @property {string[][]} myShots - Выстрелы игрока по полю соперника ('H' / 'M')
+ * @property {RecordedMove | null} lastMove - Последний показанный ход (null - начало партии)
+ */
+export interface ReplayFrame {
+  myField: string[][];
+  opponentShots: string[][];
+  myShots: string[][];
+  lastMove: RecordedMove | null;
+}
+
+/**
+ * Создание пустой записи партии
+ */
+export function createGameRecord(
+  gameId: string,
+  mode: RecordedGameMode,
+  boardSize: number,
+  myName: string,
+  opponentName: string,
+  startedAt: number = Date.now()
+): GameRecord {
+  return {
+    gameId,
+    mode,
+    boardSize,
+    myName,
+    opponentName,
+    myField: createEmptyMatrix(boardSize),
+    startedAt,
+    moves: []
+  };
+}
+
+/**
+ * Добавление выстрелов в запись
+ * @description Клетки, по которым этот игрок уже стрелял, пропускаются: после
+ * перезагрузки страницы первое состояние сравнивается с пустым полем
+ * и содержит все прошлые выстрелы
+ * @param {GameRecord} record - Запись (изменяется)
+ * @param {RecordedPlayer} player - Кто стрелял
+ * @param {Shot[]} shots - Выстрелы из resolveNewShots
+ * @param {number} [timestamp] - Время хода
+ * @returns {number} Количество добавленных выстрелов
+ */
+export function recordShots(
+  record: GameRecord,
+  player: RecordedPlayer,
+  shots: Shot[],
+  timestamp: number = Date.now()
+): number {
+  let added = 0;
+  shots.forEach(shot => {
+    const known = record.moves.some(move =>
+      move.player === player && move.row === shot.row && move.col === shot.col
+    );
+    if (!known && isInsideBoard(shot, record.boardSize)) {
+      record.moves.push({ ...shot, player, timestamp });
+      added++;
+    }
+  });
+  return added;
+}
+
+/**
+ * Состояние полей после указанного количества ходов
+ * @param {GameRecord} record - Запись партии
+ * @param {number} moveCount - Сколько ходов показать (0 - начало партии)
+ * @returns {ReplayFrame} Поля на этот момент
+ */
+export function getReplayFrame(record: GameRecord, moveCount: number): ReplayFrame {
+  const count = Math.max(0, Math.min(moveCount, record.moves.length));
+  const opponentShots = createEmptyMatrix(record.boardSize);
+  const myShots = createEmptyMatrix(record.boardSize);
+
+  record.moves.slice(0, count).forEach(move => {
+    const shots = move.player === 'me' ? myShots : opponentShots;
+    shots[move.row][move.col] = move.result === 'miss' ? MISS_CELL : HIT_CELL;
+  });
+
+  return {
+    myField: record.myField.map(row => [...row]),
+    opponentShots,
+    myShots,
+    lastMove: count > 0 ? record.moves[count - 1] : null
+  };
+}
+
+/**
+ * Проверка, что клетка - последний показанный ход
+ */
+export function isLastMoveAt(frame: ReplayFrame, player: RecordedPlayer, coord: Coordinate): boolean {
+  const move = frame.lastMove;
+  return !!move && move.player === player && move.row === coord.row && move.col === coord.col;
+}
+
+/**
+ * Проверка структуры записи, прочитанной из хранилища
+ */
+export function isValidGameRecord(value: any): value is GameRecord {
+  return !!value &&
+    typeof value.gameId === 'string' &&
+    Number.isInteger(value.boardSize) &&
+    Array.isArray(value.myField) &&
+    Array.isArray(value.moves) &&
+    value.moves.every((move: any) =>
+      (move.player === 'me' || move.player === 'opponent') &&
+      Number.isInteger(move.row) && Number.isInteger(move.col)
+    );
+}
@@ -0,0 +1,341 @@
+import { FiringMode, GameRules, ShipContact, ShipType, TimeControl, TurnExpiryAction } from './battleship.model';
+import { BOARD_SIZE, ROW_ALPHABET, SHIP_TYPES } from './battleship.engine';
+
+/**
+ * Правила партии: размер поля, состав флота, режим стрельбы, касание кораблей
+ * и контроль времени
+ *
+ * Классические правила (10x10, 4-3-3-2-2-2-1-1-1-1) используются по умолчанию.
+ * Для отдельных партий можно выбрать другой набор из GAME_RULES_PRESETS.
+ */
+
+/** Минимальный размер поля */
+export const MIN_BOARD_SIZE = 6;
+
+/** Максимальный размер поля (ограничен буквами для строк) */
+export const MAX_BOARD_SIZE = 15;
+
+/** Классические правила */
+export const DEFAULT_GAME_RULES: GameRules = {
+  boardSize: BOARD_SIZE,
+  shipTypes: SHIP_TYPES
+};
+
+/**
+ * Готовый набор правил
+ * @interface GameRulesPreset
+ * @property {string} id - Идентификатор набора
+ * @property {string} name - Отображаемое название
+ * @property {string} description - Краткое описание
+ * @property {GameRules} rules - Правила
+ */
+export interface GameRulesPreset {
+  id: string;
+  name: string;
+  description: string;
+  rules: GameRules;
+}
+
+/** Доступные наборы правил */
+export const GAME_RULES_PRESETS: GameRulesPreset[] = [
+  {
+    id: 'classic',
+    name: 'Классика',
+    description: 'Поле 10x10, 10 кораблей',
+    rules: DEFAULT_GAME_RULES
+  },
+  {
+    id: 'quick',
+    name: 'Быстрая игра',
+    description: 'Поле 8x8, 6 кораблей',
+    rules: {
+      boardSize: 8,
+      shipTypes: [
+        { type: 'cruiser', size: 3, count: 1 },
+        { type: 'destroyer', size: 2, count: 2 },
+        { type: 'boat', size: 1, count: 3 }
+      ]
+    }
+  },
+  {
+    id: 'large',
+    name: 'Большой флот',
+    description: 'Поле 12x12, 11 кораблей с авианосцем',
+    rules: {
+      boardSize: 12,
+      shipTypes: [
+        { type: 'carrier', size: 5, count: 1 },
+        { type: 'battleship', size: 4, count: 1 },
+        { type: 'cruiser', size: 3, count: 2 },
+        { type: 'destroyer', size: 2, count: 3 },
+        { type: 'boat', size: 1, count: 4 }
+      ]
+    }
+  }
+];
+
+/**
+ * Описание режима стрельбы для интерфейса
+ * @interface FiringModeInfo
+ * @property {FiringMode} id - Идентификатор режима
+ * @property {string} name - Отображаемое название
+ * @property {string} description - Краткое описание
+ */
+export interface FiringModeInfo {
+  id: FiringMode;
+  name: string;
+  description: string;
+}
+
+/** Доступные режимы стрельбы */
+export const FIRING_MODES: FiringModeInfo[] = [
+  { id: 'classic', name: 'Обычный', description: 'Один выстрел за ход, после попадания ход сохраняется' },
+  { id: 'salvo', name: 'Залп', description: 'Столько выстрелов за ход, сколько осталось кораблей' }
+];
+
+/**
+ * Режим стрельбы партии
+ */
+export function getFiringMode(rules: GameRules): FiringMode {
+  return rules.firingMode ?? 'classic';
+}
+
+/**
+ * Проверка, что партия играется залпами
+ */
+export function isSalvoMode(rules: GameRules): boolean {
+  return getFiringMode(rules) === 'salvo';
+}
+
+/**
+ * Копия правил с другим режимом стрельбы
+ */
+export function withFiringMode(rules: GameRules, firingMode: FiringMode): GameRules {
+  return { ...rules, firingMode };
+}
+
+/**
+ * Описание правила касания кораблей для интерфейса
+ * @interface ShipContactInfo
+ * @property {ShipContact} id - Идентификатор правила
+ * @property {string} name - Отображаемое название
+ * @property {string} description - Краткое описание
+ */
+export interface ShipContactInfo {
+  id: ShipContact;
+  name: string;
+  description: string;
+}
+
+/** Доступные правила касания кораблей */
+export const SHIP_CONTACT_RULES: ShipContactInfo[] = [
+  { id: 'none', name: 'Без касаний', description: 'Между кораблями всегда есть пустая клетка' },
+  { id: 'corner', name: 'Касание углами', description: 'Корабли могут соприкасаться углами' },
+  { id: 'any', name: 'Любое касание', description: 'Корабли могут стоять вплотную' }
+];
+
+/**
+ * Правило касания кораблей партии
+ */
+export function getShipContact(rules: GameRules): ShipContact {
+  return rules.shipContact ?? 'none';
+}
+
+/**
+ * Название правила касания кораблей
+ */
+export function getShipContactName(contact: ShipContact): string {
+  return SHIP_CONTACT_RULES.find(rule => rule.id === contact)?.name ?? contact;
+}
+
+/**
+ * Копия правил с другим правилом касания кораблей
+ */
+export function withShipContact(rules: GameRules, shipContact: ShipContact): GameRules {
+  return { ...rules, shipContact };
+}
+
+/**
+ * Готовый вариант контроля времени для интерфейса
+ * @interface TimeControlPreset
+ * @property {string} id - Идентификатор варианта
+ * @property {string} name - Отображаемое название
+ * @property {string} description - Краткое описание
+ * @property {number | null} turnSeconds - Время на ход в секундах
+ * @property {number | null} totalSeconds - Общее время игрока на партию в секундах
+ */
+export interface TimeControlPreset {
+  id: string;
+  name: string;
+  description: string;
+  turnSeconds: number | null;
+  totalSeconds: number | null;
+}
+
+/** Доступные варианты контроля времени */
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: 'none', name: 'Без часов', description: 'Время на ход не ограничено', turnSeconds: null, totalSeconds: null },
+  { id: 'turn-30', name: '30 с на ход', description: 'На каждый ход 30 секунд', turnSeconds: 30, totalSeconds: null },
+  { id: 'clock-5', name: '5 минут', description: 'Шахматные часы: у каждого 5 минут на всю партию', turnSeconds: null, totalSeconds: 300 },
+  { id: 'turn-30-clock-10', name: '30 с + 10 минут', description: '30 секунд на ход и 10 минут на всю партию', turnSeconds: 30, totalSeconds: 600 }
+];
+
+/**
+ * Описание действия при истечении времени на ход
+ * @interface TurnExpiryActionInfo
+ * @property {TurnExpiryAction} id - Идентификатор действия
+ * @property {string} name - Отображаемое название
+ * @property {string} description - Краткое описание
+ */
+export interface TurnExpiryActionInfo {
+  id: TurnExpiryAction;
+  name: string;
+  description: string;
+}
+
+/** Доступные действия при истечении времени на ход */
+export const TURN_EXPIRY_ACTIONS: TurnExpiryActionInfo[] = [
+  { id: 'random-shot', name: 'Случайный выстрел', description: 'За игрока стреляют в случайную клетку' },
+  { id: 'forfeit', name: 'Поражение', description: 'Игрок проигрывает по времени' }
+];
+
+/**
+ * Контроль времени партии
+ * @returns {TimeControl | null} null, если время не ограничено
+ */
+export function getTimeControl(rules: GameRules): TimeControl | null {
+  return rules.timeControl ?? null;
+}
+
+/**
+ * Копия правил с другим контролем времени
+ * @param {TimeControl | null} timeControl - Контроль времени (null - без ограничений)
+ */
+export function withTimeControl(rules: GameRules, timeControl: TimeControl | null): GameRules {
+  const { timeControl: _, ...rest } = rules;
+  return timeControl && (timeControl.turnSeconds !== null || timeControl.totalSeconds !== null)
+    ? { ...rest, timeControl }
+    : rest;
+}
+
+/**
+ * Описание контроля времени для интерфейса ("30 с на ход, 10 мин на партию")
+ */
+export function describeTimeControl(timeControl: TimeControl | null | undefined): string {
+  if (!timeControl || (timeControl.turnSeconds === null && timeControl.totalSeconds === null)) {
+    return 'без ограничений';
+  }
+
+  const parts: string[] = [];
+  if (timeControl.turnSeconds !== null) {
+    const action = TURN_EXPIRY_ACTIONS.find(a => a.id === timeControl.onTurnExpired)?.name.toLowerCase();
+    parts.push(`${timeControl.turnSeconds} с на ход (затем ${action})`);
+  }
+  if (timeControl.totalSeconds !== null) {
+    parts.push(`${Math.round(timeControl.totalSeconds / 60)} мин на партию`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Проверка корректности контроля времени
+ */
+export function isValidTimeControl(value: unknown): value is TimeControl {
+  const candidate = value as TimeControl;
+  const isLimit = (seconds: unknown) =>
+    seconds === null || (Number.isInteger(seconds) && (seconds as number) > 0);
+
+  return !!candidate &&
+    isLimit(candidate.turnSeconds) &&
+    isLimit(candidate.totalSeconds) &&
+    TURN_EXPIRY_ACTIONS.some(action => action.id === candidate.onTurnExpired);
+}
+
+/**
+ * Количество выстрелов за ход
+ * @param {GameRules} rules - Правила партии
+ * @param {number} shipsLeft - Оставшиеся корабли стреляющего игрока
+ * @returns {number} 1 в обычном режиме, число кораблей в режиме залпа
+ */
+export function getShotsPerTurn(rules: GameRules, shipsLeft: number): number {
+  return isSalvoMode(rules) ? Math.max(shipsLeft, 1) : 1;
+}
+
+/**
+ * Общее количество кораблей во флоте
+ */
+export function getTotalShipCount(rules: GameRules): number {
+  return rules.shipTypes.reduce((total, type) => total + type.count, 0);
+}
+
+/**
+ * Общее количество клеток, занятых флотом
+ */
+export function getTotalShipCells(rules: GameRules): number {
+  return rules.shipTypes.reduce((total, type) => total + type.size * type.count, 0);
+}
+
+/**
+ * Поиск набора правил, совпадающего с переданными правилами
+ * @returns {GameRulesPreset | undefined} Набор или undefined для нестандартных правил
+ */
+export function findGameRulesPreset(rules: GameRules): GameRulesPreset | undefined {
+  return GAME_RULES_PRESETS.find(preset => isSameRules(preset.rules, rules));
+}
+
+/**
+ * Сравнение двух наборов правил по размеру поля и составу флота
+ * @description Режим стрельбы, касание кораблей и контроль времени не учитываются.
+ * Совместимость готовой расстановки с правилом касания проверяет isValidFleet
+ */
+export function isSameRules(a: GameRules, b: GameRules): boolean {
+  return a.boardSize === b.boardSize &&
+    a.shipTypes.length === b.shipTypes.length &&
+    a.shipTypes.every((type, i) =>
+      type.type === b.shipTypes[i].type &&
+      type.size === b.shipTypes[i].size &&
+      type.count === b.shipTypes[i].count
+    );
+}
+
+/**
+ * Проверка корректности правил
+ * @description Поле в допустимых пределах, каждый корабль помещается в строку,
+ * а флот вместе с обязательными промежутками занимает не больше поля
+ * @param {unknown} rules - Проверяемое значение (например, прочитанное из хранилища)
+ * @returns {boolean} true если правила можно использовать
+ */
+export function isValidGameRules(rules: unknown): rules is GameRules {
+  const candidate = rules as GameRules;
+  if (!candidate || !Number.isInteger(candidate.boardSize) || !Array.isArray(candidate.shipTypes)) {
+    return false;
+  }
+
+  const { boardSize, shipTypes, firingMode, shipContact, timeControl } = candidate;
+  if (firingMode !== undefined && !FIRING_MODES.some(mode => mode.id === firingMode)) {
+    return false;
+  }
+  if (shipContact !== undefined && !SHIP_CONTACT_RULES.some(rule => rule.id === shipContact)) {
+    return false;
+  }
+  if (timeControl !== undefined && !isValidTimeControl(timeControl)) {
+    return false;
+  }
+
+  if (boardSize < MIN_BOARD_SIZE || boardSize > Math.min(MAX_BOARD_SIZE, ROW_ALPHABET.length)) {
+    return false;
+  }
+
+  const validTypes = shipTypes.length > 0 && shipTypes.every((type: ShipType) =>
+    typeof type?.type === 'string' &&
+    Number.isInteger(type.size) && type.size >= 1 && type.size <= boardSize &&
+    Number.isInteger(type.count) && type.count >= 1
+  );
+  if (!validTypes) {
+    return false;
+  }
+
+  // Каждый корабль вместе с зоной вокруг занимает (size + 1) * 2 клеток поля (boardSize + 1)^2
+  const footprint = shipTypes.reduce((total, type) => total + (type.size + 1) * 2 * type.count, 0);
+  return footprint <= (boardSize + 1) * (boardSize + 1);
+}
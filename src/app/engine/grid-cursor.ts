@@ -0,0 +1,50 @@
+import { Coordinate } from './battleship.model';
+
+/**
+ * Клавиатурный курсор по клеткам поля
+ *
+ * Поле управляется без мыши: стрелки двигают курсор на клетку,
+ * Home/End - к началу и концу строки, PageUp/PageDown - к верхней и нижней строке.
+ * У края поля курсор останавливается.
+ */
+
+/** Клавиши, которые подтверждают действие в клетке под курсором */
+export const GRID_ACTIVATE_KEYS = ['Enter', ' '];
+
+/**
+ * Новое положение курсора после нажатия клавиши
+ * @param {Coordinate} cursor - Текущая клетка
+ * @param {string} key - Значение KeyboardEvent.key
+ * @param {number} boardSize - Размер поля
+ * @returns {Coordinate | null} Новая клетка или null, если клавиша не двигает курсор
+ */
+export function moveGridCursor(cursor: Coordinate, key: string, boardSize: number): Coordinate | null {
+  const last = boardSize - 1;
+  switch (key) {
+    case 'ArrowUp':
+      return { row: Math.max(cursor.row - 1, 0), col: cursor.col };
+    case 'ArrowDown':
+      return { row: Math.min(cursor.row + 1, last), col: cursor.col };
+    case 'ArrowLeft':
+      return { row: cursor.row, col: Math.max(cursor.col - 1, 0) };
+    case 'ArrowRight':
+      return { row: cursor.row, col: Math.min(cursor.col + 1, last) };
+    case 'Home':
+      return { row: cursor.row, col: 0 };
+    case 'End':
+      return { row: cursor.row, col: last };
+    case 'PageUp':
+      return { row: 0, col: cursor.col };
+    case 'PageDown':
+      return { row: last, col: cursor.col };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Проверка, что курсор стоит в клетке
+ */
+export function isCursorAt(cursor: Coordinate, row: number, col: number): boolean {
+  return cursor.row === row && cursor.col === col;
+}
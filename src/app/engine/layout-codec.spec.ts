@@ -0,0 +1,131 @@
+import { Fleet, GameRules } from './battleship.model';
+import { createFleet, fleetToMatrix, generateSeededFleet, placeShip } from './battleship.engine';
+import { DEFAULT_GAME_RULES } from './game-rules';
+import { decodeShareCode, encodeShareCode, fleetToAsciiGrid, parseAsciiGrid, parseLayoutText } from './layout-codec';
+
+/** Расстановки сравниваются по занятым клеткам: корабли одного размера взаимозаменяемы */
+function cellsOf(fleet: Fleet, boardSize: number = 10): string[][] {
+  return fleetToMatrix(fleet, boardSize);
+}
+
+/** Классический флот, корабли которого стоят вплотную друг к другу */
+function touchingFleet(): Fleet {
+  const fleet = createFleet();
+  const line = (row: number, col: number, size: number) =>
+    Array.from({ length: size }, (_, i) => ({ row, col: col + i }));
+  placeShip(fleet, 'battleship', line(0, 0, 4));
+  placeShip(fleet, 'cruiser', line(0, 4, 3));
+  placeShip(fleet, 'cruiser', line(1, 0, 3));
+  placeShip(fleet, 'destroyer', line(0, 7, 2));
+  placeShip(fleet, 'destroyer', line(1, 3, 2));
+  placeShip(fleet, 'destroyer', line(1, 5, 2));
+  [line(1, 7, 1), line(1, 8, 1), line(2, 0, 1), line(2, 1, 1)].forEach(cells => placeShip(fleet, 'boat', cells));
+  return fleet;
+}
+
+describe('layout-codec', () => {
+  const { fleet } = generateSeededFleet(2024);
+
+  describe('ASCII-сетка', () => {
+    it('загружается обратно в ту же расстановку', () => {
+      const grid = fleetToAsciiGrid(fleet, 10);
+      expect(grid.split('\n').length).toBe(10);
+      expect(cellsOf(parseAsciiGrid(grid, DEFAULT_GAME_RULES))).toEqual(cellsOf(fleet));
+    });
+
+    it('принимает другие символы клеток, пробелы и пустые строки', () => {
+      const grid = fleetToAsciiGrid(fleet, 10)
+        .replace(/#/g, 'X')
+        .replace(/\./g, '~')
+        .split('\n')
+        .map(line => line.split('').join(' '))
+        .join('\n\n');
+      expect(cellsOf(parseAsciiGrid(grid, DEFAULT_GAME_RULES))).toEqual(cellsOf(fleet));
+    });
+
+    it('отклоняет сетку другого размера', () => {
+      const grid = fleetToAsciiGrid(fleet, 10).split('\n').slice(1).join('\n');
+      expect(() => parseAsciiGrid(grid, DEFAULT_GAME_RULES)).toThrowError(/10 строк по 10 клеток/);
+    });
+
+    it('отклоняет неизвестные символы', () => {
+      const grid = fleetToAsciiGrid(fleet, 10).replace('.', '?');
+      expect(() => parseAsciiGrid(grid, DEFAULT_GAME_RULES)).toThrowError(/Неизвестный символ "\?"/);
+    });
+
+    it('отклоняет сетку, в которой клеток кораблей больше, чем во флоте', () => {
+      const grid = fleetToAsciiGrid(fleet, 10).replace('.', '#');
+      expect(() => parseAsciiGrid(grid, DEFAULT_GAME_RULES)).toThrowError(/клеток с кораблями/);
+    });
+
+    it('отклоняет клетки, которые не складываются во флот', () => {
+      const lines = Array.from({ length: 10 }, () => '..........');
+      lines[0] = '##########';
+      lines[2] = '##########';
+      expect(() => parseAsciiGrid(lines.join('\n'), DEFAULT_GAME_RULES))
+        .toThrowError('Клетки кораблей не складываются во флот по правилам партии');
+    });
+  });
+
+  describe('код расстановки', () => {
+    it('загружается обратно в ту же расстановку', () => {
+      const code = encodeShareCode(fleet, 10);
+      expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(cellsOf(decodeShareCode(code, DEFAULT_GAME_RULES))).toEqual(cellsOf(fleet));
+    });
+
+    it('работает для поля и флота из правил партии', () => {
+      const rules: GameRules = {
+        boardSize: 8,
+        shipTypes: [
+          { type: 'cruiser', size: 3, count: 1 },
+          { type: 'boat', size: 1, count: 3 }
+        ],
+        shipContact: 'any'
+      };
+      const custom = generateSeededFleet(5, rules.shipTypes, rules.boardSize, 'any').fleet;
+      const code = encodeShareCode(custom, rules.boardSize);
+      expect(cellsOf(decodeShareCode(code, rules), 8)).toEqual(cellsOf(custom, 8));
+    });
+
+    it('не выгружает неполную расстановку', () => {
+      const partial = fleet.map(ship => ({ ...ship }));
+      partial[0] = { ...partial[0], placed: false, positions: [] };
+      expect(() => encodeShareCode(partial, 10)).toThrowError('Код можно получить только для полной расстановки');
+    });
+
+    it('отклоняет поврежденный код', () => {
+      const code = encodeShareCode(fleet, 10);
+      const damaged = code.slice(0, -1) + (code.endsWith('A') ? 'B' : 'A');
+      expect(() => decodeShareCode(code.slice(0, 2) + '!' + code.slice(3), DEFAULT_GAME_RULES))
+        .toThrowError('Код расстановки содержит недопустимые символы');
+      expect(() => decodeShareCode('AB', DEFAULT_GAME_RULES)).toThrowError('Код расстановки слишком короткий');
+      expect(() => decodeShareCode(damaged, DEFAULT_GAME_RULES)).toThrowError('Код расстановки поврежден');
+    });
+
+    it('отклоняет код для другого поля', () => {
+      const code = encodeShareCode(fleet, 10);
+      const rules: GameRules = { ...DEFAULT_GAME_RULES, boardSize: 12 };
+      expect(() => decodeShareCode(code, rules)).toThrowError(/поля 10x10/);
+    });
+
+    it('отклоняет расстановку, нарушающую правило касания партии', () => {
+      const code = encodeShareCode(touchingFleet(), 10);
+      expect(() => decodeShareCode(code, { ...DEFAULT_GAME_RULES, shipContact: 'any' })).not.toThrow();
+      expect(() => decodeShareCode(code, DEFAULT_GAME_RULES)).toThrowError('Расстановка из кода нарушает правила партии');
+    });
+  });
+
+  describe('parseLayoutText', () => {
+    it('разбирает многострочный текст как сетку, а одну строку - как код', () => {
+      const fromGrid = parseLayoutText(`\n${fleetToAsciiGrid(fleet, 10)}\n`, DEFAULT_GAME_RULES);
+      const fromCode = parseLayoutText(`  ${encodeShareCode(fleet, 10)}  `, DEFAULT_GAME_RULES);
+      expect(cellsOf(fromGrid)).toEqual(cellsOf(fleet));
+      expect(cellsOf(fromCode)).toEqual(cellsOf(fleet));
+    });
+
+    it('отклоняет пустой текст', () => {
+      expect(() => parseLayoutText('  \n ', DEFAULT_GAME_RULES)).toThrowError('Вставьте сетку или код расстановки');
+    });
+  });
+});
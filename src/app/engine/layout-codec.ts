@@ -0,0 +1,264 @@
+import { Coordinate, Fleet, GameRules } from './battleship.model';
+import { createFleet, isInsideBoard, isValidFleet } from './battleship.engine';
+import { getShipContact } from './game-rules';
+
+/**
+ * Текстовые форматы расстановки кораблей
+ *
+ * Расстановку можно выгрузить как ASCII-сетку (по строке текста на строку поля)
+ * или как короткий код для ссылок, а затем загрузить обратно.
+ * Оба формата при загрузке проверяются по правилам текущей партии.
+ */
+
+/** Символ клетки с кораблем в ASCII-сетке */
+export const GRID_SHIP_CHAR = '#';
+
+/** Символ пустой клетки в ASCII-сетке */
+export const GRID_EMPTY_CHAR = '.';
+
+/** Символы, которые при загрузке сетки считаются кораблем */
+const GRID_SHIP_CHARS = new Set([GRID_SHIP_CHAR, 'X', 'x', 'S', 's', '■']);
+
+/** Символы, которые при загрузке сетки считаются пустой клеткой */
+const GRID_EMPTY_CHARS = new Set([GRID_EMPTY_CHAR, '~', '-', 'o', 'O', '0', '·']);
+
+/** Алфавит кода расстановки (base64url - безопасен для ссылок) */
+const CODE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/** Версия формата кода расстановки */
+const SHARE_CODE_VERSION = 1;
+
+/** Количество символов на один корабль в коде */
+const SHIP_CODE_LENGTH = 2;
+
+// ==================== ASCII-СЕТКА ====================
+
+/**
+ * Выгрузка расстановки в ASCII-сетку
+ * @description Строка текста на каждую строку поля, '#' - корабль, '.' - пусто
+ * @param {Fleet} fleet - Флот
+ * @param {number} boardSize - Размер поля
+ * @returns {string} Сетка из boardSize строк
+ */
+export function fleetToAsciiGrid(fleet: Fleet, boardSize: number): string {
+  const lines = Array.from({ length: boardSize }, () => Array(boardSize).fill(GRID_EMPTY_CHAR));
+  fleet.forEach(ship => {
+    if (ship.placed) {
+      ship.positions.forEach(pos => {
+        if (isInsideBoard(pos, boardSize)) {
+          lines[pos.row][pos.col] = GRID_SHIP_CHAR;
+        }
+      });
+    }
+  });
+  return lines.map(line => line.join('')).join('\n');
+}
+
+/**
+ * Загрузка расстановки из ASCII-сетки
+ * @description Пустые строки и пробелы внутри строк пропускаются.
+ * Клетки кораблей раскладываются на корабли флота так, чтобы расстановка
+ * была корректной по правилу касания
+ * @param {string} text - Сетка
+ * @param {GameRules} rules - Правила партии
+ * @returns {Fleet} Расставленный флот
+ * @throws {Error} С описанием ошибки, если сетка не подходит под правила
+ */
+export function parseAsciiGrid(text: string, rules: GameRules): Fleet {
+  const { boardSize } = rules;
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ''))
+    .filter(line => line.length > 0);
+
+  if (lines.length !== boardSize || lines.some(line => [...line].length !== boardSize)) {
+    throw new Error(`Сетка должна состоять из ${boardSize} строк по ${boardSize} клеток`);
+  }
+
+  const cells: boolean[][] = lines.map((line, row) => [...line].map((char, col) => {
+    if (GRID_SHIP_CHARS.has(char)) {
+      return true;
+    }
+    if (GRID_EMPTY_CHARS.has(char)) {
+      return false;
+    }
+    throw new Error(`Неизвестный символ "${char}" в строке ${row + 1}, столбце ${col + 1}`);
+  }));
+
+  const fleet = createFleet(rules.shipTypes);
+  const shipCells = cells.reduce((sum, line) => sum + line.filter(Boolean).length, 0);
+  const fleetCells = fleet.reduce((sum, ship) => sum + ship.size, 0);
+  if (shipCells !== fleetCells) {
+    throw new Error(`В сетке ${shipCells} клеток с кораблями, а флот занимает ${fleetCells}`);
+  }
+
+  if (!assignShips(fleet, cells, rules)) {
+    throw new Error('Клетки кораблей не складываются во флот по правилам партии');
+  }
+  return fleet;
+}
+
+/**
+ * Раскладка клеток сетки на корабли флота перебором с возвратом
+ * @private
+ * @description Первая непокрытая клетка (сверху вниз, слева направо) всегда начало
+ * корабля, который идет вправо или вниз, поэтому перебираются только длина и направление
+ * @returns {boolean} true если флот расставлен (корабли записаны в fleet)
+ */
+function assignShips(fleet: Fleet, cells: boolean[][], rules: GameRules): boolean {
+  const covered = cells.map(line => line.map(() => false));
+
+  const findFirstFree = (): Coordinate | null => {
+    for (let row = 0; row < cells.length; row++) {
+      for (let col = 0; col < cells[row].length; col++) {
+        if (cells[row][col] && !covered[row][col]) {
+          return { row, col };
+        }
+      }
+    }
+    return null;
+  };
+
+  const search = (): boolean => {
+    const start = findFirstFree();
+    if (!start) {
+      return isValidFleet(fleet, rules.boardSize, getShipContact(rules));
+    }
+
+    const sizes = [...new Set(fleet.filter(ship => !ship.placed).map(ship => ship.size))];
+    for (const size of sizes) {
+      for (const vertical of size > 1 ? [false, true] : [false]) {
+        const positions = Array.from({ length: size }, (_, i) => ({
+          row: start.row + (vertical ? i : 0),
+          col: start.col + (vertical ? 0 : i)
+        }));
+        if (!positions.every(pos => cells[pos.row]?.[pos.col] && !covered[pos.row][pos.col])) {
+          continue;
+        }
+
+        const ship = fleet.find(s => !s.placed && s.size === size)!;
+        ship.positions = positions;
+        ship.placed = true;
+        positions.forEach(pos => covered[pos.row][pos.col] = true);
+
+        if (search()) {
+          return true;
+        }
+
+        positions.forEach(pos => covered[pos.row][pos.col] = false);
+        ship.positions = [];
+        ship.placed = false;
+      }
+    }
+    return false;
+  };
+
+  return search();
+}
+
+// ==================== КОД РАССТАНОВКИ ====================
+
+/**
+ * Выгрузка расстановки в код
+ * @description Код: версия формата, размер поля, по два символа на корабль
+ * в порядке идентификаторов (начальная клетка и направление) и контрольный символ
+ * @param {Fleet} fleet - Полностью расставленный флот
+ * @param {number} boardSize - Размер поля
+ * @returns {string} Код из символов base64url
+ * @throws {Error} Если не все корабли расставлены
+ */
+export function encodeShareCode(fleet: Fleet, boardSize: number): string {
+  if (fleet.some(ship => !ship.placed || ship.positions.length === 0)) {
+    throw new Error('Код можно получить только для полной расстановки');
+  }
+
+  const values = [SHARE_CODE_VERSION, boardSize];
+  [...fleet].sort((a, b) => a.id - b.id).forEach(ship => {
+    const row = Math.min(...ship.positions.map(pos => pos.row));
+    const col = Math.min(...ship.positions.map(pos => pos.col));
+    const vertical = new Set(ship.positions.map(pos => pos.row)).size > 1;
+    const value = (row * boardSize + col) * 2 + (vertical ? 1 : 0);
+    values.push(Math.floor(value / CODE_ALPHABET.length), value % CODE_ALPHABET.length);
+  });
+  values.push(checksum(values));
+
+  return values.map(value => CODE_ALPHABET[value]).join('');
+}
+
+/**
+ * Загрузка расстановки из кода
+ * @param {string} code - Код расстановки
+ * @param {GameRules} rules - Правила партии
+ * @returns {Fleet} Расставленный флот
+ * @throws {Error} С описанием ошибки, если код поврежден или не подходит под правила
+ */
+export function decodeShareCode(code: string, rules: GameRules): Fleet {
+  const { boardSize } = rules;
+  const values = [...code.trim()].map(char => CODE_ALPHABET.indexOf(char));
+  if (values.includes(-1)) {
+    throw new Error('Код расстановки содержит недопустимые символы');
+  }
+  if (values.length < 3) {
+    throw new Error('Код расстановки слишком короткий');
+  }
+
+  const body = values.slice(0, -1);
+  if (checksum(body) !== values[values.length - 1]) {
+    throw new Error('Код расстановки поврежден');
+  }
+
+  const [version, codeBoardSize, ...shipValues] = body;
+  if (version !== SHARE_CODE_VERSION) {
+    throw new Error('Неизвестная версия кода расстановки');
+  }
+  if (codeBoardSize !== boardSize) {
+    throw new Error(`Код сделан для поля ${codeBoardSize}x${codeBoardSize}, а в партии поле ${boardSize}x${boardSize}`);
+  }
+
+  const fleet = createFleet(rules.shipTypes);
+  if (shipValues.length !== fleet.length * SHIP_CODE_LENGTH) {
+    throw new Error('Количество кораблей в коде не совпадает с составом флота');
+  }
+
+  fleet.forEach((ship, index) => {
+    const value = shipValues[index * SHIP_CODE_LENGTH] * CODE_ALPHABET.length + shipValues[index * SHIP_CODE_LENGTH + 1];
+    const vertical = value % 2 === 1;
+    const start = Math.floor(value / 2);
+    ship.positions = Array.from({ length: ship.size }, (_, i) => ({
+      row: Math.floor(start / boardSize) + (vertical ? i : 0),
+      col: start % boardSize + (vertical ? 0 : i)
+    }));
+    ship.placed = true;
+  });
+
+  if (!isValidFleet(fleet, boardSize, getShipContact(rules))) {
+    throw new Error('Расстановка из кода нарушает правила партии');
+  }
+  return fleet;
+}
+
+/**
+ * Контрольный символ кода: взвешенная сумма значений
+ * @private
+ */
+function checksum(values: number[]): number {
+  return values.reduce((sum, value, i) => sum + value * (i + 1), 0) % CODE_ALPHABET.length;
+}
+
+// ==================== ОБЩИЙ ИМПОРТ ====================
+
+/**
+ * Загрузка расстановки из текста в любом из форматов
+ * @description Многострочный текст разбирается как ASCII-сетка, одна строка - как код
+ * @param {string} text - Сетка или код
+ * @param {GameRules} rules - Правила партии
+ * @returns {Fleet} Расставленный флот
+ * @throws {Error} С описанием ошибки
+ */
+export function parseLayoutText(text: string, rules: GameRules): Fleet {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('Вставьте сетку или код расстановки');
+  }
+  return /\r?\n/.test(trimmed) ? parseAsciiGrid(trimmed, rules) : decodeShareCode(trimmed, rules);
+}
@@ -0,0 +1,248 @@
+import { Board, Coordinate, FiringMode, Fleet, ShipContact, ShipType, Shot } from './battleship.model';
+import {
+  BOARD_SIZE,
+  HIT_CELL,
+  SHIP_TYPES,
+  createEmptyMatrix,
+  countShots,
+  fireAt,
+  fireSalvo,
+  fleetToMatrix,
+  isFleetSunk
+} from './battleship.engine';
+import { AiDifficulty, AiOpponent, createAiOpponent } from './ai-opponent';
+import { generateStrategyFleet } from './placement-strategies';
+
+/** Победитель локальной игры */
+export type LocalGameWinner = 'PLAYER' | 'COMPUTER';
+
+/**
+ * Снимок состояния локальной игры
+ * @description Совпадает по форме с ответом сервера /api/ai/game,
+ * поэтому страница игры отображает оба варианта одинаково
+ * @interface LocalGameState
+ * @property {string[][]} playerField - Корабли игрока
+ * @property {string[][]} opponentField - Выстрелы игрока по полю компьютера
+ * @property {string[][]} playerHits - Корабли компьютера, видимые после окончания игры
+ * @property {string[][]} opponentHits - Выстрелы компьютера по полю игрока
+ * @property {string[][]} opponentSunkShips - Потопленные корабли компьютера
+ * @property {number} playerShipsLeft - Оставшиеся корабли игрока
+ * @property {number} opponentShipsLeft - Оставшиеся корабли компьютера
+ * @property {boolean} playerTurn - Ход игрока
+ * @property {boolean} gameOver - Игра окончена
+ * @property {string} winner - Победитель ('PLAYER', 'COMPUTER' или пустая строка)
+ * @property {number[]} [lastAIShot] - Последний выстрел компьютера [строка, столбец]
+ * @property {boolean} [lastAIShotHit] - Попал ли последний выстрел компьютера
+ */
+export interface LocalGameState {
+  playerField: string[][];
+  opponentField: string[][];
+  playerHits: string[][];
+  opponentHits: string[][];
+  opponentSunkShips: string[][];
+  playerShipsLeft: number;
+  opponentShipsLeft: number;
+  playerTurn: boolean;
+  gameOver: boolean;
+  winner: string;
+  lastAIShot?: number[];
+  lastAIShotHit?: boolean;
+}
+
+/**
+ * Параметры локальной игры
+ * @interface LocalGameOptions
+ * @property {number} [boardSize] - Размер поля
+ * @property {ShipType[]} [shipTypes] - Состав флота
+ * @property {() => number} [random] - Источник случайных чисел
+ * @property {string} [computerStrategy] - Стратегия расстановки кораблей компьютера (нет - случайная)
+ * @property {FiringMode} [firingMode] - Режим стрельбы
+ * @property {ShipContact} [shipContact] - Допустимое касание кораблей
+ */
+export interface LocalGameOptions {
+  boardSize?: number;
+  shipTypes?: ShipType[];
+  random?: () => number;
+  computerStrategy?: string;
+  firingMode?: FiringMode;
+  shipContact?: ShipContact;
+}
+
+/**
+ * Партия против компьютера без сервера
+ *
+ * Обычный режим - как на сервере: после попадания стрелявший ходит еще раз,
+ * после промаха ход переходит к сопернику. В режиме залпа каждый ход - залп
+ * из стольких выстрелов, сколько у стреляющего осталось кораблей, и ход
+ * всегда переходит к сопернику. Первым ходит игрок.
+ */
+export class LocalGame {
+  readonly difficulty: AiDifficulty;
+  readonly firingMode: FiringMode;
+
+  private readonly playerBoard: Board;
+  private readonly computerBoard: Board;
+  private readonly playerShots: string[][];
+  private readonly computerShots: string[][];
+  private readonly ai: AiOpponent;
+
+  private playerTurn = true;
+  private winner: LocalGameWinner | null = null;
+  private lastComputerShots: Shot[] = [];
+
+  constructor(playerFleet: Fleet, difficulty: AiDifficulty, options: LocalGameOptions = {}) {
+    const boardSize = options.boardSize ?? BOARD_SIZE;
+    const shipTypes = options.shipTypes ?? SHIP_TYPES;
+    const random = options.random ?? Math.random;
+    const shipContact = options.shipContact ?? 'none';
+
+    this.difficulty = difficulty;
+    this.firingMode = options.firingMode ?? 'classic';
+    this.playerBoard = { size: boardSize, fleet: playerFleet };
+    this.computerBoard = {
+      size: boardSize,
+      fleet: generateStrategyFleet(options.computerStrategy ?? 'spread', {
+        boardSize,
+        shipTypes,
+        contact: shipContact,
+        random
+      })
+    };
+    this.playerShots = createEmptyMatrix(boardSize);
+    this.computerShots = createEmptyMatrix(boardSize);
+    this.ai = createAiOpponent(difficulty, boardSize, shipTypes, random, shipContact);
+  }
+
+  get isGameOver(): boolean {
+    return this.winner !== null;
+  }
+
+  get isPlayerTurn(): boolean {
+    return this.playerTurn && !this.isGameOver;
+  }
+
+  /**
+   * Количество выстрелов игрока за ход
+   */
+  get playerShotsPerTurn(): number {
+    return this.shotsPerTurn(this.playerBoard, this.computerShots, this.playerShots);
+  }
+
+  /**
+   * Количество выстрелов компьютера за ход
+   */
+  get computerShotsPerTurn(): number {
+    return this.shotsPerTurn(this.computerBoard, this.playerShots, this.computerShots);
+  }
+
+  /**
+   * Ход игрока: один выстрел или залп
+   * @param {Coordinate[]} targets - Клетки для выстрела (ровно playerShotsPerTurn штук)
+   * @returns {Shot[]} Результаты выстрелов
+   * @throws {Error} Если сейчас не ход игрока, число клеток не совпадает с залпом
+   * или по клетке уже стреляли
+   */
+  playerMove(targets: Coordinate[]): Shot[] {
+    if (!this.isPlayerTurn) {
+      throw new Error('Сейчас не ваш ход');
+    }
+    if (targets.length !== this.playerShotsPerTurn) {
+      throw new Error(`За ход нужно сделать выстрелов: ${this.playerShotsPerTurn}`);
+    }
+
+    const shots = fireSalvo(this.computerBoard, this.playerShots, targets);
+    if (isFleetSunk(this.computerBoard, this.playerShots)) {
+      this.winner = 'PLAYER';
+    } else if (this.firingMode === 'salvo' || shots[0].result === 'miss') {
+      this.playerTurn = false;
+    }
+    return shots;
+  }
+
+  /**
+   * Ход компьютера: один выстрел или залп
+   * @returns {Shot[]} Результаты выстрелов
+   * @throws {Error} Если сейчас не ход компьютера
+   */
+  computerMove(): Shot[] {
+    if (this.playerTurn || this.isGameOver) {
+      throw new Error('Сейчас не ход компьютера');
+    }
+
+    const targets = this.firingMode === 'salvo'
+      ? this.ai.nextSalvo(this.computerShotsPerTurn)
+      : [this.ai.nextShot()];
+    const shots = targets.map(target => {
+      const shot = fireAt(this.playerBoard, this.computerShots, target);
+      this.ai.registerShot(shot);
+      return shot;
+    });
+    this.lastComputerShots = shots;
+
+    if (isFleetSunk(this.playerBoard, this.computerShots)) {
+      this.winner = 'COMPUTER';
+    } else if (this.firingMode === 'salvo' || shots[0].result === 'miss') {
+      this.playerTurn = true;
+    }
+    return shots;
+  }
+
+  /**
+   * Сдача игрока
+   */
+  surrender(): void {
+    if (!this.isGameOver) {
+      this.winner = 'COMPUTER';
+    }
+  }
+
+  /**
+   * Текущее состояние партии
+   */
+  getState(): LocalGameState {
+    const state: LocalGameState = {
+      playerField: fleetToMatrix(this.playerBoard.fleet, this.playerBoard.size),
+      opponentField: this.playerShots.map(row => [...row]),
+      playerHits: this.isGameOver
+        ? fleetToMatrix(this.computerBoard.fleet, this.computerBoard.size)
+        : createEmptyMatrix(this.computerBoard.size),
+      opponentHits: this.computerShots.map(row => [...row]),
+      opponentSunkShips: fleetToMatrix(this.sunkShips(this.computerBoard, this.playerShots), this.computerBoard.size),
+      playerShipsLeft: this.countShipsLeft(this.playerBoard, this.computerShots),
+      opponentShipsLeft: this.countShipsLeft(this.computerBoard, this.playerShots),
+      playerTurn: this.isPlayerTurn,
+      gameOver: this.isGameOver,
+      winner: this.winner ?? ''
+    };
+
+    const lastShot = this.lastComputerShots[this.lastComputerShots.length - 1];
+    if (lastShot) {
+      state.lastAIShot = [lastShot.row, lastShot.col];
+      state.lastAIShotHit = lastShot.result !== 'miss';
+    }
+
+    return state;
+  }
+
+  /**
+   * Размер залпа: по кораблю на выстрел, но не больше нестреляных клеток
+   */
+  private shotsPerTurn(ownBoard: Board, shotsAtOwn: string[][], ownShots: string[][]): number {
+    if (this.firingMode !== 'salvo') {
+      return 1;
+    }
+    const size = ownShots.length;
+    const freeCells = size * size - countShots(ownShots).shots;
+    return Math.min(this.countShipsLeft(ownBoard, shotsAtOwn), freeCells);
+  }
+
+  private countShipsLeft(board: Board, shots: string[][]): number {
+    return board.fleet.length - this.sunkShips(board, shots).length;
+  }
+
+  private sunkShips(board: Board, shots: string[][]): Fleet {
+    return board.fleet.filter(ship =>
+      ship.positions.every(pos => shots[pos.row]?.[pos.col] === HIT_CELL)
+    );
+  }
+}
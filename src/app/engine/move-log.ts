@@ -0,0 +1,76 @@
+import { ShipType, ShotResult } from './battleship.model';
+import { SHIP_TYPE_NAMES, SHOT_RESULT_LABELS, formatCoordinate, getShipCellsAt } from './battleship.engine';
+import { GameRecord, RecordedMove, RecordedPlayer } from './game-record';
+
+/**
+ * Журнал ходов партии
+ *
+ * Строится по записи партии (GameRecord): строка на каждый выстрел
+ * в нотации поля ("Вы: Д5 — ранен") и отдельная строка о потопленном корабле.
+ * Название корабля известно для кораблей игрока, а для кораблей соперника -
+ * только если передано поле с ними (потопленные корабли открывает сервер или локальная партия).
+ */
+
+/**
+ * Строка журнала ходов
+ * @interface MoveLogEntry
+ * @property {number} id - Порядковый номер строки
+ * @property {RecordedPlayer} player - Кто стрелял
+ * @property {number} row - Строка клетки выстрела
+ * @property {number} col - Столбец клетки выстрела
+ * @property {ShotResult | 'ship-sunk'} kind - Результат выстрела или сообщение о потоплении
+ * @property {string} text - Текст строки
+ */
+export interface MoveLogEntry {
+  id: number;
+  player: RecordedPlayer;
+  row: number;
+  col: number;
+  kind: ShotResult | 'ship-sunk';
+  text: string;
+}
+
+/**
+ * Журнал ходов по записи партии
+ * @param {GameRecord} record - Запись партии
+ * @param {ShipType[]} shipTypes - Состав флота (для названий потопленных кораблей)
+ * @param {string[][]} [opponentField] - Известные корабли соперника ('S')
+ * @returns {MoveLogEntry[]} Строки в порядке ходов
+ */
+export function buildMoveLog(record: GameRecord, shipTypes: ShipType[], opponentField?: string[][]): MoveLogEntry[] {
+  const entries: MoveLogEntry[] = [];
+  const names: Record<RecordedPlayer, string> = { me: record.myName, opponent: record.opponentName };
+
+  record.moves.forEach(move => {
+    const base = { player: move.player, row: move.row, col: move.col };
+    entries.push({
+      ...base,
+      id: entries.length,
+      kind: move.result,
+      text: `${names[move.player]}: ${formatCoordinate(move)} — ${SHOT_RESULT_LABELS[move.result]}`
+    });
+
+    if (move.result === 'sunk') {
+      const text = describeSunkShip(record, move, shipTypes, opponentField);
+      entries.push({ ...base, id: entries.length, kind: 'ship-sunk', text });
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Сообщение о потопленном корабле
+ * @private
+ * @description Тип корабля определяется по его размеру на поле
+ */
+function describeSunkShip(record: GameRecord, move: RecordedMove, shipTypes: ShipType[], opponentField?: string[][]): string {
+  const field = move.player === 'me' ? opponentField : record.myField;
+  if (!field) {
+    return 'Корабль соперника потоплен';
+  }
+
+  const size = getShipCellsAt(field, move).length;
+  const type = shipTypes.find(shipType => shipType.size === size)?.type;
+  return `${(type && SHIP_TYPE_NAMES[type]) || 'Корабль'} потоплен`;
+}
@@ -0,0 +1,724 @@
+import { Coordinate, Fleet, GameRules, Ship, ShipContact } from './battleship.model';
+import {
+  canPlaceShip,
+  clearFleet,
+  countUnplacedShips,
+  createFleet,
+  getRotatedPositions,
+  getShipAt,
+  getShipPositions,
+  hasShipAt,
+  isFleetPlaced,
+  isShipHorizontal,
+  moveShip,
+  placeShip,
+  removeShip
+} from './battleship.engine';
+import { getShipContact } from './game-rules';
+import { GRID_ACTIVATE_KEYS, isCursorAt, moveGridCursor } from './grid-cursor';
+import { PlacementHistory } from './placement-history';
+
+/**
+ * Редактор расстановки кораблей
+ *
+ * Общая часть страниц расстановки: выбор, перенос, поворот и снятие кораблей
+ * с отменой и повтором, перетаскивание указателем (мышь, касание, перо),
+ * размещение касанием и управление с клавиатуры. Страница передает редактору
+ * события поля и панели кораблей и отрисовывает его состояние, а фокус,
+ * попапы и сообщения остаются на странице.
+ */
+
+/** Сдвиг указателя в пикселях, после которого нажатие считается перетаскиванием */
+const DRAG_THRESHOLD = 6;
+
+/**
+ * Перетаскиваемый корабль
+ * @interface DraggedShip
+ * @property {number} size - Размер корабля
+ * @property {string} type - Тип корабля
+ * @property {number} [shipId] - Корабль, который переносится по полю (нет - новый из панели)
+ * @property {boolean} [horizontal] - Ориентация переносимого корабля
+ * @property {number} [offset] - Номер клетки корабля, за которую его взяли
+ */
+export interface DraggedShip {
+  size: number;
+  type: string;
+  shipId?: number;
+  horizontal?: boolean;
+  offset?: number;
+}
+
+/**
+ * Нажатие указателя, с которого может начаться перетаскивание
+ * @interface PointerDrag
+ * @property {number} pointerId - Идентификатор указателя (палец, мышь или перо)
+ * @property {number} startX - Координата нажатия по горизонтали
+ * @property {number} startY - Координата нажатия по вертикали
+ * @property {boolean} moved - Указатель сдвинулся дальше порога и идет перетаскивание
+ * @property {boolean} wasArmed - Корабль этого типа уже был выбран касанием
+ */
+interface PointerDrag {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  moved: boolean;
+  wasArmed: boolean;
+}
+
+/** Поля события указателя, которые читает редактор (подходит PointerEvent) */
+export type EditorPointerEvent = Pick<PointerEvent, 'pointerId' | 'pointerType' | 'button' | 'clientX' | 'clientY' | 'preventDefault'>;
+
+/** Поля события клавиатуры, которые читает редактор (подходит KeyboardEvent) */
+export type EditorKeyEvent = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'target' | 'preventDefault'>;
+
+/** Поиск клетки поля под точкой экрана (null - под точкой нет клетки) */
+export type CellLocator = (x: number, y: number) => Coordinate | null;
+
+/**
+ * Клетка поля под точкой экрана
+ * @description Клетки поля размечаются классом cell и атрибутами data-row и data-col
+ */
+export function findBoardCell(x: number, y: number): Coordinate | null {
+  const cell = document.elementFromPoint(x, y)?.closest('.cell');
+  const row = parseInt(cell?.getAttribute('data-row') ?? '', 10);
+  const col = parseInt(cell?.getAttribute('data-col') ?? '', 10);
+  return isNaN(row) || isNaN(col) ? null : { row, col };
+}
+
+export class PlacementEditor {
+  /** Размер поля */
+  readonly boardSize: number;
+
+  /** Допустимое касание кораблей */
+  readonly shipContact: ShipContact;
+
+  /** Корабли расстановки (состав задается правилами партии) */
+  ships: Fleet;
+
+  /** Ориентация новых кораблей из панели */
+  isHorizontal = true;
+
+  /** Перетаскиваемый корабль или корабль, который ждет размещения */
+  draggedShip: DraggedShip | null = null;
+
+  /** Клетка под указателем или курсором при размещении */
+  hoveredCell: Coordinate | null = null;
+
+  /** Клетки, которые займет размещаемый корабль */
+  potentialPositions: Coordinate[] = [];
+
+  /** Корабль выбран касанием или с клавиатуры и ждет клетки поля */
+  tapPlacement = false;
+
+  /** Положение указателя для отрисовки перетаскиваемого корабля */
+  dragPoint: { x: number, y: number } | null = null;
+
+  /** Выбранный на поле корабль */
+  selectedShipId: number | null = null;
+
+  /** Клетка под клавиатурным курсором */
+  cursor: Coordinate = { row: 0, col: 0 };
+
+  /** Подсказка о результате редактирования */
+  editHint = '';
+
+  /** Текущее нажатие указателя */
+  private pointerDrag: PointerDrag | null = null;
+
+  /** История действий для отмены и повтора */
+  private history = new PlacementHistory();
+
+  /**
+   * @param {GameRules} rules - Правила партии: размер поля, состав флота и касание
+   * @param {CellLocator} [locateCell] - Поиск клетки под указателем (по умолчанию по разметке поля)
+   */
+  constructor(rules: GameRules, private locateCell: CellLocator = findBoardCell) {
+    this.boardSize = rules.boardSize;
+    this.shipContact = getShipContact(rules);
+    this.ships = createFleet(rules.shipTypes);
+  }
+
+  // ==================== СОСТОЯНИЕ РАССТАНОВКИ ====================
+
+  /**
+   * Выбранный корабль, если он стоит на поле
+   */
+  get selectedShip(): Ship | undefined {
+    return this.ships.find(ship => ship.id === this.selectedShipId && ship.placed);
+  }
+
+  /** Есть ли действие для отмены */
+  get canUndo(): boolean {
+    return this.history.canUndo;
+  }
+
+  /** Есть ли отмененное действие для повтора */
+  get canRedo(): boolean {
+    return this.history.canRedo;
+  }
+
+  /**
+   * Проверка, что на поле размещен хотя бы один корабль
+   */
+  hasAtLeastOneShip(): boolean {
+    return this.ships.some(ship => ship.placed && ship.positions.length > 0);
+  }
+
+  /**
+   * Проверка, что все корабли размещены на поле
+   */
+  isAllShipsPlaced(): boolean {
+    return isFleetPlaced(this.ships);
+  }
+
+  /**
+   * Количество нерасставленных кораблей типа
+   */
+  getRemainingShipsCount(type: string): number {
+    return countUnplacedShips(this.ships, type);
+  }
+
+  /**
+   * Нерасставленные корабли типа для панели расстановки
+   */
+  getRemainingShips(type: string): Ship[] {
+    return this.ships.filter(ship => ship.type === type && !ship.placed);
+  }
+
+  /**
+   * Проверка наличия корабля в клетке
+   */
+  hasShip(row: number, col: number): boolean {
+    return hasShipAt(this.ships, { row, col });
+  }
+
+  /**
+   * Проверка, что клетка принадлежит выбранному кораблю
+   */
+  isSelectedCell(row: number, col: number): boolean {
+    return !!this.selectedShip?.positions.some(pos => pos.row === row && pos.col === col);
+  }
+
+  /**
+   * Проверка, что клетка входит в допустимое место для размещаемого корабля
+   */
+  isValidDropZone(row: number, col: number): boolean {
+    return this.isPotentialCell(row, col) && this.isDropAllowed();
+  }
+
+  /**
+   * Проверка, что клетка входит в недопустимое место для размещаемого корабля
+   */
+  isInvalidDropZone(row: number, col: number): boolean {
+    return this.isPotentialCell(row, col) && !this.isDropAllowed();
+  }
+
+  /**
+   * Клетки нового корабля от начальной клетки в текущей ориентации
+   */
+  getShipPositions(size: number, startRow: number, startCol: number): Coordinate[] {
+    return getShipPositions(size, { row: startRow, col: startCol }, this.isHorizontal, this.boardSize);
+  }
+
+  // ==================== ИЗМЕНЕНИЕ РАССТАНОВКИ ====================
+
+  /**
+   * Переключение ориентации новых кораблей
+   */
+  toggleOrientation(): void {
+    this.isHorizontal = !this.isHorizontal;
+  }
+
+  /**
+   * Снятие всех кораблей с поля
+   */
+  clear(): void {
+    this.history.record(this.ships);
+    this.selectedShipId = null;
+    clearFleet(this.ships);
+  }
+
+  /**
+   * Замена всего флота с сохранением шага в истории
+   */
+  setFleet(fleet: Fleet): void {
+    this.history.record(this.ships);
+    this.ships = fleet;
+    this.selectedShipId = null;
+  }
+
+  /**
+   * Размещение нового корабля от начальной клетки в текущей ориентации
+   */
+  placeShip(ship: { size: number, type: string }, startRow: number, startCol: number): void {
+    this.history.record(this.ships);
+    placeShip(this.ships, ship.type, this.getShipPositions(ship.size, startRow, startCol));
+  }
+
+  /**
+   * Поворот выбранного корабля на месте
+   * @description Если после поворота корабль пересекся бы с другими
+   * или нарушил правило касания, поворот не выполняется
+   */
+  rotateSelectedShip(): void {
+    const ship = this.selectedShip;
+    if (!ship || ship.size === 1) {
+      return;
+    }
+
+    const positions = getRotatedPositions(ship, this.boardSize);
+    if (!canPlaceShip(this.ships, positions, this.boardSize, ship.id, this.shipContact)) {
+      this.editHint = 'Корабль не повернуть: мешают соседние корабли или край поля';
+      return;
+    }
+
+    this.history.record(this.ships);
+    moveShip(this.ships, ship.id, positions, this.boardSize, this.shipContact);
+    this.editHint = '';
+  }
+
+  /**
+   * Снятие выбранного корабля с поля обратно в панель кораблей
+   */
+  removeSelectedShip(): void {
+    const ship = this.selectedShip;
+    if (!ship) {
+      return;
+    }
+
+    this.history.record(this.ships);
+    removeShip(this.ships, ship.id);
+    this.selectedShipId = null;
+    if (this.draggedShip?.shipId === ship.id) {
+      this.resetDrag();
+    }
+  }
+
+  /**
+   * Отмена последнего действия
+   */
+  undo(): void {
+    const previous = this.history.undo(this.ships);
+    if (previous) {
+      this.ships = previous;
+      this.selectedShipId = null;
+      this.editHint = '';
+    }
+  }
+
+  /**
+   * Повтор отмененного действия
+   */
+  redo(): void {
+    const next = this.history.redo(this.ships);
+    if (next) {
+      this.ships = next;
+      this.selectedShipId = null;
+      this.editHint = '';
+    }
+  }
+
+  /**
+   * Щелчок по клетке поля
+   * @description Выбирает корабль в клетке (пустая клетка снимает выбор).
+   * Если корабль выбран касанием или с клавиатуры, он ставится от этой клетки
+   */
+  onCellClick(row: number, col: number): void {
+    if (this.tapPlacement) {
+      if (this.dropShip(row, col)) {
+        this.resetDrag();
+      } else {
+        this.editHint = 'Сюда корабль не поставить';
+      }
+      return;
+    }
+
+    this.selectedShipId = getShipAt(this.ships, { row, col })?.id ?? null;
+    this.editHint = '';
+  }
+
+  /**
+   * Перенос расставленного корабля в новые клетки
+   */
+  private moveShip(shipId: number, positions: Coordinate[]): void {
+    if (!canPlaceShip(this.ships, positions, this.boardSize, shipId, this.shipContact)) {
+      return;
+    }
+
+    this.history.record(this.ships);
+    moveShip(this.ships, shipId, positions, this.boardSize, this.shipContact);
+    this.selectedShipId = shipId;
+  }
+
+  // ==================== ПЕРЕТАСКИВАНИЕ ====================
+
+  /**
+   * Нажатие на корабль в панели: начало перетаскивания или выбор касанием
+   * @description Если указатель отпустили без сдвига, корабль ждет касания клетки поля.
+   * Повторное касание того же корабля отменяет выбор
+   */
+  onShipPointerDown(event: EditorPointerEvent, ship: Ship): void {
+    if (event.button !== 0) {
+      return;
+    }
+    event.preventDefault();
+
+    const wasArmed = this.tapPlacement && this.draggedShip?.type === ship.type;
+    this.draggedShip = { size: ship.size, type: ship.type };
+    this.tapPlacement = false;
+    this.startPointerDrag(event, wasArmed);
+  }
+
+  /**
+   * Нажатие на расставленный корабль: начало переноса по полю
+   * @description Корабль сохраняет ориентацию и клетку, за которую его взяли
+   */
+  onBoardPointerDown(event: EditorPointerEvent, row: number, col: number): void {
+    const ship = getShipAt(this.ships, { row, col });
+    if (event.button !== 0 || this.tapPlacement || !ship) {
+      return;
+    }
+    event.preventDefault();
+
+    this.draggedShip = this.createMovingShip(ship, row, col);
+    this.startPointerDrag(event, false);
+  }
+
+  /**
+   * Движение указателя: перетаскивание или предпросмотр корабля, выбранного касанием
+   * @description Перетаскивание начинается после сдвига на DRAG_THRESHOLD пикселей,
+   * чтобы касание не превращалось в перенос
+   */
+  onPointerMove(event: EditorPointerEvent): void {
+    const drag = this.pointerDrag;
+    if (drag && drag.pointerId === event.pointerId) {
+      const distance = Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY);
+      if (!drag.moved && distance < DRAG_THRESHOLD) {
+        return;
+      }
+      drag.moved = true;
+      this.dragPoint = { x: event.clientX, y: event.clientY };
+      this.updateHoveredCell(event.clientX, event.clientY);
+    } else if (this.tapPlacement && event.pointerType === 'mouse') {
+      this.updateHoveredCell(event.clientX, event.clientY);
+    }
+  }
+
+  /**
+   * Отпускание указателя: размещение корабля или выбор касанием
+   */
+  onPointerUp(event: EditorPointerEvent): void {
+    const drag = this.pointerDrag;
+    if (!drag || drag.pointerId !== event.pointerId) {
+      return;
+    }
+    this.pointerDrag = null;
+    this.dragPoint = null;
+
+    if (drag.moved) {
+      if (this.hoveredCell) {
+        this.dropShip(this.hoveredCell.row, this.hoveredCell.col);
+      }
+      this.resetDrag();
+    } else if (this.draggedShip?.shipId === undefined && !drag.wasArmed) {
+      this.tapPlacement = true;
+      this.selectedShipId = null;
+    } else {
+      this.resetDrag();
+    }
+  }
+
+  /**
+   * Прерывание указателя браузером (например, начался скролл страницы)
+   */
+  onPointerCancel(event: EditorPointerEvent): void {
+    if (this.pointerDrag?.pointerId === event.pointerId) {
+      this.pointerDrag = null;
+      this.dragPoint = null;
+      this.resetDrag();
+    }
+  }
+
+  /**
+   * Запоминание нажатия указателя
+   */
+  private startPointerDrag(event: EditorPointerEvent, wasArmed: boolean): void {
+    this.pointerDrag = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      moved: false,
+      wasArmed
+    };
+    this.editHint = '';
+  }
+
+  /**
+   * Описание расставленного корабля, который берут с поля за указанную клетку
+   */
+  private createMovingShip(ship: Ship, row: number, col: number): DraggedShip {
+    const horizontal = isShipHorizontal(ship);
+    const startRow = Math.min(...ship.positions.map(pos => pos.row));
+    const startCol = Math.min(...ship.positions.map(pos => pos.col));
+    return {
+      size: ship.size,
+      type: ship.type,
+      shipId: ship.id,
+      horizontal,
+      offset: horizontal ? col - startCol : row - startRow
+    };
+  }
+
+  /**
+   * Определение клетки поля под указателем и расчет потенциальных позиций
+   */
+  private updateHoveredCell(x: number, y: number): void {
+    const cell = this.draggedShip ? this.locateCell(x, y) : null;
+    if (cell) {
+      this.hoveredCell = cell;
+      this.potentialPositions = this.getDragPositions(cell.row, cell.col);
+    } else {
+      this.hoveredCell = null;
+      this.potentialPositions = [];
+    }
+  }
+
+  /**
+   * Размещение перетаскиваемого корабля от клетки поля
+   * @returns {boolean} true если корабль поставлен
+   */
+  private dropShip(row: number, col: number): boolean {
+    if (!this.draggedShip) {
+      return false;
+    }
+
+    this.potentialPositions = this.getDragPositions(row, col);
+    if (!this.isDropAllowed()) {
+      return false;
+    }
+
+    if (this.draggedShip.shipId !== undefined) {
+      this.moveShip(this.draggedShip.shipId, this.potentialPositions);
+    } else {
+      this.placeShip(this.draggedShip, row, col);
+    }
+    return true;
+  }
+
+  /**
+   * Сброс перетаскивания и выбора корабля касанием
+   */
+  private resetDrag(): void {
+    this.draggedShip = null;
+    this.hoveredCell = null;
+    this.potentialPositions = [];
+    this.tapPlacement = false;
+  }
+
+  /**
+   * Клетки перетаскиваемого корабля при наведении на клетку поля
+   * @description Новый корабль ставится как обычно, переносимый - со сдвигом
+   * на клетку, за которую его взяли, и в своей ориентации
+   */
+  private getDragPositions(row: number, col: number): Coordinate[] {
+    const ship = this.draggedShip!;
+    if (ship.shipId === undefined) {
+      return this.getShipPositions(ship.size, row, col);
+    }
+
+    const offset = ship.offset ?? 0;
+    return Array.from({ length: ship.size }, (_, i) => ({
+      row: ship.horizontal ? row : row - offset + i,
+      col: ship.horizontal ? col - offset + i : col
+    }));
+  }
+
+  /**
+   * Проверка, что размещаемый корабль можно поставить в потенциальные позиции
+   * @description Переносимый корабль не мешает сам себе
+   */
+  private isDropAllowed(): boolean {
+    return !!this.draggedShip && canPlaceShip(
+      this.ships,
+      this.potentialPositions,
+      this.boardSize,
+      this.draggedShip.shipId,
+      this.shipContact
+    );
+  }
+
+  private isPotentialCell(row: number, col: number): boolean {
+    return !!this.draggedShip && !!this.hoveredCell &&
+      this.potentialPositions.some(pos => pos.row === row && pos.col === col);
+  }
+
+  // ==================== УПРАВЛЕНИЕ С КЛАВИАТУРЫ ====================
+
+  /**
+   * Горячие клавиши редактирования
+   * @description Ctrl+Z - отмена, Ctrl+Y (Ctrl+Shift+Z) - повтор,
+   * R - поворот выбранного корабля (или корабля, который ждет размещения),
+   * Delete - снятие выбранного корабля, Escape - снятие выбора
+   * (или отмена выбора корабля касанием).
+   * В полях ввода клавиши не перехватываются
+   */
+  onKeyDown(event: EditorKeyEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (target?.closest?.('input, textarea, select')) {
+      return;
+    }
+
+    if (event.ctrlKey || event.metaKey) {
+      if (event.code === 'KeyZ' && !event.shiftKey) {
+        event.preventDefault();
+        this.undo();
+      } else if (event.code === 'KeyY' || (event.code === 'KeyZ' && event.shiftKey)) {
+        event.preventDefault();
+        this.redo();
+      }
+      return;
+    }
+
+    if (event.code === 'Escape' && this.tapPlacement) {
+      this.resetDrag();
+      return;
+    }
+
+    if (event.code === 'KeyR' && this.tapPlacement) {
+      this.rotateArmedShip();
+      return;
+    }
+
+    if (this.selectedShipId === null) {
+      return;
+    }
+
+    if (event.code === 'KeyR') {
+      this.rotateSelectedShip();
+    } else if (event.code === 'Delete' || event.code === 'Backspace') {
+      event.preventDefault();
+      this.removeSelectedShip();
+    } else if (event.code === 'Escape') {
+      this.selectedShipId = null;
+    }
+  }
+
+  /**
+   * Проверка, что клетка под клавиатурным курсором
+   */
+  isCursorCell(row: number, col: number): boolean {
+    return isCursorAt(this.cursor, row, col);
+  }
+
+  /**
+   * Перенос курсора на клетку, получившую фокус (щелчком или Tab)
+   */
+  onCellFocus(row: number, col: number): void {
+    this.cursor = { row, col };
+  }
+
+  /**
+   * Управление полем с клавиатуры
+   * @description Стрелки, Home/End и PageUp/PageDown двигают курсор,
+   * Enter и пробел берут корабль под курсором или ставят выбранный
+   * @returns {boolean} true если курсор сдвинулся и фокус нужно перевести на его клетку
+   */
+  onBoardKeydown(event: EditorKeyEvent): boolean {
+    const next = moveGridCursor(this.cursor, event.key, this.boardSize);
+    if (next) {
+      event.preventDefault();
+      this.cursor = next;
+      if (this.tapPlacement) {
+        this.updatePreview(next);
+      }
+      return true;
+    }
+
+    if (GRID_ACTIVATE_KEYS.includes(event.key)) {
+      event.preventDefault();
+      this.activateCursorCell();
+    }
+    return false;
+  }
+
+  /**
+   * Выбор корабля в панели с клавиатуры (Enter или пробел)
+   * @returns {boolean} true если корабль выбран и фокус нужно перевести на поле
+   */
+  onPanelShipKeydown(event: EditorKeyEvent, ship: Ship): boolean {
+    if (!GRID_ACTIVATE_KEYS.includes(event.key)) {
+      return false;
+    }
+    event.preventDefault();
+    this.armShip(ship);
+    return true;
+  }
+
+  /**
+   * Выбор корабля из панели для размещения касанием или с клавиатуры
+   */
+  armShip(ship: Ship): void {
+    this.draggedShip = { size: ship.size, type: ship.type };
+    this.tapPlacement = true;
+    this.selectedShipId = null;
+    this.editHint = '';
+    this.updatePreview(this.cursor);
+  }
+
+  /**
+   * Действие в клетке под курсором
+   * @description Выбранный корабль ставится от клетки; если ничего не выбрано,
+   * берется корабль под курсором, а на пустой клетке - первый нерасставленный
+   */
+  private activateCursorCell(): void {
+    const { row, col } = this.cursor;
+    if (this.tapPlacement) {
+      this.onCellClick(row, col);
+      return;
+    }
+
+    const ship = getShipAt(this.ships, this.cursor);
+    if (ship) {
+      this.draggedShip = this.createMovingShip(ship, row, col);
+      this.tapPlacement = true;
+      this.selectedShipId = ship.id;
+      this.editHint = '';
+      this.updatePreview(this.cursor);
+      return;
+    }
+
+    const unplaced = this.ships.find(s => !s.placed);
+    if (unplaced) {
+      this.armShip(unplaced);
+    }
+  }
+
+  /**
+   * Поворот корабля, который ждет размещения
+   * @description Переносимый корабль меняет свою ориентацию, новый - общую ориентацию панели
+   */
+  private rotateArmedShip(): void {
+    if (!this.draggedShip) {
+      return;
+    }
+
+    if (this.draggedShip.shipId !== undefined) {
+      this.draggedShip = { ...this.draggedShip, horizontal: !this.draggedShip.horizontal };
+    } else {
+      this.toggleOrientation();
+    }
+    this.updatePreview();
+  }
+
+  /**
+   * Пересчет потенциальных позиций корабля, который ждет размещения
+   * @param {Coordinate} [cell] - Клетка предпросмотра (нет - последняя клетка под указателем)
+   */
+  private updatePreview(cell: Coordinate | null = this.hoveredCell): void {
+    if (!this.draggedShip || !cell) {
+      return;
+    }
+    this.hoveredCell = { ...cell };
+    this.potentialPositions = this.getDragPositions(cell.row, cell.col);
+  }
+}
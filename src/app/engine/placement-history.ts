@@ -0,0 +1,76 @@
+import { Fleet } from './battleship.model';
+import { cloneFleet } from './battleship.engine';
+
+/**
+ * История действий расстановки для отмены и повтора
+ *
+ * Перед каждым изменением флота страница расстановки сохраняет снимок
+ * через record. Отмена возвращает предыдущий снимок, повтор - отмененный.
+ * Новое действие после отмены сбрасывает цепочку повтора.
+ */
+
+/** Максимальное количество хранимых шагов */
+const MAX_HISTORY_STEPS = 100;
+
+export class PlacementHistory {
+  private undoStack: Fleet[] = [];
+  private redoStack: Fleet[] = [];
+
+  /** Есть ли действие для отмены */
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /** Есть ли отмененное действие для повтора */
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Сохранение состояния флота перед изменением
+   * @param {Fleet} fleet - Флот до изменения
+   */
+  record(fleet: Fleet): void {
+    this.undoStack.push(cloneFleet(fleet));
+    if (this.undoStack.length > MAX_HISTORY_STEPS) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Отмена последнего действия
+   * @param {Fleet} current - Текущий флот (сохраняется для повтора)
+   * @returns {Fleet | null} Флот до действия или null, если отменять нечего
+   */
+  undo(current: Fleet): Fleet | null {
+    const previous = this.undoStack.pop();
+    if (!previous) {
+      return null;
+    }
+    this.redoStack.push(cloneFleet(current));
+    return previous;
+  }
+
+  /**
+   * Повтор отмененного действия
+   * @param {Fleet} current - Текущий флот (сохраняется для отмены)
+   * @returns {Fleet | null} Флот после действия или null, если повторять нечего
+   */
+  redo(current: Fleet): Fleet | null {
+    const next = this.redoStack.pop();
+    if (!next) {
+      return null;
+    }
+    this.undoStack.push(cloneFleet(current));
+    return next;
+  }
+
+  /**
+   * Очистка истории
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,177 @@
+import { Coordinate, Fleet, ShipContact, ShipType } from './battleship.model';
+import { BOARD_SIZE, SHIP_TYPES, generateRandomFleet } from './battleship.engine';
+
+/**
+ * Реестр стратегий автоматической расстановки кораблей
+ *
+ * Одни и те же стратегии используются кнопками автоматической расстановки
+ * на страницах расстановки, для флота компьютера в игре без сервера
+ * и как значение computerStrategy, которое уходит на сервер.
+ * Новые стратегии добавляются через registerPlacementStrategy без правки компонентов.
+ */
+
+/**
+ * Параметры расстановки
+ * @interface PlacementContext
+ * @property {number} boardSize - Размер поля
+ * @property {ShipType[]} shipTypes - Состав флота
+ * @property {ShipContact} contact - Допустимое касание кораблей
+ * @property {() => number} random - Источник случайных чисел в диапазоне [0, 1)
+ */
+export interface PlacementContext {
+  boardSize: number;
+  shipTypes: ShipType[];
+  contact: ShipContact;
+  random: () => number;
+}
+
+/**
+ * Стратегия расстановки
+ * @interface PlacementStrategy
+ * @property {string} id - Идентификатор (он же значение computerStrategy для сервера)
+ * @property {string} name - Отображаемое название
+ * @property {string} description - Краткое описание
+ * @property {(context: PlacementContext) => Fleet} generate - Полная расстановка флота
+ */
+export interface PlacementStrategy {
+  id: string;
+  name: string;
+  description: string;
+  generate: (context: PlacementContext) => Fleet;
+}
+
+/**
+ * Идентификатор стратегии из реестра
+ * @description Строка становится таким идентификатором только при регистрации стратегии
+ * или после проверки isPlacementStrategyId
+ */
+export type PlacementStrategyId = PlacementStrategy['id'] & { readonly __registeredStrategy: true };
+
+/**
+ * Зарегистрированная стратегия расстановки
+ */
+export type RegisteredPlacementStrategy = PlacementStrategy & { id: PlacementStrategyId };
+
+/**
+ * Стратегия, которая старается держать корабли в заданной зоне поля
+ * @param {(coord: Coordinate, boardSize: number) => boolean} [zone] - Предпочтительная зона (нет - все поле)
+ */
+export function createZoneStrategy(
+  id: string,
+  name: string,
+  description: string,
+  zone?: (coord: Coordinate, boardSize: number) => boolean
+): PlacementStrategy {
+  return {
+    id,
+    name,
+    description,
+    generate: ({ boardSize, shipTypes, contact, random }) => generateRandomFleet(
+      shipTypes,
+      boardSize,
+      random,
+      zone ? coord => zone(coord, boardSize) : undefined,
+      contact
+    )
+  };
+}
+
+/** Зарегистрированные стратегии в порядке добавления */
+const strategies = new Map<string, RegisteredPlacementStrategy>();
+
+/**
+ * Регистрация стратегии расстановки
+ * @throws {Error} Если стратегия с таким идентификатором уже есть
+ */
+export function registerPlacementStrategy(strategy: PlacementStrategy): void {
+  if (strategies.has(strategy.id)) {
+    throw new Error(`Стратегия расстановки "${strategy.id}" уже зарегистрирована`);
+  }
+  strategies.set(strategy.id, strategy as RegisteredPlacementStrategy);
+}
+
+/**
+ * Проверка, что значение является идентификатором зарегистрированной стратегии
+ */
+export function isPlacementStrategyId(value: unknown): value is PlacementStrategyId {
+  return typeof value === 'string' && strategies.has(value);
+}
+
+/**
+ * Все зарегистрированные стратегии
+ */
+export function getPlacementStrategies(): RegisteredPlacementStrategy[] {
+  return [...strategies.values()];
+}
+
+/**
+ * Поиск стратегии по идентификатору
+ */
+export function findPlacementStrategy(id: string): RegisteredPlacementStrategy | undefined {
+  return strategies.get(id);
+}
+
+/**
+ * Название стратегии по идентификатору
+ * @returns {string} Название или сам идентификатор для неизвестной стратегии
+ */
+export function getStrategyName(id: string): string {
+  return strategies.get(id)?.name ?? id;
+}
+
+/**
+ * Расстановка флота по стратегии
+ * @description Для неизвестной стратегии флот расставляется случайно по всему полю
+ * @param {string} id - Идентификатор стратегии
+ * @param {Partial<PlacementContext>} context - Параметры расстановки (по умолчанию классические)
+ * @returns {Fleet} Полностью расставленный флот
+ * @throws {Error} Если флот не помещается на поле
+ */
+export function generateStrategyFleet(id: string, context: Partial<PlacementContext> = {}): Fleet {
+  const fullContext: PlacementContext = {
+    boardSize: context.boardSize ?? BOARD_SIZE,
+    shipTypes: context.shipTypes ?? SHIP_TYPES,
+    contact: context.contact ?? 'none',
+    random: context.random ?? Math.random
+  };
+  const strategy = strategies.get(id);
+  return strategy
+    ? strategy.generate(fullContext)
+    : generateRandomFleet(fullContext.shipTypes, fullContext.boardSize, fullContext.random, undefined, fullContext.contact);
+}
+
+// ==================== ВСТРОЕННЫЕ СТРАТЕГИИ ====================
+
+registerPlacementStrategy(createZoneStrategy(
+  'coastal',
+  'У берегов',
+  'Корабли прижаты к краям поля',
+  ({ row, col }, size) => Math.min(row, col, size - 1 - row, size - 1 - col) <= 1
+));
+
+registerPlacementStrategy(createZoneStrategy(
+  'diagonal',
+  'Диагональ',
+  'Корабли вдоль диагоналей поля',
+  ({ row, col }, size) => Math.abs(row - col) <= 2 || Math.abs(row + col - (size - 1)) <= 2
+));
+
+registerPlacementStrategy(createZoneStrategy(
+  'half_left',
+  'Левая половина',
+  'Корабли в левой половине поля',
+  ({ col }, size) => col < size / 2
+));
+
+registerPlacementStrategy(createZoneStrategy(
+  'half_right',
+  'Правая половина',
+  'Корабли в правой половине поля',
+  ({ col }, size) => col >= size / 2
+));
+
+registerPlacementStrategy(createZoneStrategy(
+  'spread',
+  'Разброс',
+  'Хаотичное размещение без очевидных закономерностей'
+));
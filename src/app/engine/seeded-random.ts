@@ -0,0 +1,59 @@
+/**
+ * Воспроизводимые случайные числа
+ *
+ * Генератор mulberry32: по одному и тому же сиду всегда выдает
+ * одну и ту же последовательность, поэтому расстановку можно повторить,
+ * зная только сид.
+ */
+
+/** Максимальное значение сида (сид - 32-битное беззнаковое число) */
+export const MAX_SEED = 0xFFFFFFFF;
+
+/**
+ * Создание генератора случайных чисел по сиду
+ * @param {number} seed - Сид (целое число от 0 до MAX_SEED)
+ * @returns {() => number} Источник случайных чисел в диапазоне [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Новый случайный сид
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Разбор сида, введенного пользователем
+ * @param {string} text - Десятичное число от 0 до MAX_SEED
+ * @returns {number | null} Сид или null, если строка не является сидом
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^\d{1,10}$/.test(trimmed)) {
+    return null;
+  }
+  const seed = Number(trimmed);
+  return seed <= MAX_SEED ? seed : null;
+}
+
+/**
+ * Перемешивание массива на месте (Фишер - Йетс)
+ * @returns {T[]} Тот же массив
+ */
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
@@ -7,6 +7,17 @@ import {
   WebSocketService
 } from '../../services/webSocket.service';
 import { AuthService } from '../../services/auth.service';
+import {
+  DEFAULT_GAME_RULES,
+  FIRING_MODES,
+  describeTimeControl,
+  getShipContactName,
+  isValidTimeControl,
+  withFiringMode,
+  withShipContact,
+  withTimeControl
+} from '../../engine/game-rules';
+import { GameSessionService } from '../../services/game-session.service';
 
 @Component({
   selector: 'app-accept-game',
@@ -26,7 +37,8 @@ export class AcceptGameComponent implements OnInit, OnDestroy {
     private router: Router,
     private route: ActivatedRoute,
     private ws: WebSocketService,
-    private authService: AuthService
+    private authService: AuthService,
+    private gameSessionService: GameSessionService
   ) {}
 
   ngOnInit() {
@@ -50,6 +62,28 @@ export class AcceptGameComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Название режима стрельбы, выбранного пригласившим
+   */
+  get firingModeName(): string {
+    const mode = this.invitation?.firingMode ?? 'classic';
+    return FIRING_MODES.find(m => m.id === mode)?.name ?? mode;
+  }
+
+  /**
+   * Название правила касания кораблей, выбранного пригласившим
+   */
+  get shipContactName(): string {
+    return getShipContactName(this.invitation?.shipContact ?? 'none');
+  }
+
+  /**
+   * Описание контроля времени, выбранного пригласившим
+   */
+  get timeControlName(): string {
+    return describeTimeControl(this.invitation?.timeControl);
+  }
+
   startTimer() {
     this.timer = setInterval(() => {
       this.timeLeft--;
@@ -76,13 +110,23 @@ export class AcceptGameComponent implements OnInit, OnDestroy {
 
     this.ws.acceptInvitation(inviterId, opponentId);
 
-    // сам принимающий тоже идёт на расстановку
-    this.router.navigate(['/placement'], {
-      queryParams: {
-        opponentId: inviterId,
-        opponentNickname: this.invitation.inviterNickname
+    // Играем по правилам, выбранным пригласившим
+    const rules = withShipContact(
+      withFiringMode(DEFAULT_GAME_RULES, this.invitation.firingMode ?? 'classic'),
+      this.invitation.shipContact ?? 'none'
+    );
+    const timeControl = this.invitation.timeControl;
+    this.gameSessionService.setRules(withTimeControl(rules, isValidTimeControl(timeControl) ? timeControl : null));
+    this.gameSessionService.start('MULTIPLAYER', 'placing', {
+      opponent: {
+        playerId: inviterId,
+        nickname: this.invitation.inviterNickname,
+        avatarUrl: this.invitation.inviterAvatarUrl
       }
     });
+
+    // сам принимающий тоже идёт на расстановку
+    this.router.navigate(['/placement']);
   }
   getAvatarPath(avatarUrl: string | null): string {
     if (!avatarUrl) {
@@ -1,5 +1,22 @@
 import { Component } from '@angular/core';
 import { RouterModule, Router } from '@angular/router';
+import { FormsModule } from '@angular/forms';
+import { AI_DIFFICULTIES, AiDifficulty } from '../../engine/ai-opponent';
+import { ComputerStrategy, DEFAULT_COMPUTER_STRATEGY } from '../../services/models/computer.model';
+import { getPlacementStrategies } from '../../engine/placement-strategies';
+import {
+  FIRING_MODES,
+  GAME_RULES_PRESETS,
+  GameRulesPreset,
+  SHIP_CONTACT_RULES,
+  findGameRulesPreset,
+  getFiringMode,
+  getShipContact,
+  withFiringMode,
+  withShipContact
+} from '../../engine/game-rules';
+import { FiringMode, ShipContact } from '../../engine/battleship.model';
+import { GameSessionService } from '../../services/game-session.service';
 
 /**
  * Компонент страницы выбора сложности игры против ИИ
@@ -20,11 +37,26 @@ import { RouterModule, Router } from '@angular/router';
 @Component({
   selector: 'app-ai-game-page',
   standalone: true,
-  imports: [RouterModule],
+  imports: [RouterModule, FormsModule],
   templateUrl: './ai-game-page.component.html',
   styleUrl: './ai-game-page.component.scss'
 })
 export class AiGamePageComponent {
+  /** Доступные уровни сложности */
+  readonly difficulties = AI_DIFFICULTIES;
+
+  /** Доступные стратегии расстановки кораблей компьютера */
+  readonly strategies = getPlacementStrategies();
+
+  /** Доступные наборы правил (размер поля и состав флота) */
+  readonly rulesPresets = GAME_RULES_PRESETS;
+
+  /** Доступные режимы стрельбы */
+  readonly firingModes = FIRING_MODES;
+
+  /** Доступные правила касания кораблей */
+  readonly shipContactRules = SHIP_CONTACT_RULES;
+
   /**
    * Выбранный уровень сложности ИИ
    *
@@ -35,13 +67,65 @@ export class AiGamePageComponent {
    *
    * @default ''
    */
-  selectedDifficulty: string = '';
+  selectedDifficulty: AiDifficulty | '' = '';
+
+  /**
+   * Стратегия расстановки кораблей компьютера
+   *
+   * Передается на сервер при создании игры
+   * и используется при игре без сервера
+   *
+   * @default 'coastal'
+   */
+  selectedStrategy: ComputerStrategy = DEFAULT_COMPUTER_STRATEGY;
+
+  /**
+   * Выбранный набор правил
+   *
+   * По умолчанию - текущие правила партии (классические)
+   */
+  selectedRules: GameRulesPreset;
+
+  /**
+   * Выбранный режим стрельбы
+   *
+   * - 'classic' - один выстрел за ход
+   * - 'salvo' - залп по числу оставшихся кораблей
+   */
+  selectedFiringMode: FiringMode;
+
+  /**
+   * Выбранное правило касания кораблей
+   *
+   * - 'none' - корабли не касаются
+   * - 'corner' - касание углами
+   * - 'any' - любое касание
+   */
+  selectedShipContact: ShipContact;
+
+  /**
+   * Игра без сервера
+   *
+   * Компьютерный противник работает прямо в браузере,
+   * бэкенд не нужен ни для создания игры, ни для ходов
+   *
+   * @default false
+   */
+  offline: boolean = false;
 
   /**
    * Конструктор компонента
    * @param router - Сервис Angular Router для навигации между страницами
+   * @param gameSessionService - Сервис текущей партии
    */
-  constructor(private router: Router) {}
+  constructor(
+    private router: Router,
+    private gameSessionService: GameSessionService
+  ) {
+    this.selectedRules = findGameRulesPreset(this.gameSessionService.rules) ?? GAME_RULES_PRESETS[0];
+    this.selectedFiringMode = getFiringMode(this.gameSessionService.rules);
+    this.selectedShipContact = getShipContact(this.gameSessionService.rules);
+  }
 
   /**
    * Метод выбора уровня сложности ИИ
@@ -56,18 +140,50 @@ export class AiGamePageComponent {
    * - Обновляет свойство selectedDifficulty
    * - Активный выбор визуально выделяется в UI
    */
-  selectDifficulty(level: string) {
+  selectDifficulty(level: AiDifficulty) {
     this.selectedDifficulty = level;
   }
 
+  /**
+   * Выбор стратегии расстановки кораблей компьютера
+   * @param strategy - Идентификатор стратегии из реестра стратегий расстановки
+   */
+  selectStrategy(strategy: ComputerStrategy) {
+    this.selectedStrategy = strategy;
+  }
+
+  /**
+   * Выбор набора правил партии
+   * @param preset - Набор правил
+   */
+  selectRules(preset: GameRulesPreset) {
+    this.selectedRules = preset;
+  }
+
+  /**
+   * Выбор режима стрельбы
+   * @param mode - Режим ('classic', 'salvo')
+   */
+  selectFiringMode(mode: FiringMode) {
+    this.selectedFiringMode = mode;
+  }
+
+  /**
+   * Выбор правила касания кораблей
+   * @param contact - Правило ('none', 'corner', 'any')
+   */
+  selectShipContact(contact: ShipContact) {
+    this.selectedShipContact = contact;
+  }
+
   /**
    * Основной метод начала игры против ИИ
    *
    * Процесс запуска игры:
    * 1. Проверка что уровень сложности выбран
    * 2. Логирование выбранного уровня для отладки
-   * 3. Навигация на страницу расстановки кораблей
-   * 4. Передача выбранного уровня сложности через состояние
+   * 3. Сохранение правил и соперника в сессии текущей партии
+   * 4. Навигация на страницу расстановки кораблей
    *
    * Валидация:
    * - Проверка что selectedDifficulty не пустая строка
@@ -75,26 +191,26 @@ export class AiGamePageComponent {
    *
    * Навигация:
    * - Перенаправление на страницу расстановки
-   * - Передача параметра difficulty в состоянии навигации
+   * - Уровень сложности страница расстановки читает из сессии
    */
   startGame() {
     // Проверка что уровень сложности был выбран пользователем
     if (this.selectedDifficulty) {
       console.log('Начинаем игру с уровнем сложности:', this.selectedDifficulty);
 
-      /**
-       * Навигация на страницу расстановки кораблей
-       * с передачей выбранного уровня сложности
-       *
-       * Параметры навигации:
-       * - route: '/placement' - страница расстановки кораблей
-       * - state: { difficulty: string } - уровень сложности ИИ
-       */
-      this.router.navigate(['/ai-placement'], {
-        state: {
-          difficulty: this.selectedDifficulty
+      // Правила и соперника читают страницы расстановки и игры
+      const rules = withFiringMode(this.selectedRules.rules, this.selectedFiringMode);
+      this.gameSessionService.setRules(withShipContact(rules, this.selectedShipContact));
+      this.gameSessionService.start('SINGLE_PLAYER', 'placing', {
+        ai: {
+          difficulty: this.selectedDifficulty,
+          computerStrategy: this.selectedStrategy,
+          offline: this.offline
         }
       });
+
+      // Навигация на страницу расстановки кораблей
+      this.router.navigate(['/ai-placement']);
     }
   }
 }
@@ -8,6 +8,11 @@ import {
 } from '../../services/webSocket.service';
 import { AuthService } from '../../services/auth.service';
 import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { AI_DIFFICULTIES, isAiDifficulty } from '../../engine/ai-opponent';
+import { DEFAULT_COMPUTER_STRATEGY } from '../../services/models/computer.model';
+import { GameSessionService } from '../../services/game-session.service';
+import { ActiveGame, ActiveGameService } from '../../services/active-game.service';
 
 @Component({
   selector: 'app-lobby-page',
@@ -18,28 +23,35 @@ import { CommonModule } from '@angular/common';
 })
 export class LobbyPageComponent implements OnInit, OnDestroy {
   private subscriptionsInitialized = false;
+  private wsSubscriptions: Subscription[] = [];
   currentPlayer: any = null;
   gameMode: 'SINGLE_PLAYER' | 'MULTIPLAYER' | null = null;
   selectedDifficulty: string = 'captain';
 
   // Уровни сложности для одиночной игры
-  difficulties = [
-    { id: 'easy', name: 'Легкий', description: 'Для новичков' },
-    { id: 'medium', name: 'Средний', description: 'Для опытных игроков' },
-    { id: 'captain', name: 'Капитан', description: 'Для настоящих морских волков' }
-  ];
+  difficulties = AI_DIFFICULTIES;
+
+  // Незаконченные сетевые партии, в которые можно вернуться
+  activeGames: ActiveGame[] = [];
 
   constructor(
     private router: Router,
     private webSocketService: WebSocketService,
-    private authService: AuthService
+    private authService: AuthService,
+    private gameSessionService: GameSessionService,
+    private activeGameService: ActiveGameService
   ) {}
 
   ngOnInit() {
     this.loadCurrentPlayer();
+    // В лобби текущей партии нет: правила снова классические, остальное выбирается в приглашении
+    this.gameSessionService.reset();
+    this.loadActiveGames();
   }
 
   ngOnDestroy() {
+    this.unsubscribeFromWebSocket();
+
     // Отключаем WebSocket только если мы в режиме одиночной игры
     if (this.gameMode === 'SINGLE_PLAYER' && this.webSocketService.isConnected()) {
       this.webSocketService.disconnect();
@@ -51,6 +63,35 @@ export class LobbyPageComponent implements OnInit, OnDestroy {
     console.log('Текущий пользователь в лобби:', this.currentPlayer);
   }
 
+  /**
+   * Запрос незаконченных сетевых партий
+   * @description Лобби открывается сразу после входа и после перезагрузки,
+   * поэтому здесь игроку предлагается вернуться в начатую партию
+   */
+  private loadActiveGames() {
+    if (!this.currentPlayer?.player_id) return;
+
+    this.activeGameService.getActiveGames().subscribe({
+      next: (games) => this.activeGames = games,
+      error: (err) => console.warn('Не удалось получить незаконченные партии:', err)
+    });
+  }
+
+  /**
+   * Возврат в незаконченную партию
+   * @description Страница партии восстанавливает состояние по gameId и сессии
+   */
+  returnToGame(game: ActiveGame) {
+    this.router.navigate(['/two-players-field', game.gameId]);
+  }
+
+  /**
+   * Скрыть предложение вернуться в партию
+   */
+  dismissActiveGame(game: ActiveGame) {
+    this.activeGames = this.activeGames.filter(active => active.gameId !== game.gameId);
+  }
+
   /**
    * Выбор режима игры
    */
@@ -86,14 +127,13 @@ export class LobbyPageComponent implements OnInit, OnDestroy {
       this.webSocketService.disconnect();
     }
 
-    // Переходим на страницу расстановки с явным указанием режима
-    this.router.navigate(['/placement'], {
-      queryParams: {
-        gameType: 'SINGLE_PLAYER',
-        difficulty: difficulty,
-        playerId: this.currentPlayer.player_id
-      }
-    });
+    // Переходим на страницу расстановки; режим и сложность она берет из сессии
+    if (isAiDifficulty(difficulty)) {
+      this.gameSessionService.start('SINGLE_PLAYER', 'placing', {
+        ai: { difficulty, computerStrategy: DEFAULT_COMPUTER_STRATEGY, offline: false }
+      });
+    }
+    this.router.navigate(['/ai-placement']);
   }
 
 // В методе для мультиплеера:
@@ -105,29 +145,20 @@ export class LobbyPageComponent implements OnInit, OnDestroy {
     }
 
     console.log(`Начинаем мультиплеерную игру с оппонентом: ${opponentId}`);
+    this.gameSessionService.start('MULTIPLAYER', 'placing', {
+      opponent: { playerId: opponentId, nickname: '', avatarUrl: null }
+    });
 
     // Убеждаемся, что WebSocket подключен
     if (!this.webSocketService.isConnected()) {
       console.log('Подключаем WebSocket для мультиплеера...');
       this.connectToWebSocket().then(() => {
         // После подключения переходим на страницу расстановки
-        this.router.navigate(['/placement'], {
-          queryParams: {
-            gameType: 'MULTIPLAYER',
-            opponentId: opponentId,
-            playerId: playerId
-          }
-        });
+        this.router.navigate(['/placement']);
       });
     } else {
       // WebSocket уже подключен
-      this.router.navigate(['/placement'], {
-        queryParams: {
-          gameType: 'MULTIPLAYER',
-          opponentId: opponentId,
-          playerId: playerId
-        }
-      });
+      this.router.navigate(['/placement']);
     }
   }
 
@@ -170,7 +201,7 @@ export class LobbyPageComponent implements OnInit, OnDestroy {
     this.subscriptionsInitialized = true;
 
     // Приглашения
-    this.webSocketService.subscribeToInvitations((inv: GameInvitationResponse) => {
+    const invitationSub = this.webSocketService.observeInvitations().subscribe((inv: GameInvitationResponse) => {
       console.log('Пришло приглашение в лобби:', inv);
 
       // Переходим на страницу принятия приглашения
@@ -180,21 +211,22 @@ export class LobbyPageComponent implements OnInit, OnDestroy {
     });
 
     // Старт игры (когда оба игрока готовы)
-    this.webSocketService.subscribeToGameStart((game: GameStartNotification) => {
+    const startSub = this.webSocketService.observeGameStart().subscribe((game: GameStartNotification) => {
       console.log('Игра начинается (лобби):', game);
 
       // Переходим на страницу расстановки для мультиплеера
-      this.router.navigate(['/placement'], {
-        queryParams: {
-          opponentId: game.opponentId,
-          opponentNickname: game.opponentNickname,
-          gameType: 'MULTIPLAYER'
+      this.gameSessionService.start('MULTIPLAYER', 'placing', {
+        opponent: {
+          playerId: game.opponentId,
+          nickname: game.opponentNickname,
+          avatarUrl: game.opponentAvatarUrl
         }
       });
+      this.router.navigate(['/placement']);
     });
 
     // Отклонение приглашения
-    this.webSocketService.subscribeToRejection((game: GameStartNotification) => {
+    const rejectionSub = this.webSocketService.observeRejections().subscribe((game: GameStartNotification) => {
       console.log('Приглашение отклонено (лобби):', game);
 
       // Возвращаемся в лобби с флагом отклонения
@@ -202,6 +234,14 @@ export class LobbyPageComponent implements OnInit, OnDestroy {
         queryParams: { inviteRejected: 'true' }
       });
     });
+
+    this.wsSubscriptions.push(invitationSub, startSub, rejectionSub);
+  }
+
+  private unsubscribeFromWebSocket() {
+    this.wsSubscriptions.forEach(sub => sub.unsubscribe());
+    this.wsSubscriptions = [];
+    this.subscriptionsInitialized = false;
   }
 
   /**
@@ -233,17 +273,13 @@ export class LobbyPageComponent implements OnInit, OnDestroy {
    */
   private startTestMultiplayerGame() {
     const testOpponentId = 5; // Тестовый ID соперника
-    const playerId = this.currentPlayer ? Number(this.currentPlayer.player_id) : 0;
 
     console.log('Начинаем тестовую мультиплеерную игру с соперником:', testOpponentId);
 
-    this.router.navigate(['/placement'], {
-      queryParams: {
-        opponentId: testOpponentId,
-        playerId: playerId,
-        gameType: 'MULTIPLAYER'
-      }
+    this.gameSessionService.start('MULTIPLAYER', 'placing', {
+      opponent: { playerId: testOpponentId, nickname: '', avatarUrl: null }
     });
+    this.router.navigate(['/placement']);
   }
 
   /**
@@ -265,7 +301,7 @@ export class LobbyPageComponent implements OnInit, OnDestroy {
       this.webSocketService.disconnect();
     }
 
-    this.subscriptionsInitialized = false;
+    this.unsubscribeFromWebSocket();
   }
 
   /**
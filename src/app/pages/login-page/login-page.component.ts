@@ -2,6 +2,7 @@ import { Component } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { RouterModule, Router } from '@angular/router';
 import { AuthService } from '../../services/auth.service';
+import { LayoutService } from '../../services/layout.service';
 
 /**
  * Компонент страницы авторизации пользователя
@@ -11,6 +12,7 @@ import { AuthService } from '../../services/auth.service';
  * - Валидация введенных данных
  * - Обработка ошибок авторизации
  * - Перенаправление в лобби после успешного входа
+ * - Перенос расстановок из localStorage на сервер при первом входе
  *
  * @component
  * @selector app-login-page
@@ -57,6 +59,7 @@ export class LoginPageComponent {
 
   constructor(
     private authService: AuthService,
+    private layoutService: LayoutService,
     private router: Router
   ) {}
 
@@ -136,6 +139,16 @@ export class LoginPageComponent {
         console.log('Успешная авторизация:', response);
         this.loginError = false;
 
+        // Расстановки, сохраненные в браузере до появления серверного хранения
+        this.layoutService.migrateLocalLayouts(response.id).subscribe({
+          next: (count) => {
+            if (count > 0) {
+              console.log(`Перенесено расстановок на сервер: ${count}`);
+            }
+          },
+          error: (err) => console.warn('Не удалось перенести расстановки на сервер:', err)
+        });
+
         // Сброс формы
         this.username = '';
         this.password = '';
@@ -1,6 +1,7 @@
 import { Component, OnInit } from '@angular/core';
 import { Router, RouterModule } from '@angular/router';
 import { CommonModule } from '@angular/common';
+import { GameRecordService } from '../../services/game-record.service';
 
 /**
  * Компонент страницы проигрыша
@@ -25,12 +26,20 @@ import { CommonModule } from '@angular/common';
   styleUrl: './lose-page.component.scss'
 })
 export class LosePageComponent implements OnInit {
+  /** Идентификатор записи только что закончившейся партии (null - записи нет) */
+  replayGameId: string | null = this.gameRecordService.getLatestRecord()?.gameId ?? null;
+
+  /** Партия закончилась по времени (причина передается игровой страницей через history.state) */
+  endedOnTime: boolean = history.state?.reason === 'TIMEOUT';
 
   /**
    * Конструктор компонента
    * @param router - Сервис маршрутизации для навигации между страницами
    */
-  constructor(private router: Router) {}
+  constructor(
+    private router: Router,
+    private gameRecordService: GameRecordService
+  ) {}
 
   /**
    * Метод инициализации компонента
@@ -59,6 +68,15 @@ export class LosePageComponent implements OnInit {
     this.router.navigate(['/lobby']);
   }
 
+  /**
+   * Переход к повтору только что закончившейся партии
+   */
+  watchReplay() {
+    if (this.replayGameId) {
+      this.router.navigate(['/replay', this.replayGameId]);
+    }
+  }
+
   /**
    * Запуск анимации проигрыша
    * 
@@ -7,6 +7,18 @@ import { PlayerService, Player } from '../../services/player.service';
 import { AuthService } from '../../services/auth.service';
 import { environment } from '../../../environments/environment';
 import {GameInvitationRequest, WebSocketService} from "../../services/webSocket.service";
+import { FiringMode, ShipContact, TimeControl, TurnExpiryAction } from '../../engine/battleship.model';
+import {
+  DEFAULT_GAME_RULES,
+  FIRING_MODES,
+  SHIP_CONTACT_RULES,
+  TIME_CONTROL_PRESETS,
+  TURN_EXPIRY_ACTIONS,
+  withFiringMode,
+  withShipContact,
+  withTimeControl
+} from '../../engine/game-rules';
+import { GameSessionService } from '../../services/game-session.service';
 
 /**
  * Компонент страницы мультиплеера для выбора противника
@@ -55,12 +67,37 @@ export class MultiplayerPageComponent implements OnInit, OnDestroy {
   /** ID выбранного игрока для игры */
   selectedPlayerId: number | null = null;
 
+  /** Доступные режимы стрельбы */
+  firingModes = FIRING_MODES;
+
+  /** Режим стрельбы для приглашения */
+  selectedFiringMode: FiringMode = 'classic';
+
+  /** Доступные правила касания кораблей */
+  shipContactRules = SHIP_CONTACT_RULES;
+
+  /** Правило касания кораблей для приглашения */
+  selectedShipContact: ShipContact = 'none';
+
+  /** Доступные варианты контроля времени */
+  timeControlPresets = TIME_CONTROL_PRESETS;
+
+  /** Вариант контроля времени для приглашения */
+  selectedTimeControlId = TIME_CONTROL_PRESETS[0].id;
+
+  /** Доступные действия при истечении времени на ход */
+  turnExpiryActions = TURN_EXPIRY_ACTIONS;
+
+  /** Действие при истечении времени на ход */
+  selectedTurnExpiry: TurnExpiryAction = 'random-shot';
+
   constructor(
     private router: Router,
     private playerService: PlayerService,
     private authService: AuthService,
     private http: HttpClient,
-    private webSocketService: WebSocketService
+    private webSocketService: WebSocketService,
+    private gameSessionService: GameSessionService
   ) {}
 
   /**
@@ -189,6 +226,60 @@ export class MultiplayerPageComponent implements OnInit, OnDestroy {
     console.log('Выбран игрок с ID:', playerId);
   }
 
+  /**
+   * Выбор режима стрельбы для партии
+   * @param mode - Режим стрельбы
+   */
+  selectFiringMode(mode: FiringMode) {
+    this.selectedFiringMode = mode;
+  }
+
+  /**
+   * Выбор правила касания кораблей для партии
+   * @param contact - Правило касания
+   */
+  selectShipContact(contact: ShipContact) {
+    this.selectedShipContact = contact;
+  }
+
+  /**
+   * Выбор контроля времени для партии
+   * @param presetId - Идентификатор варианта из TIME_CONTROL_PRESETS
+   */
+  selectTimeControl(presetId: string) {
+    this.selectedTimeControlId = presetId;
+  }
+
+  /**
+   * Выбор действия при истечении времени на ход
+   * @param action - Действие
+   */
+  selectTurnExpiry(action: TurnExpiryAction) {
+    this.selectedTurnExpiry = action;
+  }
+
+  /**
+   * Выбран ли лимит времени на ход (от него зависит выбор действия при истечении)
+   */
+  get hasTurnLimit(): boolean {
+    return this.selectedTimeControl?.turnSeconds != null;
+  }
+
+  /**
+   * Контроль времени для приглашения (null - без ограничений)
+   */
+  get selectedTimeControl(): TimeControl | null {
+    const preset = this.timeControlPresets.find(p => p.id === this.selectedTimeControlId);
+    if (!preset || (preset.turnSeconds === null && preset.totalSeconds === null)) {
+      return null;
+    }
+    return {
+      turnSeconds: preset.turnSeconds,
+      totalSeconds: preset.totalSeconds,
+      onTurnExpired: this.selectedTurnExpiry
+    };
+  }
+
   /**
    * Отправка приглашения выбранному игроку
    * Переход на страницу ожидания ответа
@@ -221,15 +312,27 @@ export class MultiplayerPageComponent implements OnInit, OnDestroy {
       inviterId: currentId,  // ← используем вычисленный ID
       opponentId: Number(selectedPlayer.playerId),
       inviterNickname: this.currentPlayer.nickname,
-      inviterAvatarUrl: this.currentPlayer.avatarUrl || null
+      inviterAvatarUrl: this.currentPlayer.avatarUrl || null,
+      firingMode: this.selectedFiringMode,
+      shipContact: this.selectedShipContact,
+      timeControl: this.selectedTimeControl ?? undefined
     };
 
+    // Сетевая партия играется на классическом поле с выбранными режимом стрельбы, касанием и часами
+    const rules = withShipContact(withFiringMode(DEFAULT_GAME_RULES, this.selectedFiringMode), this.selectedShipContact);
+    this.gameSessionService.setRules(withTimeControl(rules, this.selectedTimeControl));
+    this.gameSessionService.start('MULTIPLAYER', 'inviting', {
+      opponent: {
+        playerId: Number(selectedPlayer.playerId),
+        nickname: selectedPlayer.nickname,
+        avatarUrl: selectedPlayer.avatarUrl
+      }
+    });
+
     console.log('Отправка приглашения через WebSocket:', invitationPayload);
     this.webSocketService.sendInvitation(invitationPayload);
 
-    this.router.navigate(['/waiting'], {
-      queryParams: { opponent: selectedPlayer.nickname }
-    });
+    this.router.navigate(['/waiting']);
   }
 
 
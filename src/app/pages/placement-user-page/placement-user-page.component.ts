@@ -1,113 +1,59 @@
-import { Component } from '@angular/core';
+import { Component, ElementRef, HostListener, OnDestroy, ViewChild } from '@angular/core';
 import { DatePipe } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
 import { AuthService } from '../../services/auth.service';
-import { WebSocketService, GameStartNotification } from '../../services/webSocket.service';
+import { WebSocketService, GameStartNotification, GameReadyMessage, BoardLayoutDTO } from '../../services/webSocket.service';
 import { ActivatedRoute } from '@angular/router';
 import { CommonModule } from '@angular/common';
-
-/**
- * Интерфейс для представления корабля на игровом поле
- * @interface Ship
- * @property {string} type - Тип корабля (battleship, cruiser, destroyer, boat)
- * @property {number} size - Размер корабля в клетках
- * @property {Array<{row: string, col: number}>} positions - Позиции корабля на поле
- * @property {boolean} placed - Флаг размещения корабля
- * @property {number} id - Уникальный идентификатор корабля
- */
-interface Ship {
-  type: string;
-  size: number;
-  positions: { row: string; col: number }[];
-  placed: boolean;
-  id: number;
-}
+import { GameRules, Ship, ShipPlacement } from '../../engine/battleship.model';
+import {
+  fleetFromShipPlacements,
+  fleetToBoardLayout,
+  fleetToShipPlacements,
+  generateSeededFleet,
+  getColumnLabels,
+  getRowLabels,
+  isFleetPlaced,
+  isValidFleet
+} from '../../engine/battleship.engine';
+import { DEFAULT_GAME_RULES, getShipContact, getShipContactName, isSameRules } from '../../engine/game-rules';
+import { encodeShareCode, fleetToAsciiGrid, parseLayoutText } from '../../engine/layout-codec';
+import { generateStrategyFleet, getPlacementStrategies, getStrategyName } from '../../engine/placement-strategies';
+import { PlacementEditor } from '../../engine/placement-editor';
+import { MAX_SEED, parseSeed } from '../../engine/seeded-random';
+import { GameSessionService } from '../../services/game-session.service';
+import { ConnectionBannerComponent } from '../../components/connection-banner/connection-banner.component';
+import { LayoutService, SavedLayout } from '../../services/layout.service';
+import { Subscription, catchError, of, switchMap } from 'rxjs';
 
 /**
  * Интерфейс для сохранения пользовательской расстановки кораблей
  * @interface UserPlacement
- * @property {number} id - Уникальный идентификатор расстановки
+ * @property {number} id - Идентификатор расстановки на сервере
  * @property {string} name - Название расстановки
  * @property {Date} date - Дата создания расстановки
  * @property {Ship[]} ships - Массив кораблей в расстановке
+ * @property {GameRules} [rules] - Правила, для которых сделана расстановка (нет - классические)
  */
 interface UserPlacement {
   id: number;
   name: string;
   date: Date;
   ships: Ship[];
+  rules?: GameRules;
 }
 
-/**
- * Интерфейс для передачи данных о расстановке на сервер
- * @interface ShipPlacement
- * @property {number} shipId - Идентификатор корабля
- * @property {number} size - Размер корабля
- * @property {number} row - Строка начальной позиции (0-9)
- * @property {number} col - Столбец начальной позиции (0-9)
- * @property {boolean} vertical - Ориентация корабля (true - вертикальная, false - горизонтальная)
- */
-interface ShipPlacement {
-  shipId: number;
-  size: number;
-  row: number;
-  col: number;
-  vertical: boolean;
-}
-
-/**
- * Интерфейс для сообщения о готовности к игре
- * @interface GameReadyMessage
- * @property {number} playerId - Идентификатор текущего игрока
- * @property {number} opponentId - Идентификатор оппонента
- * @property {BoardLayoutDTO} boardLayout - Расстановка кораблей в формате DTO
- * @property {string} gameType - Тип игры (MULTIPLAYER)
- */
-interface GameReadyMessage {
-  playerId: number;
-  opponentId: number;
-  boardLayout: BoardLayoutDTO;
-  gameType: string;
-}
-
-/**
- * Интерфейс для передачи расстановки на сервер
- * @interface BoardLayoutDTO
- * @property {ShipPlacement[]} ships - Массив размещенных кораблей
- * @property {string[][]} matrix - Матрица поля 10x10 с отметками кораблей
- */
-interface BoardLayoutDTO {
-  ships: ShipPlacement[];
-  matrix: string[][];
-}
-
-/**
- * Конфигурация типов кораблей и их количества
- * @constant SHIP_TYPES
- * @type {Array<{type: string, size: number, count: number}>}
- */
-const SHIP_TYPES = [
-  { type: 'battleship', size: 4, count: 1 },
-  { type: 'cruiser', size: 3, count: 2 },
-  { type: 'destroyer', size: 2, count: 3 },
-  { type: 'boat', size: 1, count: 4 }
-];
-
-/**
- * Размер игрового поля (10x10)
- * @constant BOARD_SIZE
- * @type {number}
- */
-const BOARD_SIZE = 10;
-
 /**
  * Компонент для расстановки кораблей перед началом игры в морской бой
  * 
  * Основные функции:
- * - Drag & Drop расстановка кораблей
- * - Сохранение/загрузка пользовательских расстановок
+ * - Drag & Drop расстановка кораблей мышью, касанием и пером, размещение касанием
+ * - Выбор, перенос, поворот и снятие расставленных кораблей с отменой и повтором
+ * - Полное управление с клавиатуры (курсор по полю, Enter, R, Delete)
+ * - Сохранение/загрузка пользовательских расстановок на сервере
  * - Автоматическая расстановка по различным стратегиям
+ * - Экспорт и импорт расстановки в виде ASCII-сетки и кода
  * - Валидация правильности расстановки
  * - Отправка данных о готовности к игре через WebSocket
  * 
@@ -117,35 +63,65 @@ const BOARD_SIZE = 10;
 @Component({
   selector: 'app-placement-user-page',
   standalone: true,
-  imports: [DatePipe, FormsModule, CommonModule],
+  imports: [DatePipe, FormsModule, CommonModule, ConnectionBannerComponent],
   templateUrl: './placement-user-page.component.html',
   styleUrl: './placement-user-page.component.scss'
 })
-export class PlacementUserPageComponent {
-  /** Буквенные обозначения строк игрового поля (А-К без Й) */
-  rows = ['А', 'Б', 'В', 'Г', 'Д', 'Е', 'Ж', 'З', 'И', 'К'];
+export class PlacementUserPageComponent implements OnDestroy {
+  /** Правила партии: размер поля и состав флота */
+  rules: GameRules = this.gameSessionService.rules;
+
+  /** Буквенные обозначения строк игрового поля (для классики А-К без Й) */
+  rows = getRowLabels(this.rules.boardSize);
 
-  /** Числовые обозначения столбцов игрового поля (1-10) */
-  columns = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+  /** Числовые обозначения столбцов игрового поля (для классики 1-10) */
+  columns = getColumnLabels(this.rules.boardSize);
 
-  /** Текущая ориентация корабля (true - горизонтальная, false - вертикальная) */
-  isHorizontal = true;
+  /** Допустимое касание кораблей */
+  shipContact = getShipContact(this.rules);
 
-  /** Перетаскиваемый корабль */
-  draggedShip: any = null;
+  /** Название правила касания для подсказки над полем */
+  shipContactName = getShipContactName(this.shipContact);
 
-  /** Ячейка над которой находится курсор при перетаскивании */
-  hoveredCell: { row: string, col: number } | null = null;
+  /** Редактор расстановки: корабли, выбор, перетаскивание, отмена и клавиатура */
+  editor = new PlacementEditor(this.rules);
 
-  /** Потенциальные позиции для размещения корабля при перетаскивании */
-  potentialPositions: { row: string, col: number }[] = [];
+  /** Игровое поле (для перевода фокуса на клетку под курсором) */
+  @ViewChild('board') board?: ElementRef<HTMLElement>;
 
   /** Флаг отображения попапа загрузки расстановки */
   showLoadPopup = false;
+
+  /** Стратегии автоматической расстановки для попапа загрузки */
+  strategies = getPlacementStrategies();
+
+  /** Сид случайной расстановки (можно ввести, чтобы повторить расстановку) */
+  seedInput = '';
   
   /** Флаг отображения попапа сохранения расстановки */
   showSavePopup = false;
   
+  /** Флаг отображения попапа экспорта расстановки */
+  showExportPopup = false;
+
+  /** Название экспортируемой расстановки */
+  exportName = '';
+
+  /** Экспортируемая расстановка в виде ASCII-сетки */
+  exportGrid = '';
+
+  /** Код экспортируемой расстановки */
+  exportCode = '';
+
+  /** Флаг отображения попапа импорта расстановки */
+  showImportPopup = false;
+
+  /** Вставленная сетка или код для импорта */
+  importText = '';
+
+  /** Ошибка разбора импортируемой расстановки */
+  importError = '';
+  
   /** Флаг отображения подтверждения очистки поля */
   showClearConfirmation = false;
   
@@ -167,29 +143,22 @@ export class PlacementUserPageComponent {
   /** Список сохраненных пользовательских расстановок */
   userPlacements: UserPlacement[] = [];
 
-  /**
-   * Список кораблей для расстановки
-   * @type {Ship[]}
-   * @description 10 кораблей: 1 линкор (4 клетки), 2 крейсера (3 клетки), 
-   * 3 эсминца (2 клетки), 4 катера (1 клетка)
-   */
-  ships: Ship[] = [
-    { id: 1, type: 'battleship', size: 4, positions: [], placed: false },
-    { id: 2, type: 'cruiser', size: 3, positions: [], placed: false },
-    { id: 3, type: 'cruiser', size: 3, positions: [], placed: false },
-    { id: 4, type: 'destroyer', size: 2, positions: [], placed: false },
-    { id: 5, type: 'destroyer', size: 2, positions: [], placed: false },
-    { id: 6, type: 'destroyer', size: 2, positions: [], placed: false },
-    { id: 7, type: 'boat', size: 1, positions: [], placed: false },
-    { id: 8, type: 'boat', size: 1, positions: [], placed: false },
-    { id: 9, type: 'boat', size: 1, positions: [], placed: false },
-    { id: 10, type: 'boat', size: 1, positions: [], placed: false }
-  ];
+  /** Флаг загрузки сохраненных расстановок с сервера */
+  isLoadingPlacements = false;
+
+  /** Переименовываемая расстановка */
+  renamingPlacement: UserPlacement | null = null;
+
+  /** Новое название переименовываемой расстановки */
+  renameText = '';
+
+  /** Расстановка, ожидающая подтверждения удаления */
+  placementToDelete: UserPlacement | null = null;
 
   /** Флаг готовности игрока к началу игры */
   isPlayerReady = false;
   
-  /** Идентификатор оппонента (получается из query параметров) */
+  /** Идентификатор оппонента (из сессии текущей партии) */
   opponentId: number | null = null;
   
   /** Идентификатор игры (устанавливается при получении уведомления о начале игры) */
@@ -198,6 +167,9 @@ export class PlacementUserPageComponent {
   /** Текущий авторизованный пользователь */
   currentPlayer: any = null;
 
+  /** Подписка на начало партии (снимается при уходе со страницы) */
+  private gameStartSubscription: Subscription | null = null;
+
   /**
    * Геттер для получения ID текущего пользователя
    * Используется для привязки сохраненных расстановок к пользователю
@@ -217,33 +189,48 @@ export class PlacementUserPageComponent {
    * @param {Router} router - Сервис маршрутизации
    * @param {WebSocketService} webSocketService - Сервис WebSocket для многопользовательской игры
    * @param {ActivatedRoute} route - Сервис для работы с параметрами маршрута
+   * @param {GameSessionService} gameSessionService - Сервис текущей партии (соперник и правила)
+   * @param {LayoutService} layoutService - Сервис сохраненных расстановок
    */
   constructor(
     private authService: AuthService,
     private router: Router,
     private webSocketService: WebSocketService,
-    private route: ActivatedRoute
+    private route: ActivatedRoute,
+    private gameSessionService: GameSessionService,
+    private layoutService: LayoutService
   ) {}
 
   /**
    * Инициализация компонента
    * - Загружает данные текущего пользователя
-   * - Получает opponentId из query параметров
+   * - Получает соперника из сессии текущей партии
    * - Подписывается на события начала игры через WebSocket
    */
   ngOnInit() {
     this.loadCurrentPlayer();
-    
+
+    this.opponentId = this.gameSessionService.session.opponent?.playerId ?? null;
+    if (this.opponentId) {
+      console.log('Получен ID оппонента:', this.opponentId);
+    } else {
+      console.warn('Соперник не найден в сессии партии');
+    }
+
     this.route.queryParams.subscribe(params => {
-      if (params['opponentId']) {
-        this.opponentId = +params['opponentId'];
-        console.log('Получен ID оппонента:', this.opponentId);
-      } else {
-        console.warn('Параметр opponentId не найден в URL');
+      if (params['layout']) {
+        this.importLayout(params['layout']);
       }
     });
 
-    this.webSocketService.subscribeToGameStartDirect((notification) => {
+    // После перезагрузки сессии WebSocket нет; пока нет соединения, о нем сообщает баннер
+    const playerId = Number(this.currentPlayer?.player_id);
+    if (playerId && !this.webSocketService.getCurrentPlayerId()) {
+      this.webSocketService.connect(playerId)
+        .catch(err => console.error('Не удалось подключиться к WS на расстановке:', err));
+    }
+
+    this.gameStartSubscription = this.webSocketService.observeGameStart().subscribe((notification) => {
       if (notification.gameId) {
         console.log('Игра началась! ID:', notification.gameId);
         this.gameId = notification.gameId;
@@ -252,6 +239,10 @@ export class PlacementUserPageComponent {
     });
   }
 
+  ngOnDestroy() {
+    this.gameStartSubscription?.unsubscribe();
+  }
+
   /**
    * Переход на страницу игры после получения уведомления о начале
    * @private
@@ -265,17 +256,11 @@ export class PlacementUserPageComponent {
       return;
     }
 
-    const queryParams = {
-      gameId: notification.gameId,
-      playerId: playerId,
-      opponentId: notification.opponentId
-    };
-
-    console.log('Переход на страницу игры с параметрами:', queryParams);
+    this.gameSessionService.update({ phase: 'playing', gameId: notification.gameId });
 
-    this.router.navigate(['/two-players-field', notification.gameId], {
-      queryParams: queryParams
-    });
+    // Страница партии восстанавливает все остальное по gameId и сессии
+    console.log('Переход на страницу игры:', notification.gameId);
+    this.router.navigate(['/two-players-field', notification.gameId]);
   }
 
   /**
@@ -299,10 +284,6 @@ export class PlacementUserPageComponent {
       return;
     }
 
-    if (this.currentPlayer.player_id) {
-      this.savePlayerIdForNextPage(this.currentPlayer.player_id);
-    }
-
     this.loadUserPlacements();
   }
 
@@ -311,7 +292,7 @@ export class PlacementUserPageComponent {
    * @description Показывает попап подтверждения только если на поле есть хотя бы один корабль
    */
   requestClearBoard() {
-    if (!this.hasAtLeastOneShip()) {
+    if (!this.editor.hasAtLeastOneShip()) {
       return;
     }
     this.showClearConfirmation = true;
@@ -322,7 +303,7 @@ export class PlacementUserPageComponent {
    * @description Очищает поле и закрывает попап подтверждения
    */
   confirmClear() {
-    this.clearBoard();
+    this.editor.clear();
     this.showClearConfirmation = false;
     this.showMessage('Поле очищено', 'Все корабли удалены с игрового поля');
   }
@@ -336,40 +317,47 @@ export class PlacementUserPageComponent {
   }
 
   /**
-   * Переключение ориентации корабля (горизонтальная/вертикальная)
-   * @description Изменяет ориентацию для размещения новых кораблей
+   * Генерация случайной расстановки всех кораблей
+   * @description Расстановка получается по новому сиду, который подставляется в поле ввода,
+   * поэтому ее можно повторить
    */
-  toggleOrientation() {
-    this.isHorizontal = !this.isHorizontal;
+  generateRandom() {
+    if (this.applySeededLayout()) {
+      this.showMessage('Случайная расстановка', `Корабли расставлены случайным образом. Сид: ${this.seedInput}`);
+    }
   }
 
   /**
-   * Полная очистка игрового поля
-   * @description Сбрасывает все корабли в исходное состояние (не размещены)
+   * Повтор расстановки по введенному сиду
    */
-  clearBoard() {
-    this.ships.forEach(ship => {
-      ship.positions = [];
-      ship.placed = false;
-    });
+  generateFromSeed() {
+    const seed = parseSeed(this.seedInput);
+    if (seed === null) {
+      this.showMessage('Неверный сид', `Сид - целое число от 0 до ${MAX_SEED}`);
+      return;
+    }
+    if (this.applySeededLayout(seed)) {
+      this.showMessage('Расстановка по сиду', `Корабли расставлены по сиду ${seed}`);
+    }
   }
 
   /**
-   * Генерация случайной расстановки всех кораблей
-   * @description Автоматически размещает все корабли согласно правилам игры
+   * Расстановка флота по сиду
+   * @private
+   * @param {number} [seed] - Сид (нет - новый случайный)
+   * @returns {boolean} true если флот расставлен
    */
-  generateRandom() {
-    this.clearBoard();
-
-    const shipTypes = [...SHIP_TYPES];
-
-    for (const shipType of shipTypes) {
-      for (let i = 0; i < shipType.count; i++) {
-        this.placeShipRandomly(shipType.size, shipType.type);
-      }
+  private applySeededLayout(seed?: number): boolean {
+    try {
+      const layout = generateSeededFleet(seed, this.rules.shipTypes, this.rules.boardSize, this.shipContact);
+      this.editor.setFleet(layout.fleet);
+      this.seedInput = String(layout.seed);
+      return true;
+    } catch (error) {
+      console.error('Не удалось сгенерировать расстановку:', error);
+      this.showMessage('Ошибка', 'Не удалось расставить корабли на поле');
+      return false;
     }
-
-    this.showMessage('Случайная расстановка', 'Корабли расставлены случайным образом');
   }
 
   /**
@@ -378,27 +366,7 @@ export class PlacementUserPageComponent {
    * @returns {BoardLayoutDTO} Объект с данными расстановки в формате сервера
    */
   private convertToBoardLayoutDTO(): BoardLayoutDTO {
-    const matrix: string[][] = Array(10).fill(null).map(() => Array(10).fill(' '));
-
-    this.ships.forEach(ship => {
-      if (ship.placed) {
-        ship.positions.forEach(pos => {
-          const rowIndex = this.rows.indexOf(pos.row);
-          const colIndex = pos.col - 1;
-
-          if (rowIndex >= 0 && rowIndex < 10 && colIndex >= 0 && colIndex < 10) {
-            matrix[rowIndex][colIndex] = 'S';
-          }
-        });
-      }
-    });
-
-    const ships = this.convertToServerFormat();
-
-    return {
-      ships: ships,
-      matrix: matrix
-    };
+    return fleetToBoardLayout(this.editor.ships, this.rules.boardSize);
   }
 
   /**
@@ -406,9 +374,9 @@ export class PlacementUserPageComponent {
    * @description Проверяет, что все корабли размещены, и переходит на страницу игры
    */
   startGame() {
-    if (this.isAllShipsPlaced()) {
+    if (this.editor.isAllShipsPlaced()) {
       console.log('Начало игры');
-      const serverFormat = this.convertToServerFormat();
+      const serverFormat = fleetToShipPlacements(this.editor.ships);
       console.log('Данные для сервера:', serverFormat);
       this.router.navigate(['/two-players-field']);
     } else {
@@ -419,28 +387,13 @@ export class PlacementUserPageComponent {
     }
   }
 
-  /**
-   * Обработчик начала перетаскивания корабля
-   * @param {DragEvent} event - Событие перетаскивания
-   */
-  onDragStart(event: DragEvent) {
-    const target = event.target as HTMLElement;
-    if (target.classList.contains('draggable')) {
-      this.draggedShip = {
-        size: parseInt(target.getAttribute('data-size') || '1'),
-        type: target.getAttribute('data-type') || 'boat'
-      };
-      event.dataTransfer?.setData('text/plain', 'ship');
-    }
-  }
-
   /**
    * Подготовка игрока к игре
    * @description Отправляет сообщение о готовности через WebSocket
    * Проверяет наличие всех необходимых данных перед отправкой
    */
   playerReady() {
-    if (!this.isAllShipsPlaced()) {
+    if (!this.editor.isAllShipsPlaced()) {
       this.showMessage('Не все корабли размещены', 'Разместите все корабли перед началом игры!');
       return;
     }
@@ -473,19 +426,19 @@ export class PlacementUserPageComponent {
       return;
     }
 
-    this.savePlayerIdForNextPage(playerId);
-
     const boardLayout = this.convertToBoardLayoutDTO();
 
     const readyMessage: GameReadyMessage = {
       playerId: playerId,
       opponentId: this.opponentId,
       boardLayout: boardLayout,
-      gameType: 'MULTIPLAYER'
+      gameType: 'MULTIPLAYER',
+      rules: this.rules
     };
 
     console.log('Отправка сообщения о готовности:', readyMessage);
     this.webSocketService.sendPlayerReady(readyMessage);
+    this.gameSessionService.update({ layout: boardLayout });
     this.isPlayerReady = true;
     this.showMessage(
       'Готовность подтверждена', 
@@ -493,17 +446,6 @@ export class PlacementUserPageComponent {
     );
   }
 
-  /**
-   * Сохранение ID игрока для использования на следующей странице
-   * @private
-   * @param {number} playerId - Идентификатор игрока
-   */
-  private savePlayerIdForNextPage(playerId: number): void {
-    sessionStorage.setItem('currentPlayerId', playerId.toString());
-    localStorage.setItem('playerId', playerId.toString());
-    console.log('Player ID сохранен для следующей страницы:', playerId);
-  }
-
   /**
    * Отмена готовности к игре
    * @description Показывает попап подтверждения отмены готовности
@@ -518,6 +460,7 @@ export class PlacementUserPageComponent {
    */
   confirmCancelReady() {
     this.isPlayerReady = false;
+    this.gameSessionService.update({ layout: null });
     this.showCancelReadyPopup = false;
 
     this.showMessage(
@@ -526,58 +469,6 @@ export class PlacementUserPageComponent {
     );
   }
 
-  /**
-   * Обработчик перемещения корабля над игровым полем
-   * @description Вычисляет потенциальные позиции для размещения
-   * @param {DragEvent} event - Событие перетаскивания
-   */
-  onDragOver(event: DragEvent) {
-    event.preventDefault();
-
-    const target = event.target as HTMLElement;
-    if (target.classList.contains('cell')) {
-      const row = target.getAttribute('data-row');
-      const col = parseInt(target.getAttribute('data-col') || '0');
-
-      if (row) {
-        this.hoveredCell = { row, col };
-
-        if (this.draggedShip) {
-          this.potentialPositions = this.getShipPositions(this.draggedShip.size, row, col);
-        }
-      }
-    }
-  }
-
-  /**
-   * Обработчик выхода курсора за пределы игрового поля при перетаскивании
-   * @param {DragEvent} event - Событие перетаскивания
-   */
-  onDragLeave(event: DragEvent) {
-    this.hoveredCell = null;
-    this.potentialPositions = [];
-  }
-
-  /**
-   * Обработчик завершения перетаскивания - размещение корабля на поле
-   * @param {DragEvent} event - Событие перетаскивания
-   */
-  onDrop(event: DragEvent) {
-    event.preventDefault();
-
-    if (!this.draggedShip || !this.hoveredCell) return;
-
-    const { row, col } = this.hoveredCell;
-
-    if (this.canPlaceShip(this.draggedShip, row, col)) {
-      this.placeShip(this.draggedShip, row, col);
-    }
-
-    this.draggedShip = null;
-    this.hoveredCell = null;
-    this.potentialPositions = [];
-  }
-
   /**
    * Открытие попапа загрузки расстановки
    */
@@ -597,7 +488,7 @@ export class PlacementUserPageComponent {
    * @description Проверяет, что на поле есть хотя бы один корабль перед открытием
    */
   openSavePopup() {
-    if (!this.hasAtLeastOneShip()) {
+    if (!this.editor.hasAtLeastOneShip()) {
       this.showMessage('Пустая расстановка', 'Нельзя сохранить пустую расстановку! Разместите хотя бы один корабль.');
       return;
     }
@@ -613,368 +504,211 @@ export class PlacementUserPageComponent {
     this.newPlacementName = '';
   }
 
-  /**
-   * Проверка, что на поле размещен хотя бы один корабль
-   * @returns {boolean} true если есть хотя бы один корабль, иначе false
-   */
-  hasAtLeastOneShip(): boolean {
-    return this.ships.some(ship => ship.placed && ship.positions.length > 0);
-  }
-
   /**
    * Проверка уникальности названия расстановки
    * @param {string} name - Проверяемое название
+   * @param {number} [ignoreId] - Расстановка, которая не учитывается (при переименовании)
    * @returns {boolean} true если название уникально, иначе false
    */
-  isPlacementNameUnique(name: string): boolean {
+  isPlacementNameUnique(name: string, ignoreId?: number): boolean {
     const normalizedName = name.trim().toLowerCase();
     return !this.userPlacements.some(placement =>
-      placement.name.toLowerCase() === normalizedName
+      placement.id !== ignoreId && placement.name.toLowerCase() === normalizedName
     );
   }
 
   /**
-   * Получение количества оставшихся для размещения кораблей определенного типа
-   * @param {string} type - Тип корабля
-   * @returns {number} Количество неразмещенных кораблей указанного типа
-   */
-  getRemainingShipsCount(type: string): number {
-    return this.ships.filter(ship => ship.type === type && !ship.placed).length;
-  }
-
-  /**
-   * Проверка, что все корабли размещены на поле
-   * @returns {boolean} true если все корабли размещены, иначе false
-   */
-  isAllShipsPlaced(): boolean {
-    return this.ships.every(ship => ship.placed);
-  }
-
-  /**
-   * Проверка валидности позиции на игровом поле
-   * @param {string} row - Буква строки
-   * @param {number} col - Номер столбца
-   * @returns {boolean} true если позиция валидна, иначе false
+   * Список клеток корабля для отрисовки в панели расстановки
+   * @param {number} size - Размер корабля
+   * @returns {number[]} Индексы клеток
    */
-  isValidPosition(row: string, col: number): boolean {
-    const rowIndex = this.rows.indexOf(row);
-    return rowIndex >= 0 && rowIndex < this.rows.length &&
-      col >= 1 && col <= this.columns.length;
+  getShipCells(size: number): number[] {
+    return Array.from({ length: size }, (_, i) => i);
   }
 
   /**
-   * Проверка наличия корабля в указанной позиции
-   * @param {string} row - Буква строки
-   * @param {number} col - Номер столбца
-   * @returns {boolean} true если в позиции есть корабль, иначе false
-   */
-  hasShip(row: string, col: number): boolean {
-    return this.ships.some(ship =>
-      ship.positions.some(pos => pos.row === row && pos.col === col)
-    );
-  }
-
-  /**
-   * Проверка наличия соседнего корабля в смежных клетках
-   * @param {string} row - Буква строки
-   * @param {number} col - Номер столбца
-   * @returns {boolean} true если есть соседний корабль, иначе false
+   * Сохранение текущей расстановки кораблей
+   * @description Выполняет проверки на валидность и уникальность названия
+   * Сохраняет расстановку на сервере в списке расстановок пользователя
    */
-  hasAdjacentShip(row: string, col: number): boolean {
-    const directions = [
-      { r: -1, c: 0 },
-      { r: 1, c: 0 },
-      { r: 0, c: -1 },
-      { r: 0, c: 1 },
-      { r: -1, c: -1 },
-      { r: -1, c: 1 },
-      { r: 1, c: -1 },
-      { r: 1, c: 1 }
-    ];
-
-    for (const dir of directions) {
-      const newRowIndex = this.rows.indexOf(row) + dir.r;
-      const newCol = col + dir.c;
-
-      if (newRowIndex >= 0 && newRowIndex < this.rows.length &&
-        newCol >= 1 && newCol <= this.columns.length) {
-        const adjacentRow = this.rows[newRowIndex];
-        if (this.hasShip(adjacentRow, newCol)) {
-          return true;
-        }
-      }
+  savePlacement() {
+    if (!this.editor.hasAtLeastOneShip()) {
+      this.showMessage('Сохранение расстановки', 'Нельзя сохранить пустую расстановку!');
+      return;
     }
 
-    return false;
-  }
-
-  /**
-   * Проверка возможности размещения корабля в указанной позиции
-   * @param {any} ship - Объект корабля (размер и тип)
-   * @param {string} startRow - Начальная строка
-   * @param {number} startCol - Начальный столбец
-   * @returns {boolean} true если корабль можно разместить, иначе false
-   */
-  canPlaceShip(ship: any, startRow: string, startCol: number): boolean {
-    const positions = this.getShipPositions(ship.size, startRow, startCol);
-
-    // Проверка выхода за границы поля
-    for (const pos of positions) {
-      if (!this.isValidPosition(pos.row, pos.col)) {
-        return false;
-      }
+    const trimmedName = this.newPlacementName.trim();
+    if (!trimmedName) {
+      this.showMessage('Сохранение расстановки', 'Введите название расстановки!');
+      return;
     }
 
-    // Проверка пересечения с другими кораблями и правил соседства
-    for (const pos of positions) {
-      if (this.hasShip(pos.row, pos.col)) {
-        return false;
-      }
-
-      if (this.hasAdjacentShip(pos.row, pos.col)) {
-        return false;
-      }
+    if (!this.isPlacementNameUnique(trimmedName)) {
+      this.showMessage('Сохранение расстановки', 'Расстановка с таким названием уже существует! Выберите другое название.');
+      return;
     }
 
-    return true;
-  }
-
-  /**
-   * Проверка является ли ячейка валидной зоной для размещения корабля
-   * @param {string} row - Буква строки
-   * @param {number} col - Номер столбца
-   * @returns {boolean} true если ячейка валидна для размещения, иначе false
-   */
-  isValidDropZone(row: string, col: number): boolean {
-    if (!this.draggedShip || !this.hoveredCell) return false;
-
-    return this.potentialPositions.some(pos => pos.row === row && pos.col === col) &&
-      this.canPlaceShip(this.draggedShip, this.hoveredCell.row, this.hoveredCell.col);
-  }
-
-  /**
-   * Проверка является ли ячейка невалидной зоной для размещения корабля
-   * @param {string} row - Буква строки
-   * @param {number} col - Номер столбца
-   * @returns {boolean} true если ячейка невалидна для размещения, иначе false
-   */
-  isInvalidDropZone(row: string, col: number): boolean {
-    if (!this.draggedShip || !this.hoveredCell) return false;
-
-    return this.potentialPositions.some(pos => pos.row === row && pos.col === col) &&
-      !this.canPlaceShip(this.draggedShip, this.hoveredCell.row, this.hoveredCell.col);
+    this.layoutService.createLayout({
+      name: trimmedName,
+      ships: fleetToShipPlacements(this.editor.ships),
+      rules: this.rules
+    }).subscribe({
+      next: (layout) => {
+        const newPlacement = this.toUserPlacement(layout);
+        this.userPlacements.unshift(newPlacement);
+        this.closeSavePopup();
+        this.showMessage('Сохранение расстановки', `Расстановка "${newPlacement.name}" успешно сохранена!`);
+        console.log('Сохраненная расстановка:', newPlacement);
+      },
+      error: (error) => {
+        console.error('Ошибка при сохранении расстановки:', error);
+        this.showMessage('Ошибка сохранения', 'Произошла ошибка при сохранении расстановки.', false);
+      }
+    });
   }
 
   /**
-   * Расчет всех позиций корабля исходя из начальной точки и ориентации
-   * @param {number} size - Размер корабля
-   * @param {string} startRow - Начальная строка
-   * @param {number} startCol - Начальный столбец
-   * @returns {Array<{row: string, col: number}>} Массив позиций корабля
+   * Загрузка пользовательских расстановок с сервера
+   * @description Сначала переносит на сервер расстановки, оставшиеся в localStorage
+   * (если перенос при входе не удался); ошибка переноса не мешает загрузке списка
    */
-  getShipPositions(size: number, startRow: string, startCol: number): { row: string, col: number }[] {
-    const positions = [];
-    const startRowIndex = this.rows.indexOf(startRow);
-
-    if (this.isHorizontal) {
-      const shouldFlip = this.shouldFlipHorizontal(startCol, size);
-
-      if (shouldFlip) {
-        for (let i = 0; i < size; i++) {
-          positions.push({
-            row: startRow,
-            col: startCol + i
-          });
-        }
-      } else {
-        for (let i = 0; i < size; i++) {
-          positions.push({
-            row: startRow,
-            col: startCol - i
-          });
-        }
-      }
-    } else {
-      const shouldFlip = this.shouldFlipVertical(startRowIndex, size);
-
-      if (shouldFlip) {
-        for (let i = 0; i < size; i++) {
-          if (startRowIndex + i < this.rows.length) {
-            positions.push({
-              row: this.rows[startRowIndex + i],
-              col: startCol
-            });
-          }
-        }
-      } else {
-        for (let i = 0; i < size; i++) {
-          if (startRowIndex - i >= 0) {
-            positions.push({
-              row: this.rows[startRowIndex - i],
-              col: startCol
-            });
-          }
-        }
+  loadUserPlacements() {
+    this.isLoadingPlacements = true;
+
+    this.layoutService.migrateLocalLayouts(this.userId).pipe(
+      catchError(error => {
+        console.warn('Не удалось перенести расстановки из localStorage:', error);
+        return of(0);
+      }),
+      switchMap(() => this.layoutService.getLayouts())
+    ).subscribe({
+      next: (layouts) => {
+        this.userPlacements = layouts
+          .map(layout => this.toUserPlacement(layout))
+          .sort((a, b) => b.date.getTime() - a.date.getTime());
+        this.isLoadingPlacements = false;
+      },
+      error: (error) => {
+        console.error('Ошибка при загрузке расстановок:', error);
+        this.userPlacements = [];
+        this.isLoadingPlacements = false;
       }
-    }
-
-    return positions;
+    });
   }
 
   /**
-   * Определение направления размещения для горизонтальной ориентации
+   * Преобразование расстановки сервера в расстановку страницы
    * @private
-   * @param {number} startCol - Начальный столбец
-   * @param {number} size - Размер корабля
-   * @returns {boolean} true если размещать вправо, false если влево
+   * @param {SavedLayout} layout - Расстановка в формате сервера
+   * @returns {UserPlacement} Расстановка с флотом по правилам, для которых она сделана
    */
-  shouldFlipHorizontal(startCol: number, size: number): boolean {
-    if (startCol <= size) {
-      return true; // Вправо, если у левого края
-    }
-    if (startCol >= this.columns.length - size + 1) {
-      return false; // Влево, если у правого края
-    }
-    return true; // По умолчанию вправо
+  private toUserPlacement(layout: SavedLayout): UserPlacement {
+    const rules = layout.rules ?? DEFAULT_GAME_RULES;
+    return {
+      id: layout.id,
+      name: layout.name,
+      date: new Date(layout.createdAt),
+      ships: fleetFromShipPlacements(layout.ships || [], rules.shipTypes, rules.boardSize),
+      rules: layout.rules
+    };
   }
 
   /**
-   * Определение направления размещения для вертикальной ориентации
-   * @private
-   * @param {number} startRowIndex - Индекс начальной строки
-   * @param {number} size - Размер корабля
-   * @returns {boolean} true если размещать вниз, false если вверх
+   * Сохраненные расстановки, подходящие под правила текущей партии
+   * @returns {UserPlacement[]} Расстановки с тем же размером поля и составом флота,
+   * корабли которых касаются не больше, чем разрешает текущее правило
    */
-  shouldFlipVertical(startRowIndex: number, size: number): boolean {
-    if (startRowIndex < size) {
-      return true; // Вниз, если у верхнего края
-    }
-    if (startRowIndex >= this.rows.length - size) {
-      return false; // Вверх, если у нижнего края
-    }
-    return true; // По умолчанию вниз
+  get availablePlacements(): UserPlacement[] {
+    return this.userPlacements.filter(placement =>
+      isSameRules(placement.rules ?? DEFAULT_GAME_RULES, this.rules) &&
+      isValidFleet(placement.ships, this.rules.boardSize, this.shipContact)
+    );
   }
 
   /**
-   * Размещение корабля на игровом поле
-   * @param {any} ship - Объект корабля
-   * @param {string} startRow - Начальная строка
-   * @param {number} startCol - Начальный столбец
+   * Открытие попапа переименования расстановки
+   * @param {UserPlacement} placement - Переименовываемая расстановка
    */
-  placeShip(ship: any, startRow: string, startCol: number) {
-    const positions = this.getShipPositions(ship.size, startRow, startCol);
-
-    const availableShip = this.ships.find(s =>
-      s.type === ship.type && !s.placed
-    );
-
-    if (availableShip) {
-      availableShip.positions = positions;
-      availableShip.placed = true;
-    }
+  openRenamePopup(placement: UserPlacement) {
+    this.renamingPlacement = placement;
+    this.renameText = placement.name;
   }
 
   /**
-   * Случайное размещение корабля на поле
-   * @param {number} size - Размер корабля
-   * @param {string} type - Тип корабля
+   * Закрытие попапа переименования расстановки
    */
-  placeShipRandomly(size: number, type: string) {
-    let placed = false;
-    let attempts = 0;
-
-    while (!placed && attempts < 100) {
-      const randomRow = this.rows[Math.floor(Math.random() * this.rows.length)];
-      const randomCol = this.columns[Math.floor(Math.random() * this.columns.length)];
-      const randomOrientation = Math.random() > 0.5;
-
-      const currentOrientation = this.isHorizontal;
-      this.isHorizontal = randomOrientation;
-
-      if (this.canPlaceShip({ size, type }, randomRow, randomCol)) {
-        this.placeShip({ size, type }, randomRow, randomCol);
-        placed = true;
-      }
-
-      this.isHorizontal = currentOrientation;
-      attempts++;
-    }
+  closeRenamePopup() {
+    this.renamingPlacement = null;
+    this.renameText = '';
   }
 
   /**
-   * Сохранение текущей расстановки кораблей
-   * @description Выполняет проверки на валидность и уникальность названия
-   * Сохраняет расстановку в localStorage с привязкой к пользователю
+   * Переименование расстановки на сервере
    */
-  savePlacement() {
-    if (!this.hasAtLeastOneShip()) {
-      this.showMessage('Сохранение расстановки', 'Нельзя сохранить пустую расстановку!');
+  confirmRename() {
+    const placement = this.renamingPlacement;
+    if (!placement) {
       return;
     }
 
-    const trimmedName = this.newPlacementName.trim();
+    const trimmedName = this.renameText.trim();
     if (!trimmedName) {
-      this.showMessage('Сохранение расстановки', 'Введите название расстановки!');
+      this.showMessage('Переименование расстановки', 'Введите название расстановки!');
       return;
     }
 
-    if (!this.isPlacementNameUnique(trimmedName)) {
-      this.showMessage('Сохранение расстановки', 'Расстановка с таким названием уже существует! Выберите другое название.');
+    if (!this.isPlacementNameUnique(trimmedName, placement.id)) {
+      this.showMessage('Переименование расстановки', 'Расстановка с таким названием уже существует! Выберите другое название.');
       return;
     }
 
-    const newPlacement: UserPlacement = {
-      id: Date.now(),
-      name: trimmedName,
-      date: new Date(),
-      ships: this.ships.map(ship => ({
-        ...ship,
-        positions: [...ship.positions]
-      }))
-    };
-
-    this.userPlacements.unshift(newPlacement);
-    this.saveToLocalStorage();
-    this.closeSavePopup();
+    this.layoutService.renameLayout(placement.id, trimmedName).subscribe({
+      next: (layout) => {
+        placement.name = layout.name;
+        this.closeRenamePopup();
+      },
+      error: (error) => {
+        console.error('Ошибка при переименовании расстановки:', error);
+        this.showMessage('Ошибка переименования', 'Не удалось переименовать расстановку.', false);
+      }
+    });
+  }
 
-    this.showMessage('Сохранение расстановки', `Расстановка "${newPlacement.name}" успешно сохранена!`);
-    console.log('Сохраненная расстановка:', newPlacement);
+  /**
+   * Запрос подтверждения удаления расстановки
+   * @param {UserPlacement} placement - Удаляемая расстановка
+   */
+  requestDeletePlacement(placement: UserPlacement) {
+    this.placementToDelete = placement;
   }
 
   /**
-   * Сохранение расстановок в localStorage с привязкой к пользователю
-   * @private
+   * Отмена удаления расстановки
    */
-  private saveToLocalStorage() {
-    try {
-      const key = `battleshipPlacements_${this.userId}`;
-      localStorage.setItem(key, JSON.stringify(this.userPlacements));
-    } catch (error) {
-      console.error('Ошибка при сохранении в localStorage:', error);
-      this.showMessage('Ошибка сохранения', 'Произошла ошибка при сохранении расстановки.', false);
-    }
+  cancelDeletePlacement() {
+    this.placementToDelete = null;
   }
 
   /**
-   * Загрузка пользовательских расстановок из localStorage
+   * Удаление расстановки на сервере после подтверждения
    */
-  loadUserPlacements() {
-    try {
-      const key = `battleshipPlacements_${this.userId}`;
-      const saved = localStorage.getItem(key);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        this.userPlacements = parsed.map((placement: any) => ({
-          ...placement,
-          date: new Date(placement.date)
-        }));
-      } else {
-        this.userPlacements = [];
-      }
-    } catch (error) {
-      console.error('Ошибка при загрузке из localStorage:', error);
-      this.userPlacements = [];
+  confirmDeletePlacement() {
+    const placement = this.placementToDelete;
+    if (!placement) {
+      return;
     }
+
+    this.layoutService.deleteLayout(placement.id).subscribe({
+      next: () => {
+        this.userPlacements = this.userPlacements.filter(p => p.id !== placement.id);
+        this.placementToDelete = null;
+      },
+      error: (error) => {
+        console.error('Ошибка при удалении расстановки:', error);
+        this.placementToDelete = null;
+        this.showMessage('Ошибка удаления', 'Не удалось удалить расстановку.', false);
+      }
+    });
   }
 
   /**
@@ -982,12 +716,12 @@ export class PlacementUserPageComponent {
    * @param {UserPlacement} placement - Сохраненная расстановка для загрузки
    */
   loadUserPlacement(placement: UserPlacement) {
-    this.clearBoard();
+    this.editor.clear();
 
     placement.ships.forEach(savedShip => {
-      const existingShip = this.ships.find(ship => ship.id === savedShip.id);
+      const existingShip = this.editor.ships.find(ship => ship.id === savedShip.id);
       if (existingShip) {
-        existingShip.positions = [...savedShip.positions];
+        existingShip.positions = savedShip.positions.map(pos => ({ ...pos }));
         existingShip.placed = savedShip.placed;
       }
     });
@@ -996,352 +730,192 @@ export class PlacementUserPageComponent {
     this.showMessage('Загрузка расстановки', `Загружена пользовательская расстановка: ${placement.name}`);
   }
 
-  /**
-   * Конвертация текущей расстановки в формат для отправки на сервер
-   * @private
-   * @returns {ShipPlacement[]} Массив размещений кораблей в формате сервера
-   */
-  private convertToServerFormat(): ShipPlacement[] {
-    const serverPlacements: ShipPlacement[] = [];
-
-    this.ships.forEach(ship => {
-      if (ship.placed && ship.positions.length > 0) {
-        const firstPosition = ship.positions[0];
-        const lastPosition = ship.positions[ship.positions.length - 1];
-
-        const row = this.rows.indexOf(firstPosition.row);
-        const col = firstPosition.col - 1; // Конвертация в 0-based индекс
-
-        const vertical = firstPosition.row !== lastPosition.row;
-
-        serverPlacements.push({
-          shipId: ship.id,
-          size: ship.size,
-          row: row,
-          col: col,
-          vertical: vertical
-        });
-      }
-    });
-
-    return serverPlacements;
-  }
-
   /**
    * Загрузка расстановки из формата сервера (черновик)
    * @private
    * @param {ShipPlacement[]} placements - Массив размещений кораблей в формате сервера
    */
   private loadFromServerFormat(placements: ShipPlacement[]) {
-    this.clearBoard();
-
-    placements.forEach(serverPlacement => {
-      const ship = this.ships.find(s => s.id === serverPlacement.shipId);
-      if (ship) {
-        const positions: { row: string; col: number }[] = [];
-
-        for (let i = 0; i < serverPlacement.size; i++) {
-          const rowIndex = serverPlacement.row + (serverPlacement.vertical ? i : 0);
-          const col = serverPlacement.col + (serverPlacement.vertical ? 0 : i) + 1;
-
-          if (rowIndex < this.rows.length && col <= this.columns.length) {
-            positions.push({
-              row: this.rows[rowIndex],
-              col: col
-            });
-          }
-        }
-
-        ship.positions = positions;
-        ship.placed = true;
-      }
-    });
+    this.editor.setFleet(fleetFromShipPlacements(placements, this.rules.shipTypes, this.rules.boardSize));
   }
 
   /**
    * Загрузка стратегии автоматической расстановки кораблей
-   * @param {string} strategy - Название стратегии ('coastal', 'diagonal', 'halfField', 'spread')
+   * @param {string} strategyId - Идентификатор стратегии из реестра
    */
-  loadStrategy(strategy: string) {
-    this.clearBoard();
-
-    switch (strategy) {
-      case 'coastal':
-        this.placeShipsCoastal();
-        break;
-      case 'diagonal':
-        this.placeShipsDiagonal();
-        break;
-      case 'halfField':
-        this.placeShipsHalfField();
-        break;
-      case 'spread':
-        this.placeShipsSpread();
-        break;
+  loadStrategy(strategyId: string) {
+    try {
+      this.editor.setFleet(generateStrategyFleet(strategyId, {
+        boardSize: this.rules.boardSize,
+        shipTypes: this.rules.shipTypes,
+        contact: this.shipContact
+      }));
+    } catch (error) {
+      console.error('Не удалось расставить корабли по стратегии:', error);
+      this.showMessage('Ошибка', 'Не удалось расставить корабли по этой стратегии');
+      return;
     }
 
     this.closeLoadPopup();
-    this.showMessage('Стратегия загружена', `Загружена стратегия: ${this.getStrategyName(strategy)}`);
+    this.showMessage('Стратегия загружена', `Загружена стратегия: ${getStrategyName(strategyId)}`);
   }
 
+  // ==================== СОБЫТИЯ РЕДАКТОРА ====================
+
   /**
-   * Получение читаемого названия стратегии по ключу
-   * @private
-   * @param {string} strategy - Ключ стратегии
-   * @returns {string} Читаемое название стратегии
+   * Движение указателя по странице (перетаскивание корабля)
+   * @param {PointerEvent} event - Событие указателя
    */
-  private getStrategyName(strategy: string): string {
-    const strategyNames: {[key: string]: string} = {
-      'coastal': 'Береговая',
-      'diagonal': 'Диагональная',
-      'halfField': 'Полупольная',
-      'spread': 'Разброс'
-    };
-    return strategyNames[strategy] || strategy;
+  @HostListener('document:pointermove', ['$event'])
+  onPointerMove(event: PointerEvent) {
+    this.editor.onPointerMove(event);
   }
 
   /**
-   * Береговая стратегия - размещение кораблей вдоль границ поля
-   * @private
+   * Отпускание указателя: размещение корабля или выбор касанием
+   * @param {PointerEvent} event - Событие указателя
    */
-  private placeShipsCoastal(): void {
-    const shipTypes = [...SHIP_TYPES];
-    shipTypes.sort((a, b) => b.size - a.size);
-
-    for (const shipType of shipTypes) {
-      for (let i = 0; i < shipType.count; i++) {
-        let placed = false;
-        let attempts = 0;
-
-        while (!placed && attempts < 1000) {
-          const isBorder = Math.random() > 0.1;
-          let row = '', col = 0;
-
-          if (isBorder) {
-            const side = Math.floor(Math.random() * 4);
-            switch(side) {
-              case 0:
-                row = this.rows[0];
-                col = Math.floor(Math.random() * BOARD_SIZE) + 1;
-                break;
-              case 1:
-                row = this.rows[Math.floor(Math.random() * BOARD_SIZE)];
-                col = BOARD_SIZE;
-                break;
-              case 2:
-                row = this.rows[BOARD_SIZE - 1];
-                col = Math.floor(Math.random() * BOARD_SIZE) + 1;
-                break;
-              case 3:
-                row = this.rows[Math.floor(Math.random() * BOARD_SIZE)];
-                col = 1;
-                break;
-            }
-          } else {
-            const borderZone = 2;
-            const randomBorder = Math.floor(Math.random() * 4);
-            switch(randomBorder) {
-              case 0:
-                row = this.rows[Math.floor(Math.random() * borderZone)];
-                col = Math.floor(Math.random() * BOARD_SIZE) + 1;
-                break;
-              case 1:
-                row = this.rows[Math.floor(Math.random() * BOARD_SIZE)];
-                col = BOARD_SIZE - Math.floor(Math.random() * borderZone);
-                break;
-              case 2:
-                row = this.rows[BOARD_SIZE - 1 - Math.floor(Math.random() * borderZone)];
-                col = Math.floor(Math.random() * BOARD_SIZE) + 1;
-                break;
-              case 3:
-                row = this.rows[Math.floor(Math.random() * BOARD_SIZE)];
-                col = 1 + Math.floor(Math.random() * borderZone);
-                break;
-            }
-          }
-
-          const orientation = shipType.size > 1 ? (Math.random() > 0.5 ? 'horizontal' : 'vertical') : 'horizontal';
-          const currentOrientation = this.isHorizontal;
-          this.isHorizontal = orientation === 'horizontal';
+  @HostListener('document:pointerup', ['$event'])
+  onPointerUp(event: PointerEvent) {
+    this.editor.onPointerUp(event);
+  }
 
-          if (this.canPlaceShip({ size: shipType.size, type: shipType.type }, row, col)) {
-            this.placeShip({ size: shipType.size, type: shipType.type }, row, col);
-            placed = true;
-          }
+  /**
+   * Прерывание указателя браузером (например, начался скролл страницы)
+   * @param {PointerEvent} event - Событие указателя
+   */
+  @HostListener('document:pointercancel', ['$event'])
+  onPointerCancel(event: PointerEvent) {
+    this.editor.onPointerCancel(event);
+  }
 
-          this.isHorizontal = currentOrientation;
-          attempts++;
-        }
+  /**
+   * Горячие клавиши редактирования расстановки (см. PlacementEditor.onKeyDown)
+   * @param {KeyboardEvent} event - Событие клавиатуры
+   */
+  @HostListener('document:keydown', ['$event'])
+  onKeyDown(event: KeyboardEvent) {
+    this.editor.onKeyDown(event);
+  }
 
-        if (!placed) {
-          this.placeShipRandomly(shipType.size, shipType.type);
-        }
-      }
+  /**
+   * Управление полем с клавиатуры
+   * @description Стрелки, Home/End и PageUp/PageDown двигают курсор,
+   * Enter и пробел берут корабль под курсором или ставят выбранный
+   * @param {KeyboardEvent} event - Событие клавиатуры
+   */
+  onBoardKeydown(event: KeyboardEvent) {
+    if (this.editor.onBoardKeydown(event)) {
+      this.focusCursorCell();
     }
   }
 
   /**
-   * Диагональная стратегия - размещение кораблей вдоль диагоналей поля
-   * @private
+   * Выбор корабля в панели с клавиатуры (Enter или пробел)
+   * @description Фокус переходит на поле, где корабль ставится клавишей Enter
+   * @param {KeyboardEvent} event - Событие клавиатуры
+   * @param {Ship} ship - Корабль из панели
    */
-  private placeShipsDiagonal(): void {
-    const shipTypes = [...SHIP_TYPES];
-    shipTypes.sort((a, b) => b.size - a.size);
-
-    const useMainDiagonal = Math.random() > 0.5;
-
-    for (const shipType of shipTypes) {
-      for (let i = 0; i < shipType.count; i++) {
-        let placed = false;
-        let attempts = 0;
-
-        while (!placed && attempts < 1000) {
-          let row = '', col = 0;
-          let rowIndex = 0;
-
-          if (useMainDiagonal) {
-            rowIndex = Math.floor(Math.random() * (BOARD_SIZE - shipType.size + 1));
-            const diagonalOffset = Math.floor(Math.random() * 3) - 1;
-            row = this.rows[rowIndex];
-            col = rowIndex + 1 + diagonalOffset;
-          } else {
-            rowIndex = Math.floor(Math.random() * (BOARD_SIZE - shipType.size + 1));
-            const diagonalOffset = Math.floor(Math.random() * 3) - 1;
-            row = this.rows[rowIndex];
-            col = BOARD_SIZE - rowIndex + diagonalOffset;
-          }
-
-          col = Math.max(1, Math.min(BOARD_SIZE, col));
-
-          const orientation = Math.random() > 0.7 ? 'horizontal' : 'vertical';
-          const currentOrientation = this.isHorizontal;
-          this.isHorizontal = orientation === 'horizontal';
-
-          if (this.canPlaceShip({ size: shipType.size, type: shipType.type }, row, col)) {
-            this.placeShip({ size: shipType.size, type: shipType.type }, row, col);
-            placed = true;
-          }
-
-          this.isHorizontal = currentOrientation;
-          attempts++;
-        }
-
-        if (!placed) {
-          this.placeShipRandomly(shipType.size, shipType.type);
-        }
-      }
+  onPanelShipKeydown(event: KeyboardEvent, ship: Ship) {
+    if (this.editor.onPanelShipKeydown(event, ship)) {
+      this.focusCursorCell();
     }
   }
 
   /**
-   * Полупольная стратегия - размещение кораблей в одной половине поля
-   * @private
+   * Перевод фокуса на клетку под курсором
    */
-  private placeShipsHalfField(): void {
-    const shipTypes = [...SHIP_TYPES];
-    shipTypes.sort((a, b) => b.size - a.size);
-
-    const isVerticalSplit = Math.random() > 0.5;
-    const half = Math.random() > 0.5 ? 'first' : 'second';
-
-    for (const shipType of shipTypes) {
-      for (let i = 0; i < shipType.count; i++) {
-        let placed = false;
-        let attempts = 0;
-
-        while (!placed && attempts < 1000) {
-          let row = '', col = 0;
-
-          if (isVerticalSplit) {
-            if (half === 'first') {
-              row = this.rows[Math.floor(Math.random() * BOARD_SIZE)];
-              col = Math.floor(Math.random() * (BOARD_SIZE / 2)) + 1;
-            } else {
-              row = this.rows[Math.floor(Math.random() * BOARD_SIZE)];
-              col = Math.floor(Math.random() * (BOARD_SIZE / 2)) + Math.floor(BOARD_SIZE / 2) + 1;
-            }
-          } else {
-            if (half === 'first') {
-              row = this.rows[Math.floor(Math.random() * (BOARD_SIZE / 2))];
-              col = Math.floor(Math.random() * BOARD_SIZE) + 1;
-            } else {
-              row = this.rows[Math.floor(Math.random() * (BOARD_SIZE / 2)) + Math.floor(BOARD_SIZE / 2)];
-              col = Math.floor(Math.random() * BOARD_SIZE) + 1;
-            }
-          }
+  focusCursorCell() {
+    const { row, col } = this.editor.cursor;
+    this.board?.nativeElement
+      .querySelector<HTMLElement>(`.cell[data-row="${row}"][data-col="${col}"]`)
+      ?.focus();
+  }
 
-          const orientation = Math.random() > 0.5 ? 'horizontal' : 'vertical';
-          const currentOrientation = this.isHorizontal;
-          this.isHorizontal = orientation === 'horizontal';
+  // ==================== ЭКСПОРТ И ИМПОРТ ====================
 
-          if (this.canPlaceShip({ size: shipType.size, type: shipType.type }, row, col)) {
-            this.placeShip({ size: shipType.size, type: shipType.type }, row, col);
-            placed = true;
-          }
-
-          this.isHorizontal = currentOrientation;
-          attempts++;
-        }
+  /**
+   * Открытие попапа экспорта расстановки
+   * @description Без аргумента экспортируется текущая расстановка на поле
+   * @param {UserPlacement} [placement] - Сохраненная расстановка для экспорта
+   */
+  openExportPopup(placement?: UserPlacement) {
+    const fleet = placement ? placement.ships : this.editor.ships;
+    const boardSize = placement ? (placement.rules ?? DEFAULT_GAME_RULES).boardSize : this.rules.boardSize;
 
-        if (!placed) {
-          this.placeShipRandomly(shipType.size, shipType.type);
-        }
-      }
+    if (!isFleetPlaced(fleet)) {
+      this.showMessage('Неполная расстановка', 'Экспортировать можно только расстановку, в которой размещены все корабли');
+      return;
     }
+
+    this.exportName = placement ? placement.name : 'Текущая расстановка';
+    this.exportGrid = fleetToAsciiGrid(fleet, boardSize);
+    this.exportCode = encodeShareCode(fleet, boardSize);
+    this.showLoadPopup = false;
+    this.showExportPopup = true;
   }
 
   /**
-   * Стратегия разброса - равномерное размещение кораблей по всему полю
-   * @private
+   * Закрытие попапа экспорта расстановки
    */
-  private placeShipsSpread(): void {
-    const shipTypes = [...SHIP_TYPES];
-    shipTypes.sort((a, b) => b.size - a.size);
-
-    for (const shipType of shipTypes) {
-      for (let i = 0; i < shipType.count; i++) {
-        let placed = false;
-        let attempts = 0;
-
-        while (!placed && attempts < 1000) {
-          let row = '', col = 0;
-          let isValidPosition = false;
-
-          while (!isValidPosition && attempts < 100) {
-            row = this.rows[Math.floor(Math.random() * BOARD_SIZE)];
-            col = Math.floor(Math.random() * BOARD_SIZE) + 1;
-
-            const rowIndex = this.rows.indexOf(row);
-            const isBorder = rowIndex === 0 || rowIndex === BOARD_SIZE - 1 || col === 1 || col === BOARD_SIZE;
-            const isCenter = rowIndex >= 3 && rowIndex <= 6 && col >= 4 && col <= 7;
-            const isDiagonal = rowIndex === col - 1 || rowIndex + col - 1 === BOARD_SIZE - 1;
-
-            isValidPosition = !isBorder && !isCenter && !isDiagonal;
-            if (Math.random() > 0.2) {
-              isValidPosition = true;
-            }
-
-            attempts++;
-          }
+  closeExportPopup() {
+    this.showExportPopup = false;
+  }
 
-          const orientation = Math.random() > 0.5 ? 'horizontal' : 'vertical';
-          const currentOrientation = this.isHorizontal;
-          this.isHorizontal = orientation === 'horizontal';
+  /**
+   * Копирование текста в буфер обмена
+   * @param {string} text - Сетка или код расстановки
+   */
+  copyToClipboard(text: string) {
+    if (!navigator.clipboard) {
+      this.showMessage('Копирование недоступно', 'Выделите текст и скопируйте его вручную');
+      return;
+    }
+    navigator.clipboard.writeText(text).then(
+      () => this.showMessage('Скопировано', 'Текст скопирован в буфер обмена'),
+      () => this.showMessage('Копирование недоступно', 'Выделите текст и скопируйте его вручную')
+    );
+  }
 
-          if (this.canPlaceShip({ size: shipType.size, type: shipType.type }, row, col)) {
-            this.placeShip({ size: shipType.size, type: shipType.type }, row, col);
-            placed = true;
-          }
+  /**
+   * Открытие попапа импорта расстановки
+   */
+  openImportPopup() {
+    this.importText = '';
+    this.importError = '';
+    this.showLoadPopup = false;
+    this.showImportPopup = true;
+  }
 
-          this.isHorizontal = currentOrientation;
-          attempts++;
-        }
+  /**
+   * Закрытие попапа импорта расстановки
+   */
+  closeImportPopup() {
+    this.showImportPopup = false;
+  }
 
-        if (!placed) {
-          this.placeShipRandomly(shipType.size, shipType.type);
-        }
+  /**
+   * Импорт расстановки из ASCII-сетки или кода
+   * @description Расстановка проверяется по правилам текущей партии;
+   * при ошибке поле не меняется, а причина показывается в попапе импорта
+   * @param {string} [text] - Сетка или код (нет - текст из попапа импорта)
+   * @returns {boolean} true если расстановка загружена
+   */
+  importLayout(text: string = this.importText): boolean {
+    try {
+      this.editor.setFleet(parseLayoutText(text, this.rules));
+    } catch (error) {
+      this.importError = error instanceof Error ? error.message : 'Не удалось разобрать расстановку';
+      if (!this.showImportPopup) {
+        this.showMessage('Ошибка импорта', this.importError);
       }
+      return false;
     }
+
+    this.importError = '';
+    this.showImportPopup = false;
+    this.showMessage('Импорт расстановки', 'Расстановка загружена');
+    return true;
   }
 
   /**
@@ -3,6 +3,7 @@ import { RouterModule, Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
 import { AuthService, User } from '../../services/auth.service';
+import { PlayerSettingsService } from '../../services/player-settings.service';
 import { environment } from '../../../environments/environment';
 
 /**
@@ -12,6 +13,7 @@ import { environment } from '../../../environments/environment';
  * - Отображение информации о пользователе (статистика, аватар)
  * - Загрузка актуальных данных с сервера
  * - Навигация к функциям изменения профиля
+ * - Настройки игры (показ быстрых реакций)
  * - Выход из системы
  * 
  * @component
@@ -44,10 +46,14 @@ export class ProfilePageComponent implements OnInit {
   /** Флаг загрузки данных */
   isLoading = true;
 
+  /** Показывать быстрые реакции в сетевых партиях */
+  reactionsEnabled = this.playerSettingsService.settings.reactionsEnabled;
+
   constructor(
     private router: Router,
     private authService: AuthService,
-    private http: HttpClient
+    private http: HttpClient,
+    private playerSettingsService: PlayerSettingsService
   ) {}
 
   /**
@@ -152,6 +158,19 @@ export class ProfilePageComponent implements OnInit {
     return `/assets/avatars/${avatarUrl}`;
   }
 
+  // ==================== НАСТРОЙКИ ====================
+
+  /**
+   * Включение или отключение быстрых реакций
+   * @description Действует со следующего входа в партию
+   *
+   * @param enabled - Показывать ли реакции
+   */
+  setReactionsEnabled(enabled: boolean) {
+    this.reactionsEnabled = enabled;
+    this.playerSettingsService.update({ reactionsEnabled: enabled });
+  }
+
   // ==================== МЕТОДЫ НАВИГАЦИИ ====================
 
   /**
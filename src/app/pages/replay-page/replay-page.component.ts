@@ -0,0 +1,242 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import {
+  SHOT_RESULT_LABELS,
+  formatCoordinate,
+  getColumnLabels,
+  getRowLabels,
+  isShipSunk
+} from '../../engine/battleship.engine';
+import {
+  GameRecord,
+  RecordedPlayer,
+  ReplayFrame,
+  getReplayFrame,
+  isLastMoveAt
+} from '../../engine/game-record';
+import { GameRecordService } from '../../services/game-record.service';
+
+/**
+ * Скорость воспроизведения
+ * @interface PlaybackSpeed
+ * @property {string} label - Подпись в интерфейсе
+ * @property {number} delay - Пауза между ходами (мс)
+ */
+interface PlaybackSpeed {
+  label: string;
+  delay: number;
+}
+
+/** Доступные скорости воспроизведения */
+const PLAYBACK_SPEEDS: PlaybackSpeed[] = [
+  { label: '0.5×', delay: 2000 },
+  { label: '1×', delay: 1000 },
+  { label: '2×', delay: 500 },
+  { label: '4×', delay: 250 }
+];
+
+/**
+ * Страница повтора партии
+ *
+ * Показывает оба поля на момент любого хода записанной партии:
+ * - Воспроизведение и пауза с выбором скорости
+ * - Шаг вперед и назад, переход к началу и концу
+ * - Перемотка ползунком
+ *
+ * Запись берется из GameRecordService по параметру маршрута gameId.
+ */
+@Component({
+  selector: 'app-replay-page',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './replay-page.component.html',
+  styleUrls: ['./replay-page.component.scss']
+})
+export class ReplayPageComponent implements OnInit, OnDestroy {
+  record: GameRecord | null = null;
+  frame: ReplayFrame | null = null;
+  rows: string[] = [];
+  columns: number[] = [];
+
+  /** Сколько ходов показано (0 - начало партии) */
+  position = 0;
+  isPlaying = false;
+
+  speeds = PLAYBACK_SPEEDS;
+  speed: PlaybackSpeed = PLAYBACK_SPEEDS[1];
+
+  private playTimer: any = null;
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private gameRecordService: GameRecordService
+  ) {}
+
+  ngOnInit(): void {
+    const gameId = this.route.snapshot.paramMap.get('gameId') ?? '';
+    this.record = this.gameRecordService.getRecord(gameId);
+    if (!this.record) {
+      return;
+    }
+
+    this.rows = getRowLabels(this.record.boardSize);
+    this.columns = getColumnLabels(this.record.boardSize);
+    this.showPosition(0);
+  }
+
+  ngOnDestroy(): void {
+    this.stopTimer();
+  }
+
+  // ==================== УПРАВЛЕНИЕ ВОСПРОИЗВЕДЕНИЕМ ====================
+
+  /**
+   * Воспроизведение с текущего хода (с начала, если запись досмотрена)
+   */
+  play(): void {
+    if (!this.record || this.totalMoves === 0) return;
+
+    if (this.position >= this.totalMoves) {
+      this.showPosition(0);
+    }
+    this.isPlaying = true;
+    this.scheduleNextMove();
+  }
+
+  pause(): void {
+    this.isPlaying = false;
+    this.stopTimer();
+  }
+
+  togglePlay(): void {
+    if (this.isPlaying) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  stepForward(): void {
+    this.pause();
+    this.showPosition(this.position + 1);
+  }
+
+  stepBack(): void {
+    this.pause();
+    this.showPosition(this.position - 1);
+  }
+
+  goToStart(): void {
+    this.pause();
+    this.showPosition(0);
+  }
+
+  goToEnd(): void {
+    this.pause();
+    this.showPosition(this.totalMoves);
+  }
+
+  /**
+   * Перемотка ползунком
+   * @description Во время воспроизведения оно продолжается с выбранного хода
+   */
+  seek(position: number | string): void {
+    this.showPosition(Number(position));
+    if (this.isPlaying) {
+      this.scheduleNextMove();
+    }
+  }
+
+  /**
+   * Смена скорости (действует со следующего хода)
+   */
+  changeSpeed(speed: PlaybackSpeed): void {
+    this.speed = speed;
+    if (this.isPlaying) {
+      this.scheduleNextMove();
+    }
+  }
+
+  goToLobby(): void {
+    this.pause();
+    this.router.navigate(['/lobby']);
+  }
+
+  /**
+   * Показ полей после указанного количества ходов
+   */
+  private showPosition(position: number): void {
+    if (!this.record) return;
+
+    this.position = Math.max(0, Math.min(position, this.totalMoves));
+    this.frame = getReplayFrame(this.record, this.position);
+  }
+
+  /**
+   * Таймер следующего хода при воспроизведении
+   */
+  private scheduleNextMove(): void {
+    this.stopTimer();
+    this.playTimer = setTimeout(() => {
+      this.showPosition(this.position + 1);
+      if (this.position >= this.totalMoves) {
+        this.isPlaying = false;
+        return;
+      }
+      this.scheduleNextMove();
+    }, this.speed.delay);
+  }
+
+  private stopTimer(): void {
+    if (this.playTimer) {
+      clearTimeout(this.playTimer);
+      this.playTimer = null;
+    }
+  }
+
+  // ==================== ГЕТТЕРЫ ДЛЯ ШАБЛОНА ====================
+
+  get totalMoves(): number {
+    return this.record?.moves.length ?? 0;
+  }
+
+  /**
+   * Описание последнего показанного хода ("Вы: Д5 — ранен")
+   */
+  get lastMoveText(): string {
+    const move = this.frame?.lastMove;
+    if (!move || !this.record) {
+      return 'Начало партии';
+    }
+    const name = move.player === 'me' ? this.record.myName : this.record.opponentName;
+    return `${name}: ${formatCoordinate(move)} — ${SHOT_RESULT_LABELS[move.result]}`;
+  }
+
+  get resultText(): string {
+    switch (this.record?.winner) {
+      case 'me':
+        return 'Победа';
+      case 'opponent':
+        return 'Поражение';
+      case 'draw':
+        return 'Ничья';
+      default:
+        return 'Партия не закончена';
+    }
+  }
+
+  isMyShipCell(row: number, col: number): boolean {
+    return this.frame?.myField[row]?.[col] === 'S';
+  }
+
+  isMyShipSunk(row: number, col: number): boolean {
+    return !!this.frame && isShipSunk(this.frame.myField, this.frame.opponentShots, { row, col });
+  }
+
+  isLastMove(player: RecordedPlayer, row: number, col: number): boolean {
+    return !!this.frame && isLastMoveAt(this.frame, player, { row, col });
+  }
+}
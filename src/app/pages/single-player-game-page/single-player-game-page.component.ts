@@ -1,38 +1,44 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, ElementRef, OnInit, OnDestroy, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router } from '@angular/router';
-import { HttpClient } from '@angular/common/http';
 import { FormsModule } from '@angular/forms';
-
-interface GameState {
-  gameId: number;
-  playerId: number;
-  playerField: string[][];
-  opponentField: string[][];
-  playerHits: string[][];
-  opponentHits: string[][];
-  playerShipsLeft: number;
-  opponentShipsLeft: number;
-  playerTurn: boolean;
-  gameOver: boolean;
-  winner: string;
-  lastAIShot?: number[];
-  lastAIShotHit?: boolean;
-  message?: string;
-}
-
-interface ShipPlacement {
-  shipId: number;
-  size: number;
-  row: number;
-  col: number;
-  vertical: boolean;
-}
-
-interface BoardLayoutDTO {
-  ships: ShipPlacement[];
-  matrix: string[][];
-}
+import { BoardLayoutDTO, Coordinate, GameRules, Shot } from '../../engine/battleship.model';
+import {
+  SHOT_RESULT_LABELS,
+  countShots,
+  createEmptyMatrix,
+  fleetFromShipPlacements,
+  formatCoordinate,
+  getColumnLabels,
+  getRowLabels,
+  isCellShot,
+  isInsideBoard,
+  isShipSunk,
+  parseCoordinate,
+  resolveNewShots
+} from '../../engine/battleship.engine';
+import {
+  getFiringMode,
+  getShipContact,
+  getShotsPerTurn,
+  getTotalShipCount,
+  isSalvoMode
+} from '../../engine/game-rules';
+import { GameSessionService } from '../../services/game-session.service';
+import { AuthService } from '../../services/auth.service';
+import { AI_DIFFICULTIES, AiDifficulty, DEFAULT_AI_DIFFICULTY } from '../../engine/ai-opponent';
+import {
+  ComputerStrategy,
+  DEFAULT_COMPUTER_STRATEGY,
+  getComputerStrategyName
+} from '../../services/models/computer.model';
+import { LocalGame } from '../../engine/local-game';
+import { GRID_ACTIVATE_KEYS, isCursorAt, moveGridCursor } from '../../engine/grid-cursor';
+import { GameRecord, RecordedPlayer, RecordedWinner, createGameRecord, recordShots } from '../../engine/game-record';
+import { MoveLogEntry, buildMoveLog } from '../../engine/move-log';
+import { GameRecordService } from '../../services/game-record.service';
+import { GameService } from '../../services/game.service';
+import { AiGameState, CreateAiGameRequest } from '../../services/models/game.model';
 
 @Component({
   selector: 'app-single-player-game-page',
@@ -43,13 +49,17 @@ interface BoardLayoutDTO {
 })
 export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
   // Конфигурация поля
-  rows = ['А', 'Б', 'В', 'Г', 'Д', 'Е', 'Ж', 'З', 'И', 'К'];
-  columns = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+  rules: GameRules = this.gameSessionService.rules;
+  rows = getRowLabels(this.rules.boardSize);
+  columns = getColumnLabels(this.rules.boardSize);
+  totalShips = getTotalShipCount(this.rules);
 
   // Состояние игры
   gameId: number | null = null;
   playerId: number = 0;
-  gameState: GameState = {
+  difficulty: AiDifficulty = DEFAULT_AI_DIFFICULTY;
+  computerStrategy: ComputerStrategy = DEFAULT_COMPUTER_STRATEGY;
+  gameState: AiGameState = {
     gameId: 0,
     playerId: 0,
     playerField: this.createEmptyStringField(),
@@ -67,6 +77,25 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
   myShotsCount: number = 0;
   myHitsCount: number = 0;
 
+  // Режим залпа: выбранные клетки и итоги последних ходов
+  selectedTargets: Coordinate[] = [];
+  lastPlayerShots: Shot[] = [];
+  lastOpponentShots: Shot[] = [];
+
+  // Клавиатурный курсор по полю компьютера
+  cursor: Coordinate = { row: 0, col: 0 };
+  @ViewChild('opponentBoard') opponentBoard?: ElementRef<HTMLElement>;
+  private boardFocused = false;
+  private focusTimer: any = null;
+
+  // Выстрел по введенной клетке
+  coordinateInput: string = '';
+  coordinateError: string = '';
+
+  // Журнал ходов (последний ход первым) и подсвеченная из него клетка
+  moveLog: MoveLogEntry[] = [];
+  highlightedEntry: MoveLogEntry | null = null;
+
   // UI состояния
   showSurrenderPopup: boolean = false;
   showGameOverPopup: boolean = false;
@@ -76,47 +105,66 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
   private aiThinkingTimer: any = null;
   private aiTurnDelay: number = 1000; // 1 секунда на "раздумья" ИИ
 
+  // Партия без сервера (null - игра идет на бэкенде)
+  private localGame: LocalGame | null = null;
+
+  // Запись партии для повтора
+  private record: GameRecord | null = null;
+
   constructor(
     private router: Router,
-    private http: HttpClient
+    private gameSessionService: GameSessionService,
+    private gameRecordService: GameRecordService,
+    private gameService: GameService,
+    private authService: AuthService
   ) {}
 
   ngOnInit(): void {
-    this.loadGameFromStorage();
+    this.loadGameFromSession();
   }
 
   ngOnDestroy(): void {
     if (this.aiThinkingTimer) {
       clearTimeout(this.aiThinkingTimer);
     }
+    clearTimeout(this.focusTimer);
   }
 
   /**
-   * Загрузка игры из sessionStorage
+   * Загрузка игры из сессии текущей партии
+   * @description Расстановку и соперника сохраняет страница расстановки,
+   * игрок берется из AuthService
    */
-  private loadGameFromStorage(): void {
+  private loadGameFromSession(): void {
     try {
-      // Получаем данные из sessionStorage
-      const boardLayoutStr = sessionStorage.getItem('aiGameBoardLayout');
-      const playerIdStr = sessionStorage.getItem('currentPlayerId');
+      const session = this.gameSessionService.session;
+      const boardLayout = session.layout;
+      this.playerId = Number(this.authService.getCurrentUser()?.player_id) || 0;
 
-      if (!boardLayoutStr || !playerIdStr) {
-        console.error('Данные игры не найдены в sessionStorage');
+      if (session.mode !== 'SINGLE_PLAYER' || !boardLayout || !this.playerId) {
+        console.error('Данные игры не найдены в сессии партии');
         this.router.navigate(['/ai-placement']);
         return;
       }
 
-      // Парсим данные
-      const boardLayout: BoardLayoutDTO = JSON.parse(boardLayoutStr);
-      this.playerId = parseInt(playerIdStr, 10);
+      this.difficulty = session.ai?.difficulty ?? DEFAULT_AI_DIFFICULTY;
+      this.computerStrategy = session.ai?.computerStrategy ?? DEFAULT_COMPUTER_STRATEGY;
+      const offline = session.ai?.offline ?? false;
 
       console.log('Загружены данные игры:', {
         playerId: this.playerId,
+        difficulty: this.difficulty,
+        computerStrategy: this.computerStrategy,
+        offline,
         boardLayout
       });
 
-      // Создаем новую игру на бэкенде
-      this.createAIGame(boardLayout);
+      if (offline) {
+        this.createLocalGame(boardLayout);
+      } else {
+        // Создаем новую игру на бэкенде
+        this.createAIGame(boardLayout);
+      }
 
     } catch (error) {
       console.error('Ошибка при загрузке игры:', error);
@@ -128,25 +176,24 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
    * Создание новой игры с ИИ на бэкенде
    */
   private createAIGame(boardLayout: BoardLayoutDTO): void {
-    const apiUrl = 'http://localhost:8080/api/ai/game/create';
-
-    const requestBody = {
+    const request: CreateAiGameRequest = {
       playerId: this.playerId,
       boardLayout: boardLayout,
-      gameType: 'SINGLEPLAYER'
+      difficulty: this.difficulty,
+      computerStrategy: this.computerStrategy,
+      rules: this.rules
     };
 
-    console.log('Отправка запроса на создание игры:', requestBody);
+    console.log('Отправка запроса на создание игры:', request);
 
-    this.http.post<GameState>(apiUrl, requestBody).subscribe({
+    this.gameService.createSinglePlayerGame(request).subscribe({
       next: (response) => {
         console.log('Игра создана успешно:', response);
 
         this.gameId = response.gameId;
         this.updateGameState(response);
 
-        // Сохраняем gameId в sessionStorage
-        sessionStorage.setItem('currentGameId', response.gameId.toString());
+        this.gameSessionService.update({ gameId: response.gameId });
       },
       error: (error) => {
         console.error('Ошибка при создании игры:', error);
@@ -156,8 +203,41 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
     });
   }
 
+  /**
+   * Создание игры без сервера
+   * @description Флот компьютера расставляется случайно,
+   * ходы ИИ рассчитываются в браузере
+   */
+  private createLocalGame(boardLayout: BoardLayoutDTO): void {
+    const { boardSize, shipTypes } = this.rules;
+    const playerFleet = fleetFromShipPlacements(boardLayout.ships, shipTypes, boardSize);
+
+    this.localGame = new LocalGame(playerFleet, this.difficulty, {
+      boardSize,
+      shipTypes,
+      firingMode: getFiringMode(this.rules),
+      shipContact: getShipContact(this.rules),
+      computerStrategy: this.computerStrategy
+    });
+    this.applyLocalGameState();
+  }
+
+  /**
+   * Перенос состояния локальной партии в состояние страницы
+   */
+  private applyLocalGameState(playerShots?: Shot[]): void {
+    if (!this.localGame) return;
+
+    this.updateGameState({
+      ...this.localGame.getState(),
+      gameId: 0,
+      playerId: this.playerId
+    }, playerShots);
+  }
+
   /**
    * Выстрел игрока по полю ИИ
+   * @description В режиме залпа клик отмечает клетку, а стрельба - кнопкой "Огонь"
    */
   onOpponentCellClick(row: number, col: number): void {
     if (!this.isYourTurn ||
@@ -166,26 +246,81 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
       return;
     }
 
+    if (this.isSalvo) {
+      this.toggleTarget(row, col);
+      return;
+    }
+
     this.makeMove(row, col);
   }
 
   /**
-   * Отправка хода на сервер
+   * Отметка клетки для залпа или снятие отметки
    */
-  private makeMove(row: number, col: number): void {
+  toggleTarget(row: number, col: number): void {
+    const index = this.selectedTargets.findIndex(t => t.row === row && t.col === col);
+    if (index >= 0) {
+      this.selectedTargets.splice(index, 1);
+    } else if (this.selectedTargets.length < this.shotsPerTurn) {
+      this.selectedTargets.push({ row, col });
+    }
+  }
+
+  isTargetSelected(row: number, col: number): boolean {
+    return this.selectedTargets.some(t => t.row === row && t.col === col);
+  }
+
+  /**
+   * Залп по отмеченным клеткам
+   */
+  fireSalvo(): void {
+    if (!this.isYourTurn || this.selectedTargets.length !== this.shotsPerTurn) {
+      return;
+    }
+
+    const targets = [...this.selectedTargets];
+    this.selectedTargets = [];
+
+    if (this.localGame) {
+      this.makeLocalMove(targets);
+      return;
+    }
+
     if (!this.gameId || !this.playerId) return;
 
-    const apiUrl = `http://localhost:8080/api/ai/game/${this.gameId}/move`;
+    console.log('Отправка залпа:', targets);
 
-    const requestBody = {
-      playerId: this.playerId,
-      row: row,
-      col: col
-    };
+    this.gameService.fireAiGameSalvo(this.gameId, this.playerId, targets).subscribe({
+      next: (response) => {
+        console.log('Залп обработан:', response);
+
+        this.updateGameState(response);
+
+        if (!response.gameOver && !response.playerTurn) {
+          this.scheduleAITurn();
+        }
+      },
+      error: (error) => {
+        console.error('Ошибка при выполнении залпа:', error);
+        alert('Не удалось выполнить залп. Попробуйте снова.');
+      }
+    });
+  }
+
+  /**
+   * Отправка хода на сервер
+   */
+  private makeMove(row: number, col: number): void {
+    if (this.localGame) {
+      this.makeLocalMove([{ row, col }]);
+      return;
+    }
+
+    if (!this.gameId || !this.playerId) return;
 
-    console.log('Отправка хода:', requestBody);
+    console.log('Отправка хода:', { row, col });
 
-    this.http.post<GameState>(apiUrl, requestBody).subscribe({
+    this.gameService.makeAiGameMove(this.gameId, this.playerId, row, col).subscribe({
       next: (response) => {
         console.log('Ход обработан:', response);
 
@@ -204,6 +339,28 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
     });
   }
 
+  /**
+   * Ход игрока в партии без сервера
+   */
+  private makeLocalMove(targets: Coordinate[]): void {
+    if (!this.localGame) return;
+
+    let shots: Shot[];
+    try {
+      shots = this.localGame.playerMove(targets);
+    } catch (error) {
+      console.error('Ошибка при выполнении хода:', error);
+      return;
+    }
+
+    // Локальная партия знает точный результат и порядок выстрелов залпа
+    this.applyLocalGameState(shots);
+
+    if (!this.localGame.isGameOver && !this.localGame.isPlayerTurn) {
+      this.scheduleAITurn();
+    }
+  }
+
   /**
    * Запланировать ход ИИ через задержку
    */
@@ -221,6 +378,19 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
    * ИИ делает ход (симуляция или запрос к серверу)
    */
   private makeAIMove(): void {
+    if (this.localGame) {
+      if (this.localGame.isGameOver || this.localGame.isPlayerTurn) return;
+
+      this.localGame.computerMove();
+      this.applyLocalGameState();
+
+      // В обычном режиме после попадания ИИ стреляет еще раз
+      if (!this.localGame.isGameOver && !this.localGame.isPlayerTurn) {
+        this.scheduleAITurn();
+      }
+      return;
+    }
+
     if (!this.gameId || !this.playerId) return;
 
     // Для ИИ ход уже сделан на сервере, нужно просто получить обновленное состояние
@@ -233,10 +403,7 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
   private getGameState(): void {
     if (!this.gameId || !this.playerId) return;
 
-    const apiUrl = `http://localhost:8080/api/ai/game/${this.gameId}/state`;
-    const params = { playerId: this.playerId.toString() };
-
-    this.http.get<GameState>(apiUrl, { params }).subscribe({
+    this.gameService.getAiGameState(this.gameId, this.playerId).subscribe({
       next: (response) => {
         this.updateGameState(response);
 
@@ -253,53 +420,293 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
 
   /**
    * Обновление состояния игры
+   * @param {AiGameState} state - Новое состояние
+   * @param {Shot[]} [playerShots] - Выстрелы игрока с точным результатом (партия без сервера)
    */
-  private updateGameState(state: GameState): void {
+  private updateGameState(state: AiGameState, playerShots?: Shot[]): void {
+    const previous = this.gameState;
     this.gameState = {
       ...this.gameState,
       ...state
     };
 
+    this.updateTurnSummary(previous, playerShots);
+
     // Обновляем статистику
     this.updateStats();
 
     // Проверяем, окончена ли игра
     if (state.gameOver) {
+      this.finishRecord(state.winner === 'PLAYER' ? 'me' : state.winner === 'COMPUTER' ? 'opponent' : 'draw');
       this.showGameOver(state.winner);
     }
+
+    this.restoreBoardFocus();
   }
 
   /**
    * Обновление статистики выстрелов
    */
   private updateStats(): void {
-    let shots = 0;
-    let hits = 0;
-
     // Считаем выстрелы по полю противника
-    for (let i = 0; i < 10; i++) {
-      for (let j = 0; j < 10; j++) {
-        const cell = this.gameState.opponentField[i]?.[j];
-        if (cell === 'H' || cell === 'M') {
-          shots++;
-          if (cell === 'H') hits++;
-        }
-      }
-    }
+    const { shots, hits } = countShots(this.gameState.opponentField);
 
     this.myShotsCount = shots;
     this.myHitsCount = hits;
   }
 
+  /**
+   * Итоги последних ходов по разнице между состояниями полей
+   * @description Потопление своим выстрелом определяется по потопленным кораблям
+   * компьютера, а выстрелы, результат которых уже известен, не пересчитываются
+   */
+  private updateTurnSummary(previous: AiGameState, knownPlayerShots?: Shot[]): void {
+    const playerShots = knownPlayerShots
+      ?? resolveNewShots(previous.opponentField, this.gameState.opponentField, this.gameState.opponentSunkShips);
+    const opponentShots = this.orderAIShots(resolveNewShots(
+      previous.opponentHits,
+      this.gameState.opponentHits,
+      this.gameState.playerField
+    ));
+
+    if (playerShots.length > 0) {
+      this.lastPlayerShots = playerShots;
+    }
+    if (opponentShots.length > 0) {
+      this.lastOpponentShots = opponentShots;
+    }
+
+    this.recordTurn(playerShots, opponentShots);
+  }
+
+  /**
+   * Запись ходов партии для повтора
+   * @description Запись создается при первом состоянии партии. Партия без сервера
+   * получает идентификатор по времени начала
+   */
+  private recordTurn(playerShots: Shot[], opponentShots: Shot[]): void {
+    if (!this.record) {
+      const gameId = this.gameId ? String(this.gameId) : `local-${Date.now()}`;
+      this.record = this.gameRecordService.getRecord(gameId)
+        ?? createGameRecord(gameId, 'ai', this.rules.boardSize, 'Вы', 'Компьютер');
+    }
+
+    this.record.myField = this.gameState.playerField.map(row => [...row]);
+    recordShots(this.record, 'me', playerShots);
+    recordShots(this.record, 'opponent', opponentShots);
+    this.gameRecordService.saveRecord(this.record);
+    this.moveLog = buildMoveLog(this.record, this.rules.shipTypes, this.gameState.opponentSunkShips).reverse();
+  }
+
+  /**
+   * Выстрелы компьютера в порядке хода
+   * @description Поля приходят целиком, и порядок выстрелов залпа по ним не восстановить.
+   * Последний выстрел указан в lastAIShot - он ставится последним, а его результат
+   * уточняется по lastAIShotHit
+   */
+  private orderAIShots(shots: Shot[]): Shot[] {
+    const [row, col] = this.gameState.lastAIShot ?? [];
+    const last = shots.find(shot => shot.row === row && shot.col === col);
+    if (!last) {
+      return shots;
+    }
+
+    const hit = this.gameState.lastAIShotHit ?? last.result !== 'miss';
+    const result = !hit ? 'miss' : last.result === 'sunk' ? 'sunk' : 'hit';
+    return [...shots.filter(shot => shot !== last), { ...last, result }];
+  }
+
+  /**
+   * Отметка итога партии в записи
+   */
+  private finishRecord(winner: RecordedWinner): void {
+    this.gameSessionService.update({ phase: 'finished' });
+    if (!this.record || this.record.winner) return;
+
+    this.record.winner = winner;
+    this.record.finishedAt = Date.now();
+    this.gameRecordService.saveRecord(this.record);
+  }
+
   /**
    * Создание пустого поля
    */
   private createEmptyStringField(): string[][] {
-    return Array(10).fill(null).map(() => Array(10).fill(' '));
+    return createEmptyMatrix(this.rules.boardSize);
+  }
+
+  // ==================== УПРАВЛЕНИЕ С КЛАВИАТУРЫ ====================
+
+  /**
+   * Проверка, что клетка под клавиатурным курсором
+   */
+  isCursorCell(row: number, col: number): boolean {
+    return isCursorAt(this.cursor, row, col);
+  }
+
+  /**
+   * Перенос курсора на клетку, получившую фокус
+   */
+  onCellFocus(row: number, col: number): void {
+    this.cursor = { row, col };
+  }
+
+  /**
+   * Управление полем компьютера с клавиатуры
+   * @description Стрелки, Home/End и PageUp/PageDown двигают курсор, Enter и пробел
+   * стреляют по клетке под курсором (в режиме залпа - отмечают ее), Ctrl+Enter - залп
+   */
+  onBoardKeydown(event: KeyboardEvent): void {
+    const next = moveGridCursor(this.cursor, event.key, this.rules.boardSize);
+    if (next) {
+      event.preventDefault();
+      this.cursor = next;
+      this.focusCursorCell();
+      return;
+    }
+
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey) && this.isSalvo) {
+      event.preventDefault();
+      this.fireSalvo();
+      return;
+    }
+
+    if (GRID_ACTIVATE_KEYS.includes(event.key)) {
+      event.preventDefault();
+      this.onOpponentCellClick(this.cursor.row, this.cursor.col);
+    }
+  }
+
+  onBoardFocusIn(): void {
+    this.boardFocused = true;
+  }
+
+  /**
+   * Потеря фокуса полем
+   * @description Если фокус ушел "в никуда" (relatedTarget = null), например
+   * из-за перерисовки поля или alert, он будет возвращен после обновления состояния
+   */
+  onBoardFocusOut(event: FocusEvent): void {
+    const next = event.relatedTarget as Node | null;
+    if (next && !this.opponentBoard?.nativeElement.contains(next)) {
+      this.boardFocused = false;
+    }
+  }
+
+  /**
+   * Возврат фокуса на клетку под курсором после обновления состояния,
+   * если до этого игрок управлял полем с клавиатуры
+   */
+  private restoreBoardFocus(): void {
+    if (!this.boardFocused) {
+      return;
+    }
+    clearTimeout(this.focusTimer);
+    this.focusTimer = setTimeout(() => {
+      const active = document.activeElement;
+      if (!active || active === document.body || this.opponentBoard?.nativeElement.contains(active)) {
+        this.focusCursorCell();
+      }
+    });
+  }
+
+  /**
+   * Перевод фокуса на клетку под курсором
+   */
+  private focusCursorCell(): void {
+    const { row, col } = this.cursor;
+    this.opponentBoard?.nativeElement
+      .querySelector<HTMLElement>(`.cell[data-row="${row}"][data-col="${col}"]`)
+      ?.focus();
+  }
+
+  // ==================== ВВОД КООРДИНАТЫ ====================
+
+  /**
+   * Выстрел по клетке, введенной текстом ("Б7", "б 7" или "b7")
+   * @description Клетка проверяется до отправки, а затем обрабатывается так же,
+   * как клик по полю (в режиме залпа - отмечается для залпа)
+   */
+  fireAtTypedCoordinate(): void {
+    const text = this.coordinateInput.trim();
+    const coord = parseCoordinate(text);
+    if (!coord) {
+      this.coordinateError = 'Введите букву строки и номер столбца, например Б7';
+      return;
+    }
+    if (!isInsideBoard(coord, this.rules.boardSize)) {
+      this.coordinateError = `Клетки ${text.toUpperCase()} нет на поле`;
+      return;
+    }
+    if (!this.isYourTurn) {
+      this.coordinateError = this.gameState.gameOver ? 'Игра окончена' : 'Сейчас не ваш ход — дождитесь хода компьютера';
+      return;
+    }
+    if (isCellShot(this.opponentField, coord)) {
+      this.coordinateError = `По клетке ${formatCoordinate(coord)} уже стреляли`;
+      return;
+    }
+
+    this.coordinateInput = '';
+    this.coordinateError = '';
+    this.cursor = coord;
+    this.onOpponentCellClick(coord.row, coord.col);
+  }
+
+  // ==================== ЖУРНАЛ ХОДОВ ====================
+
+  /**
+   * Подсветка клетки хода из журнала (повторный клик снимает подсветку)
+   */
+  toggleLogEntry(entry: MoveLogEntry): void {
+    this.highlightedEntry = this.highlightedEntry?.id === entry.id ? null : entry;
+  }
+
+  /**
+   * Проверка, что клетка подсвечена из журнала
+   * @description 'me' - выстрелы игрока (поле соперника), 'opponent' - выстрелы по полю игрока
+   */
+  isHighlightedCell(player: RecordedPlayer, row: number, col: number): boolean {
+    const entry = this.highlightedEntry;
+    return !!entry && entry.player === player && entry.row === row && entry.col === col;
   }
 
   // ==================== ГЕТТЕРЫ ДЛЯ ШАБЛОНА ====================
 
+  get difficultyName(): string {
+    return AI_DIFFICULTIES.find(level => level.id === this.difficulty)?.name ?? this.difficulty;
+  }
+
+  get computerStrategyName(): string {
+    return getComputerStrategyName(this.computerStrategy);
+  }
+
+  get isOffline(): boolean {
+    return this.localGame !== null;
+  }
+
+  get isSalvo(): boolean {
+    return isSalvoMode(this.rules);
+  }
+
+  /**
+   * Количество выстрелов за ход (в режиме залпа - по числу оставшихся кораблей)
+   */
+  get shotsPerTurn(): number {
+    if (this.localGame) {
+      return this.localGame.playerShotsPerTurn;
+    }
+    const freeCells = this.rules.boardSize ** 2 - this.myShotsCount;
+    return Math.min(getShotsPerTurn(this.rules, this.gameState.playerShipsLeft), freeCells);
+  }
+
+  /**
+   * Подпись выстрела для итогов хода, например "Д5 — ранен"
+   */
+  describeShot(shot: Shot): string {
+    return `${formatCoordinate(shot)} — ${SHOT_RESULT_LABELS[shot.result]}`;
+  }
+
   get isYourTurn(): boolean {
     return this.gameState.playerTurn && !this.gameState.gameOver;
   }
@@ -332,45 +739,7 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
   isShipSunk(row: number, col: number, isMyField: boolean): boolean {
     const field = isMyField ? this.myField : this.opponentField;
     const hits = isMyField ? this.myHits : this.opponentField;
-
-    if (!field[row] || field[row][col] !== 'S') {
-      return false;
-    }
-
-    return this.checkShipSunk(row, col, field, hits);
-  }
-
-  /**
-   * Рекурсивная проверка потопления корабля
-   */
-  private checkShipSunk(row: number, col: number, field: string[][], hits: string[][]): boolean {
-    const directions = [
-      { r: -1, c: 0 }, { r: 1, c: 0 }, { r: 0, c: -1 }, { r: 0, c: 1 }
-    ];
-
-    let isSunk = true;
-    const visited = new Set<string>();
-
-    const dfs = (r: number, c: number) => {
-      const key = `${r},${c}`;
-      if (visited.has(key) || r < 0 || r >= 10 || c < 0 || c >= 10) return;
-
-      visited.add(key);
-
-      if (field[r][c] === 'S') {
-        if (hits[r][c] !== 'H') {
-          isSunk = false;
-          return;
-        }
-
-        for (const dir of directions) {
-          dfs(r + dir.r, c + dir.c);
-        }
-      }
-    };
-
-    dfs(row, col);
-    return isSunk;
+    return isShipSunk(field, hits, { row, col });
   }
 
   /**
@@ -412,16 +781,21 @@ export class SinglePlayerGamePageComponent implements OnInit, OnDestroy {
    * Подтверждение сдачи
    */
   confirmSurrender(): void {
+    if (this.localGame) {
+      this.localGame.surrender();
+      this.finishRecord('opponent');
+      this.router.navigate(['/lose']);
+      return;
+    }
+
     if (!this.gameId || !this.playerId) {
       this.router.navigate(['/main-menu']);
       return;
     }
 
-    const apiUrl = `http://localhost:8080/api/ai/game/${this.gameId}/surrender`;
-    const params = { playerId: this.playerId.toString() };
-
-    this.http.post(apiUrl, null, { params }).subscribe({
+    this.gameService.surrenderAiGame(this.gameId, this.playerId).subscribe({
       next: () => {
+        this.finishRecord('opponent');
         this.router.navigate(['/lose']);
       },
       error: (error) => {
@@ -1,18 +1,92 @@
 import { Router } from '@angular/router';
-import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges, OnInit, OnDestroy } from '@angular/core';
+import { Component, ElementRef, Input, Output, EventEmitter, OnChanges, SimpleChanges, OnInit, OnDestroy, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
 import { ActivatedRoute } from '@angular/router';
-import { WebSocketService, GameStartNotification } from '../../services/webSocket.service';
-import { Subscription as RxSubscription } from 'rxjs';
-
-// Тип для Stomp подписки
-type StompSubscription = any;
+import {
+  WebSocketService,
+  GameStartNotification,
+  GameStateMessage,
+  GameEndNotification,
+  GamePauseNotification,
+  GameReactionNotification,
+  ChatMessageNotification,
+  DrawOffer,
+  GameAction,
+  GameError
+} from '../../services/webSocket.service';
+import { Subscription as RxSubscription, pairwise } from 'rxjs';
+import {
+  SHOT_RESULT_LABELS,
+  countShots,
+  createEmptyMatrix,
+  formatCoordinate,
+  getColumnLabels,
+  getRowLabels,
+  isCellShot,
+  isInsideBoard,
+  isShipSunk,
+  parseCoordinate,
+  resolveNewShots,
+  toSalvoShots
+} from '../../engine/battleship.engine';
+import { Coordinate, GameRules, Shot } from '../../engine/battleship.model';
+import {
+  getShotsPerTurn,
+  getTimeControl,
+  getTotalShipCount,
+  isSalvoMode,
+  isValidGameRules
+} from '../../engine/game-rules';
+import {
+  CLOCK_WARNING_MS,
+  ClockReading,
+  ClockSync,
+  MAX_PAUSES_PER_PLAYER,
+  PAUSE_DURATION_SECONDS,
+  formatClock,
+  getServerNow,
+  parseServerTime,
+  pauseClock,
+  readClock,
+  resumeClock,
+  syncClock
+} from '../../engine/game-clock';
+import { GameSessionService } from '../../services/game-session.service';
+import { GRID_ACTIVATE_KEYS, isCursorAt, moveGridCursor } from '../../engine/grid-cursor';
+import { GameRecord, RecordedPlayer, RecordedWinner, createGameRecord, recordShots } from '../../engine/game-record';
+import { MoveLogEntry, buildMoveLog } from '../../engine/move-log';
+import { GameRecordService } from '../../services/game-record.service';
+import {
+  CHAT_MESSAGE_MAX_LENGTH,
+  ChatMessage,
+  getChatCooldown,
+  mergeChatMessages,
+  normalizeChatText,
+  pruneSentTimes,
+  validateChatText
+} from '../../engine/game-chat';
+import {
+  GAME_REACTIONS,
+  GameReaction,
+  MAX_VISIBLE_REACTIONS,
+  REACTION_COOLDOWN_MS,
+  REACTION_DISPLAY_MS,
+  getReaction
+} from '../../engine/game-reactions';
+import { PlayerSettingsService } from '../../services/player-settings.service';
+import { AuthService } from '../../services/auth.service';
+import { ConnectionBannerComponent } from '../../components/connection-banner/connection-banner.component';
+
+// Период обновления часов на экране (мс)
+const CLOCK_TICK_MS = 250;
 
 interface GameState {
   myField: string[][];        // Ваши корабли
   opponentField: string[][];  // Поле противника с вашими выстрелами (H/M)
   myHits: string[][];         // Ваши выстрелы (дублирует opponentField)
   opponentHits: string[][];   // Выстрелы противника (дублирует enemyHits)
+  opponentSunkShips?: string[][]; // Потопленные корабли противника (S)
   myShipsLeft: number;
   opponentShipsLeft: number;
   isMyTurn: boolean;
@@ -20,6 +94,14 @@ interface GameState {
   gameId: number;
 }
 
+// Реакция, пролетающая над полем соперника
+interface FlyingReaction {
+  key: number;
+  reaction: GameReaction;
+  own: boolean;
+  offset: number;
+}
+
 interface GameMoveDTO {
   gameId: number;
   playerId: number;
@@ -32,7 +114,7 @@ interface GameMoveDTO {
   templateUrl: './two-players-field-page.component.html',
   styleUrls: ['./two-players-field-page.component.scss'],
   standalone: true,
-  imports: [CommonModule]
+  imports: [CommonModule, FormsModule, ConnectionBannerComponent]
 })
 export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
   gameId: string = '';
@@ -40,7 +122,6 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
   private playerId: number = 0;
   @Input() myName: string = '';
   @Input() opponentName: string = '';
-  @Input() currentPlayerId: number = 0;
   @Input() gameState: GameState = {
     myField: [],
     opponentField: [],
@@ -55,9 +136,13 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
   @Output() cellSelected = new EventEmitter<{ row: number; col: number }>();
   @Output() gameAction = new EventEmitter<{ type: string; data?: any }>();
 
-  rows = ['А', 'Б', 'В', 'Г', 'Д', 'Е', 'Ж', 'З', 'И', 'К'];
-  columns = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+  rules: GameRules = this.gameSessionService.rules;
+  rows = getRowLabels(this.rules.boardSize);
+  columns = getColumnLabels(this.rules.boardSize);
+  totalShips = getTotalShipCount(this.rules);
+  private rulesSynced = false;
 
+  spectatorCount = 0;
   showPausePopup = false;
   showDrawPopup = false;
   showDrawResponsePopup = false;
@@ -65,126 +150,147 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
   myShotsCount = 0;
   myHitsCount = 0;
 
+  // Режим залпа: выбранные клетки и итоги последних ходов
+  selectedTargets: Coordinate[] = [];
+  lastMyShots: Shot[] = [];
+  lastOpponentShots: Shot[] = [];
+
+  // Контроль времени: показания часов и сообщение о пропущенном ходе
+  timeControl = getTimeControl(this.rules);
+  clock: ClockReading | null = null;
+  turnExpiredNotice = '';
+  private clockSync: ClockSync | null = null;
+  private clockTimer: any = null;
+
+  // Пауза: showPausePopup - партия на паузе (поле заблокировано, часы стоят)
+  showPauseRequestPopup = false;
+  pauseRequestPending = false;
+  pausedByMe = false;
+  pausesLeft = MAX_PAUSES_PER_PLAYER;
+  pauseLeftMs = 0;
+  pauseNotice = '';
+  resumeSent = false;
+  private pauseDeadline = 0;
+  private pauseTimer: any = null;
+
+  // Выстрел по введенной клетке
+  coordinateInput = '';
+  coordinateError = '';
+
+  // Клавиатурный курсор по полю соперника
+  cursor: Coordinate = { row: 0, col: 0 };
+  @ViewChild('opponentBoard') opponentBoard?: ElementRef<HTMLElement>;
+  private boardFocused = false;
+  private focusTimer: any = null;
+
+  // Журнал ходов (последний ход первым) и подсвеченная из него клетка
+  moveLog: MoveLogEntry[] = [];
+  highlightedEntry: MoveLogEntry | null = null;
+
+  // Чат с соперником: непрочитанные считаются, пока панель свернута
+  chatMessages: ChatMessage[] = [];
+  chatInput = '';
+  chatError = '';
+  chatOpen = false;
+  unreadCount = 0;
+  opponentMuted = false;
+  chatMaxLength = CHAT_MESSAGE_MAX_LENGTH;
+  @ViewChild('chatList') chatList?: ElementRef<HTMLElement>;
+  private chatSentAt: number[] = [];
+  private chatScrollTimer: any = null;
+
+  // Быстрые реакции (отключаются в настройках профиля)
+  reactions = GAME_REACTIONS;
+  reactionsEnabled = this.playerSettingsService.settings.reactionsEnabled;
+  flyingReactions: FlyingReaction[] = [];
+  reactionCooldown = false;
+  private reactionKey = 0;
+  private reactionTimers: any[] = [];
+  private reactionCooldownTimer: any = null;
+
+  // Запись партии для повтора
+  private record: GameRecord | null = null;
+
   private rxSubscriptions: RxSubscription[] = [];
-  private stompSubscriptions: StompSubscription[] = [];
 
   constructor(
     private route: ActivatedRoute,
     private webSocketService: WebSocketService,
-    private router: Router
+    private router: Router,
+    private gameSessionService: GameSessionService,
+    private gameRecordService: GameRecordService,
+    private playerSettingsService: PlayerSettingsService,
+    private authService: AuthService
   ) {}
 
   ngOnInit() {
-    // 1. Подписываемся на параметры маршрута
-    const paramsSub = this.route.params.subscribe(params => {
-      if (params['gameId']) {
-        this.handleRouteParams(params);
-      }
-    });
-    this.rxSubscriptions.push(paramsSub);
-
-    // 2. Проверяем snapshot на случай быстрой навигации
-    const snapshotParams = this.route.snapshot.params;
-    if (snapshotParams['gameId']) {
-      this.handleRouteParams(snapshotParams);
+    // Партия восстанавливается только по адресу и сессии: после перезагрузки
+    // или на другом устройстве остальное присылает сервер в состоянии игры
+    const currentUser = this.authService.getCurrentUser();
+    this.playerId = Number(currentUser?.player_id) || 0;
+    this.myName = this.myName || currentUser?.nickname || '';
+    this.gameId = this.route.snapshot.paramMap.get('gameId') ?? '';
+    this.gameIdNum = parseInt(this.gameId, 10) || 0;
+
+    if (!this.playerId) {
+      console.error('Пользователь не вошел, партию открыть нельзя');
+      this.router.navigate(['/login']);
+      return;
     }
-
-    // 3. Проверяем queryParams
-    this.route.queryParams.subscribe(queryParams => {
-      if (queryParams['gameId'] && !this.gameId) {
-        this.gameId = queryParams['gameId'];
-        this.gameIdNum = parseInt(this.gameId, 10);
-        console.log('Получен ID игры из queryParams:', this.gameId);
-
-        this.playerId = this.getPlayerId();
-        console.log('Player ID установлен из queryParams:', this.playerId);
-
-        if (this.playerId > 0) {
-          this.setupGameSubscriptions();
-          this.requestGameState();
-        }
-      }
-
-      // Проверяем currentPlayerId в queryParams
-      if (queryParams['currentPlayerId'] && !this.playerId) {
-        this.playerId = parseInt(queryParams['currentPlayerId'], 10);
-        console.log('Player ID взят из queryParams currentPlayerId:', this.playerId);
-        if (this.gameIdNum > 0 && this.playerId > 0) {
-          this.setupGameSubscriptions();
-          this.requestGameState();
-        }
-      }
-    });
-
-    // 4. Если currentPlayerId передан через @Input
-    if (this.currentPlayerId && this.currentPlayerId > 0 && !this.playerId) {
-      this.playerId = this.currentPlayerId;
-      console.log('Player ID установлен из @Input:', this.playerId);
-      if (this.gameIdNum > 0) {
-        this.setupGameSubscriptions();
-        this.requestGameState();
-      }
+    if (!this.gameIdNum) {
+      console.error('В адресе нет gameId, возвращаемся в лобби');
+      this.router.navigate(['/lobby']);
+      return;
     }
-  }
 
-  private handleRouteParams(params: any) {
-    this.gameId = params['gameId'];
-    this.gameIdNum = parseInt(this.gameId, 10);
-    console.log('Получен ID игры из параметров маршрута:', this.gameId);
-
-    this.playerId = this.getPlayerId();
-    console.log('Player ID определен:', this.playerId);
-
-    if (this.playerId > 0) {
-      this.setupGameSubscriptions();
-      this.requestGameState();
+    // Партию, открытую из лобби или на другом устройстве, сессия еще не знает
+    const session = this.gameSessionService.session;
+    if (session.mode === 'MULTIPLAYER' && session.gameId === this.gameIdNum) {
+      this.gameSessionService.update({ phase: 'playing' });
     } else {
-      console.error('Player ID не найден, невозможно установить подписки');
+      this.gameSessionService.start('MULTIPLAYER', 'playing', { gameId: this.gameIdNum });
     }
-  }
+    this.opponentName = this.opponentName || this.gameSessionService.session.opponent?.nickname || '';
 
-  private getPlayerId(): number {
-    console.log('🔍 Поиск playerId из всех доступных источников:');
+    this.startClockTimer();
 
-    // 1. Проверяем queryParams текущего маршрута
-    const queryParams = this.route.snapshot.queryParams;
-    if (queryParams['playerId']) {
-      const id = +queryParams['playerId'];
-      console.log('Player ID найден в queryParams:', id);
-      return id;
+    // Сессия WebSocket нужна до подписок; без соединения о нем сообщает баннер
+    if (!this.webSocketService.isConnected()) {
+      this.webSocketService.connect(this.playerId)
+        .catch(err => console.error('Не удалось подключиться к WS для партии:', err));
     }
 
-    // 2. Проверяем параметры маршрута
-    const routeParams = this.route.snapshot.params;
-    if (routeParams['playerId']) {
-      const id = +routeParams['playerId'];
-      console.log('Player ID найден в параметрах маршрута:', id);
-      return id;
-    }
+    this.setupGameSubscriptions();
 
-    // 3. Проверяем sessionStorage
-    const sessionId = sessionStorage.getItem('currentPlayerId');
-    if (sessionId && !isNaN(parseInt(sessionId))) {
-      const id = parseInt(sessionId);
-      console.log('Player ID найден в sessionStorage:', id);
-      return id;
-    }
+    // При каждом появлении соединения запрашиваем то, что могли пропустить
+    const connectionSub = this.webSocketService.connectionState$
+      .pipe(pairwise())
+      .subscribe(([previous, current]) => {
+        if (previous !== 'online' && current === 'online') {
+          this.onConnected();
+        }
+      });
+    this.rxSubscriptions.push(connectionSub);
 
-    // 4. Проверяем состояние WebSocketService
-    if (this.webSocketService.isConnected() && this.webSocketService.getCurrentPlayerId()) {
-      const id = this.webSocketService.getCurrentPlayerId()!;
-      console.log('Player ID найден в WebSocketService:', id);
-      return id;
+    if (this.webSocketService.isConnected()) {
+      this.requestGameState();
     }
+  }
 
-    // 5. Проверяем @Input currentPlayerId
-    if (this.currentPlayerId && this.currentPlayerId > 0) {
-      console.log('Player ID взят из @Input currentPlayerId:', this.currentPlayerId);
-      return this.currentPlayerId;
-    }
+  /**
+   * Запрос состояния после подключения или переподключения
+   * @description Подписки восстанавливает WebSocketService, а состояние партии
+   * и история чата запрашиваются заново: за время обрыва могли быть ходы
+   */
+  private onConnected() {
+    if (!this.gameIdNum || !this.playerId) return;
 
-    console.error('Player ID не найден ни в одном источнике');
-    return 0;
+    console.log('🔄 Соединение установлено, запрашиваем состояние игры');
+    this.requestGameState();
+    this.webSocketService.sendGetChatHistory({
+      gameId: this.gameIdNum,
+      playerId: this.playerId
+    });
   }
 
   private setupGameSubscriptions() {
@@ -209,11 +315,24 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
 
     // 5. Подписка на предложения ничьи
     this.subscribeToDrawOffers();
+
+    // 6. Подписка на события паузы
+    this.subscribeToPause();
+
+    // 7. Подписка на чат и запрос его истории
+    this.subscribeToChat();
+
+    // 8. Подписка на быстрые реакции
+    this.subscribeToReactions();
+
+    // 9. Подписка на число зрителей
+    this.subscribeToSpectatorCount();
   }
 
   private subscribeToGameStart() {
     console.log('🔧 Подписка на уведомления о начале игры');
-    const subscription = this.webSocketService.subscribeToGameStart((notification: GameStartNotification) => {
+    // Состояние игры после уведомления запрашивает WebSocketService
+    const subscription = this.webSocketService.observeGameStart().subscribe((notification: GameStartNotification) => {
       console.log('🎮 Получено уведомление о начале игры:', notification);
 
       // Обновляем gameId если он пришел в уведомлении
@@ -229,17 +348,8 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
         this.gameState.currentTurnPlayerId = turnPlayerId; // о
         console.log('🎮 Обновлен статус хода. Мой ход?', this.gameState.isMyTurn);
       }
-
-      // Запрашиваем состояние игры после получения уведомления
-      if (this.gameIdNum > 0) {
-        console.log('Запрашиваем состояние игры после получения уведомления о начале');
-        this.requestGameState();
-      }
     });
-
-    if (subscription) {
-      this.stompSubscriptions.push(subscription);
-    }
+    this.rxSubscriptions.push(subscription);
   }
 
   private requestGameState() {
@@ -257,26 +367,30 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
 
   private subscribeToGameState() {
     console.log('🔧 Подписка на обновления состояния игры');
-    const subscription = this.webSocketService.subscribeToGameState(
-      this.playerId,
-      (gameState: any) => {
+    const subscription = this.webSocketService.observeGameState(this.playerId)
+      .subscribe((gameState: GameStateMessage) => {
         console.log('Получено состояние игры:', gameState);
         this.updateGameState(gameState);
-      }
-    );
-
-    if (subscription) {
-      this.stompSubscriptions.push(subscription);
-    }
+      });
+    this.rxSubscriptions.push(subscription);
   }
 
-  private updateGameState(gameState: any) {
+  private updateGameState(gameState: GameStateMessage) {
     console.log('Обновление состояния игры. Полученные данные:', gameState);
     console.log('Мой playerId:', this.playerId);
     console.log('Текущий ход игрока (от сервера):', gameState.currentTurnPlayerId);
 
+    // Правила и имя соперника берутся из состояния: после перезагрузки их больше негде взять
+    if (!this.rulesSynced && gameState.rules && isValidGameRules(gameState.rules)) {
+      this.applyRules(gameState.rules);
+    }
+    if (gameState.opponentNickname) {
+      this.opponentName = gameState.opponentNickname;
+    }
+
     // Сохраняем предыдущее состояние хода для логирования
     const previousTurn = this.gameState.isMyTurn;
+    const previousState = this.gameState;
 
     // Обновляем состояние игры
     this.gameState = {
@@ -287,7 +401,21 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
       currentTurnPlayerId: gameState.currentTurnPlayerId
     };
 
+    if (typeof gameState.spectatorCount === 'number') {
+      this.spectatorCount = gameState.spectatorCount;
+    }
+
     this.updateStats();
+    this.updateTurnSummary(previousState);
+
+    if (!this.gameState.isMyTurn) {
+      this.selectedTargets = [];
+    }
+
+    this.syncGameClock(gameState);
+    this.syncPause(gameState);
+
+    this.restoreBoardFocus();
 
     console.log('Состояние обновлено:');
     console.log('   - Мой ход?', this.gameState.isMyTurn);
@@ -298,10 +426,106 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
     console.log('   - Мои корабли осталось:', this.gameState.myShipsLeft);
   }
 
+  /**
+   * Итоги последних ходов по разнице между состояниями полей
+   * @description Потопление своим выстрелом определяется по потопленным кораблям
+   * соперника, которые открывает сервер
+   */
+  private updateTurnSummary(previous: GameState): void {
+    const myShots = resolveNewShots(previous.opponentField, this.gameState.opponentField, this.gameState.opponentSunkShips);
+    const opponentShots = resolveNewShots(previous.myHits, this.gameState.myHits, this.gameState.myField);
+
+    if (myShots.length > 0) {
+      this.lastMyShots = myShots;
+    }
+    if (opponentShots.length > 0) {
+      this.lastOpponentShots = opponentShots;
+    }
+
+    this.recordTurn(myShots, opponentShots);
+  }
+
+  /**
+   * Запись ходов партии для повтора
+   * @description После перезагрузки страницы запись продолжается:
+   * уже записанные выстрелы повторно не добавляются
+   */
+  private recordTurn(myShots: Shot[], opponentShots: Shot[]): void {
+    if (!this.gameIdNum) return;
+
+    if (!this.record) {
+      const gameId = String(this.gameIdNum);
+      this.record = this.gameRecordService.getRecord(gameId)
+        ?? createGameRecord(gameId, 'online', this.rules.boardSize, this.myName || 'Вы', this.opponentName || 'Соперник');
+    }
+
+    if (this.gameState.myField?.length) {
+      this.record.myField = this.gameState.myField.map(row => [...row]);
+    }
+    recordShots(this.record, 'me', myShots);
+    recordShots(this.record, 'opponent', opponentShots);
+    this.gameRecordService.saveRecord(this.record);
+    this.moveLog = buildMoveLog(this.record, this.rules.shipTypes, this.gameState.opponentSunkShips).reverse();
+  }
+
+  /**
+   * Отметка итога партии в записи
+   */
+  private finishRecord(winner: RecordedWinner): void {
+    this.gameSessionService.update({ phase: 'finished' });
+    if (!this.record || this.record.winner) return;
+
+    this.record.winner = winner;
+    this.record.finishedAt = Date.now();
+    this.gameRecordService.saveRecord(this.record);
+  }
+
+  /**
+   * Перестройка поля и часов под правила партии
+   * @description Правила за партию не меняются, поэтому применяются один раз
+   */
+  private applyRules(rules: GameRules): void {
+    this.rulesSynced = true;
+    this.rules = rules;
+    this.gameSessionService.update({ rules });
+    this.rows = getRowLabels(rules.boardSize);
+    this.columns = getColumnLabels(rules.boardSize);
+    this.totalShips = getTotalShipCount(rules);
+    this.timeControl = getTimeControl(rules);
+    this.cursor = { row: 0, col: 0 };
+    this.startClockTimer();
+  }
+
+  get isSalvo(): boolean {
+    return isSalvoMode(this.rules);
+  }
+
+  /**
+   * Количество выстрелов за ход (в режиме залпа - по числу оставшихся кораблей)
+   */
+  get shotsPerTurn(): number {
+    const freeCells = this.rules.boardSize ** 2 - this.myShotsCount;
+    return Math.min(getShotsPerTurn(this.rules, this.myShipsCount), freeCells);
+  }
+
+  /**
+   * Подпись выстрела для итогов хода, например "Д5 — ранен"
+   */
+  describeShot(shot: Shot): string {
+    return `${formatCoordinate(shot)} — ${SHOT_RESULT_LABELS[shot.result]}`;
+  }
+
   get isYourTurn(): boolean {
     return this.gameState?.isMyTurn ?? false;
   }
 
+  /**
+   * Можно ли стрелять: ход игрока и партия не на паузе
+   */
+  get canFire(): boolean {
+    return this.isYourTurn && !this.showPausePopup;
+  }
+
   get myShipsCount(): number {
     return this.gameState?.myShipsLeft ?? 0;
   }
@@ -322,7 +546,7 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
     return this.gameState?.myHits || this.createEmptyStringField();
   }
   private createEmptyStringField(): string[][] {
-    return Array(10).fill(null).map(() => Array(10).fill(' '));
+    return createEmptyMatrix(this.rules.boardSize);
   }
 
 
@@ -333,26 +557,63 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
 
   /**
    * Обработка клика по клетке поля противника
+   * @description В режиме залпа клик отмечает клетку, а стрельба - кнопкой "Огонь"
    */
   onOpponentCellClick(row: number, col: number): void {
-    if (!this.isYourTurn || this.opponentField[row]?.[col] !== ' ') {
+    if (!this.canFire || this.opponentField[row]?.[col] !== ' ') {
+      return;
+    }
+
+    if (this.isSalvo) {
+      this.toggleTarget(row, col);
       return;
     }
+
     this.sendMove(row, col);
   }
 
+  /**
+   * Отметка клетки для залпа или снятие отметки
+   */
+  toggleTarget(row: number, col: number): void {
+    const index = this.selectedTargets.findIndex(t => t.row === row && t.col === col);
+    if (index >= 0) {
+      this.selectedTargets.splice(index, 1);
+    } else if (this.selectedTargets.length < this.shotsPerTurn) {
+      this.selectedTargets.push({ row, col });
+    }
+  }
+
+  isTargetSelected(row: number, col: number): boolean {
+    return this.selectedTargets.some(t => t.row === row && t.col === col);
+  }
+
+  /**
+   * Залп по отмеченным клеткам
+   */
+  fireSalvo(): void {
+    if (!this.canFire || this.selectedTargets.length !== this.shotsPerTurn) {
+      return;
+    }
+    if (!this.gameIdNum || !this.playerId) return;
+
+    this.webSocketService.sendGameSalvo({
+      gameId: this.gameIdNum,
+      playerId: this.playerId,
+      shots: toSalvoShots(this.selectedTargets)
+    });
+    this.selectedTargets = [];
+  }
+
   private canMakeMove(row: number, col: number): boolean {
-    return this.isYourTurn &&
+    return this.canFire &&
       this.opponentHits[row] &&
       !this.isCellAlreadyHit(row, col);
   }
 
   private isCellAlreadyHit(row: number, col: number): boolean {
     // Проверяем opponentField, а не opponentHits
-    if (!this.opponentField[row] || !this.opponentField[row][col]) {
-      return false;
-    }
-    return this.opponentField[row][col] === 'H' || this.opponentField[row][col] === 'M';
+    return isCellShot(this.opponentField, { row, col });
   }
 
   private sendMove(row: number, col: number) {
@@ -368,17 +629,14 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
     this.webSocketService.sendGameMove(move);
   }
 
-  private sendGameActionWithData(actionType: string, data: any = {}) {
+  private sendGameAction(action: GameAction) {
     if (!this.gameIdNum || !this.playerId) return;
 
-    const action = {
+    this.webSocketService.sendGameAction({
+      ...action,
       gameId: this.gameIdNum,
-      playerId: this.playerId,
-      actionType: actionType,
-      ...data
-    };
-
-    this.webSocketService.sendGameAction(action);
+      playerId: this.playerId
+    });
   }
 
   /**
@@ -387,48 +645,7 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
   isShipSunk(row: number, col: number, isMyField: boolean): boolean {
     const field = isMyField ? this.myField : this.opponentField;
     const hits = isMyField ? this.myHits : this.opponentField;
-
-    if (!field[row] || field[row][col] !== 'S') {
-      return false;
-    }
-    return this.checkShipSunk(row, col, field, hits);
-  }
-
-  /**
-   * Рекурсивная проверка потопления корабля
-   */
-  private checkShipSunk(row: number, col: number, field: string[][], hits: string[][]): boolean {
-    const directions = [
-      { r: -1, c: 0 }, { r: 1, c: 0 }, { r: 0, c: -1 }, { r: 0, c: 1 }
-    ];
-    let isSunk = true;
-    const visited = new Set<string>();
-
-    const dfs = (r: number, c: number) => {
-      const key = `${r},${c}`;
-      if (visited.has(key) || r < 0 || r >= 10 || c < 0 || c >= 10) return;
-      visited.add(key);
-
-      if (field[r][c] === 'S') {
-        if (hits[r][c] !== 'H') {
-          isSunk = false;
-          return;
-        }
-        for (const dir of directions) {
-          dfs(r + dir.r, c + dir.c);
-        }
-      }
-    };
-
-    dfs(row, col);
-    return isSunk;
-  }
-
-  /**
-   * Проверка валидности позиции
-   */
-  private isValidPosition(row: number, col: number): boolean {
-    return row >= 0 && row < 10 && col >= 0 && col < 10;
+    return isShipSunk(field, hits, { row, col });
   }
 
   /**
@@ -441,127 +658,597 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
       return;
     }
 
-    let shots = 0;
-    let hits = 0;
-
-    for (let i = 0; i < 10; i++) {
-      for (let j = 0; j < 10; j++) {
-        const cell = this.opponentField[i]?.[j];
-        if (cell === 'H' || cell === 'M') {
-          shots++;
-          if (cell === 'H') hits++;
-        }
-      }
-    }
-
+    const { shots, hits } = countShots(this.opponentField);
     this.myShotsCount = shots;
     this.myHitsCount = hits;
   }
 
-  /**
-   * Создание пустого поля
-   */
-  private createEmptyField(): number[][] {
-    return Array(10).fill(0).map(() => Array(10).fill(0));
-  }
-
   /**
    * Создание пустого поля попаданий
    */
   private createEmptyHitsField(): string[][] {
-    return Array(10).fill(0).map(() => Array(10).fill(' '));
+    return createEmptyMatrix(this.rules.boardSize);
   }
 
   private subscribeToGameEnd() {
     console.log('Подписка на уведомления о завершении игры');
-    const subscription = this.webSocketService.subscribeToGameEnd(
-      this.playerId,
-      (endNotification: any) => {
+    const subscription = this.webSocketService.observeGameEnd(this.playerId)
+      .subscribe((endNotification: GameEndNotification) => {
         console.log('Игра завершена:', endNotification);
         this.handleGameEnd(endNotification);
-      }
-    );
-
-    if (subscription) {
-      this.stompSubscriptions.push(subscription);
-    }
+      });
+    this.rxSubscriptions.push(subscription);
   }
 
   private subscribeToErrors() {
     console.log('🔧 Подписка на уведомления об ошибках');
-    const subscription = this.webSocketService.subscribeToErrors(
-      this.playerId,
-      (error: any) => {
+    const subscription = this.webSocketService.observeErrors(this.playerId)
+      .subscribe((error: GameError) => {
         console.error('Ошибка игры:', error);
         this.showError(error.message || 'Произошла ошибка');
-      }
-    );
-
-    if (subscription) {
-      this.stompSubscriptions.push(subscription);
-    }
+      });
+    this.rxSubscriptions.push(subscription);
   }
 
   private subscribeToDrawOffers() {
     console.log('🔧 Подписка на предложения ничьи');
-    const subscription = this.webSocketService.subscribeToDrawOffers(
-      this.playerId,
-      (drawOffer: any) => {
+    const subscription = this.webSocketService.observeDrawOffers(this.playerId)
+      .subscribe((drawOffer: DrawOffer) => {
         console.log('Получено предложение ничьи:', drawOffer);
         this.handleDrawOffer(drawOffer);
-      }
+      });
+    this.rxSubscriptions.push(subscription);
+  }
+
+  private subscribeToPause() {
+    console.log('🔧 Подписка на события паузы');
+    const subscription = this.webSocketService.observePause(this.playerId)
+      .subscribe((notification: GamePauseNotification) => {
+        console.log('Получено событие паузы:', notification);
+        this.handlePauseNotification(notification);
+      });
+    this.rxSubscriptions.push(subscription);
+  }
+
+  private subscribeToChat() {
+    console.log('🔧 Подписка на чат');
+    this.rxSubscriptions.push(
+      this.webSocketService.observeChat(this.playerId)
+        .subscribe((message: ChatMessageNotification) => this.handleChatMessages([message])),
+      this.webSocketService.observeChatHistory(this.playerId)
+        .subscribe((messages: ChatMessageNotification[]) => this.handleChatMessages(messages, true))
     );
 
-    if (subscription) {
-      this.stompSubscriptions.push(subscription);
-    }
+    this.webSocketService.sendGetChatHistory({
+      gameId: this.gameIdNum,
+      playerId: this.playerId
+    });
+  }
+
+  private subscribeToReactions() {
+    if (!this.reactionsEnabled) return;
+
+    console.log('🔧 Подписка на быстрые реакции');
+    const subscription = this.webSocketService.observeReactions(this.playerId)
+      .subscribe((notification: GameReactionNotification) => this.handleReaction(notification));
+    this.rxSubscriptions.push(subscription);
+  }
+
+  private subscribeToSpectatorCount() {
+    console.log('🔧 Подписка на число зрителей');
+    const subscription = this.webSocketService.observeSpectatorCount(this.playerId)
+      .subscribe(notification => {
+        if (notification.gameId === this.gameIdNum) {
+          this.spectatorCount = notification.spectatorCount;
+        }
+      });
+    this.rxSubscriptions.push(subscription);
   }
 
   ngOnChanges(changes: SimpleChanges) {
     if (changes['gameState']) {
       this.updateStats();
     }
-    if (changes['currentPlayerId'] && changes['currentPlayerId'].currentValue) {
-      this.playerId = changes['currentPlayerId'].currentValue;
-      console.log('🔄 Player ID обновлен через @Input:', this.playerId);
-      // Переподписываемся при изменении playerId
-      this.setupGameSubscriptions();
-    }
   }
 
   ngOnDestroy() {
-    // Отписываемся от RxJS подписок
+    // Отписка от потоков снимает и STOMP подписки
     this.rxSubscriptions.forEach(sub => sub.unsubscribe());
     this.rxSubscriptions = [];
 
-    // Отписываемся от Stomp подписок
-    this.unsubscribeFromStompSubscriptions();
+    clearTimeout(this.focusTimer);
+    clearInterval(this.clockTimer);
+    clearInterval(this.pauseTimer);
+    clearTimeout(this.chatScrollTimer);
+    this.reactionTimers.forEach(timer => clearTimeout(timer));
+    clearTimeout(this.reactionCooldownTimer);
   }
 
-  private unsubscribeFromStompSubscriptions() {
-    this.stompSubscriptions.forEach(sub => {
-      try {
-        if (sub && typeof sub.unsubscribe === 'function') {
-          sub.unsubscribe();
+  // ==================== УПРАВЛЕНИЕ С КЛАВИАТУРЫ ====================
+
+  /**
+   * Проверка, что клетка под клавиатурным курсором
+   */
+  isCursorCell(row: number, col: number): boolean {
+    return isCursorAt(this.cursor, row, col);
+  }
+
+  /**
+   * Перенос курсора на клетку, получившую фокус
+   */
+  onCellFocus(row: number, col: number): void {
+    this.cursor = { row, col };
+  }
+
+  /**
+   * Управление полем соперника с клавиатуры
+   * @description Стрелки, Home/End и PageUp/PageDown двигают курсор, Enter и пробел
+   * стреляют по клетке под курсором (в режиме залпа - отмечают ее), Ctrl+Enter - залп
+   */
+  onBoardKeydown(event: KeyboardEvent): void {
+    const next = moveGridCursor(this.cursor, event.key, this.rules.boardSize);
+    if (next) {
+      event.preventDefault();
+      this.cursor = next;
+      this.focusCursorCell();
+      return;
+    }
+
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey) && this.isSalvo) {
+      event.preventDefault();
+      this.fireSalvo();
+      return;
+    }
+
+    if (GRID_ACTIVATE_KEYS.includes(event.key)) {
+      event.preventDefault();
+      this.onOpponentCellClick(this.cursor.row, this.cursor.col);
+    }
+  }
+
+  onBoardFocusIn(): void {
+    this.boardFocused = true;
+  }
+
+  /**
+   * Потеря фокуса полем
+   * @description Если фокус ушел "в никуда" (relatedTarget = null), например
+   * из-за перерисовки поля или alert, он будет возвращен после обновления состояния
+   */
+  onBoardFocusOut(event: FocusEvent): void {
+    const next = event.relatedTarget as Node | null;
+    if (next && !this.opponentBoard?.nativeElement.contains(next)) {
+      this.boardFocused = false;
+    }
+  }
+
+  /**
+   * Возврат фокуса на клетку под курсором после обновления состояния,
+   * если до этого игрок управлял полем с клавиатуры
+   */
+  private restoreBoardFocus(): void {
+    if (!this.boardFocused) {
+      return;
+    }
+    clearTimeout(this.focusTimer);
+    this.focusTimer = setTimeout(() => {
+      const active = document.activeElement;
+      if (!active || active === document.body || this.opponentBoard?.nativeElement.contains(active)) {
+        this.focusCursorCell();
+      }
+    });
+  }
+
+  /**
+   * Перевод фокуса на клетку под курсором
+   */
+  private focusCursorCell(): void {
+    const { row, col } = this.cursor;
+    this.opponentBoard?.nativeElement
+      .querySelector<HTMLElement>(`.cell[data-row="${row}"][data-col="${col}"]`)
+      ?.focus();
+  }
+
+  // ==================== КОНТРОЛЬ ВРЕМЕНИ ====================
+
+  /**
+   * Синхронизация часов по состоянию от сервера
+   * @description Если ход был пропущен по времени, сервер присылает expiredTurnPlayerId
+   * вместе с состоянием после случайного выстрела
+   */
+  private syncGameClock(gameState: GameStateMessage): void {
+    if (!this.timeControl) return;
+
+    this.clockSync = syncClock(gameState, this.gameState.isMyTurn);
+    this.tickClock();
+
+    if (!gameState.expiredTurnPlayerId) {
+      this.turnExpiredNotice = '';
+    } else if (gameState.expiredTurnPlayerId === this.playerId) {
+      this.turnExpiredNotice = 'Время хода истекло — за вас сделан случайный выстрел';
+    } else {
+      this.turnExpiredNotice = 'Соперник не успел — за него сделан случайный выстрел';
+    }
+  }
+
+  private startClockTimer(): void {
+    if (this.timeControl && !this.clockTimer) {
+      this.clockTimer = setInterval(() => this.tickClock(), CLOCK_TICK_MS);
+    }
+  }
+
+  private tickClock(): void {
+    if (this.timeControl && this.clockSync) {
+      this.clock = readClock(this.clockSync, this.timeControl);
+    }
+  }
+
+  formatClock(ms: number | null): string {
+    return ms === null ? '' : formatClock(ms);
+  }
+
+  isClockLow(ms: number | null): boolean {
+    return ms !== null && ms <= CLOCK_WARNING_MS;
+  }
+
+  // ==================== ПАУЗА ====================
+
+  get canRequestPause(): boolean {
+    return !this.showPausePopup && !this.pauseRequestPending && this.pausesLeft > 0;
+  }
+
+  /**
+   * Запрос паузы у соперника
+   * @description Пауза начинается, когда соперник согласится (сервер присылает PAUSE_STARTED
+   * обоим игрокам), и длится не дольше PAUSE_DURATION_SECONDS
+   */
+  requestPause(): void {
+    if (!this.canRequestPause) return;
+
+    this.pauseRequestPending = true;
+    this.pauseNotice = '';
+    this.sendGameAction({ actionType: 'REQUEST_PAUSE', durationSeconds: PAUSE_DURATION_SECONDS });
+  }
+
+  acceptPause(): void {
+    this.showPauseRequestPopup = false;
+    this.sendGameAction({ actionType: 'ACCEPT_PAUSE' });
+  }
+
+  declinePause(): void {
+    this.showPauseRequestPopup = false;
+    this.sendGameAction({ actionType: 'DECLINE_PAUSE' });
+  }
+
+  /**
+   * Продолжение игры (доступно обоим игрокам)
+   */
+  resumeGame(): void {
+    if (!this.showPausePopup || this.resumeSent) return;
+
+    this.resumeSent = true;
+    this.sendGameAction({ actionType: 'RESUME' });
+  }
+
+  private handlePauseNotification(notification: GamePauseNotification): void {
+    if (typeof notification.pausesLeft === 'number') {
+      this.pausesLeft = notification.pausesLeft;
+    }
+
+    switch (notification.event) {
+      case 'REQUEST_PAUSE':
+        if (notification.fromPlayerId !== this.playerId) {
+          this.showPauseRequestPopup = true;
+        }
+        break;
+      case 'PAUSE_DECLINED':
+        this.pauseRequestPending = false;
+        this.pauseNotice = 'Соперник отказался от паузы';
+        break;
+      case 'PAUSE_STARTED':
+        if (typeof notification.pausesLeft !== 'number' && notification.fromPlayerId === this.playerId) {
+          this.pausesLeft = Math.max(0, this.pausesLeft - 1);
         }
-      } catch (error) {
-        console.warn('Ошибка при отписке от Stomp подписки:', error);
+        this.pausedByMe = notification.fromPlayerId === this.playerId;
+        this.startPause(notification);
+        break;
+      case 'RESUMED':
+        this.finishPause(parseServerTime(notification.serverTime));
+        // Точные показания часов после паузы приходят с состоянием партии
+        this.requestGameState();
+        break;
+    }
+  }
+
+  /**
+   * Пауза по состоянию партии (например, после перезагрузки страницы во время паузы)
+   * @description Состояние во время паузы содержит pausedAt и pausedUntil;
+   * состояние без pausedAt означает, что игра продолжена
+   */
+  private syncPause(gameState: GameStateMessage): void {
+    if (gameState.pausedAt) {
+      this.startPause({
+        serverTime: gameState.serverTime,
+        pausedAt: gameState.pausedAt,
+        pausedUntil: gameState.pausedUntil
+      });
+    } else if (this.showPausePopup) {
+      this.finishPause(parseServerTime(gameState.serverTime));
+    }
+  }
+
+  /**
+   * Начало паузы: блокировка поля, остановка часов и отсчет до продолжения
+   */
+  private startPause(data: { serverTime?: number | string; pausedAt?: number | string; pausedUntil?: number | string }): void {
+    const serverTime = parseServerTime(data.serverTime);
+    const pausedAt = parseServerTime(data.pausedAt) ?? serverTime ?? getServerNow(this.clockSync);
+    const pausedUntil = parseServerTime(data.pausedUntil);
+
+    // Отсчет ведется по часам браузера, поэтому срок переводится из времени сервера
+    this.pauseDeadline = pausedUntil !== null && serverTime !== null
+      ? Date.now() + pausedUntil - serverTime
+      : Date.now() + PAUSE_DURATION_SECONDS * 1000;
+
+    if (this.clockSync) {
+      this.clockSync = pauseClock(this.clockSync, pausedAt);
+      this.tickClock();
+    }
+
+    this.showPausePopup = true;
+    this.showPauseRequestPopup = false;
+    this.pauseRequestPending = false;
+    this.pauseNotice = '';
+    this.resumeSent = false;
+    this.selectedTargets = [];
+
+    clearInterval(this.pauseTimer);
+    this.pauseTimer = setInterval(() => this.tickPause(), CLOCK_TICK_MS);
+    this.tickPause();
+  }
+
+  /**
+   * Конец паузы
+   * @param resumedAt - Время продолжения по часам сервера (если известно)
+   */
+  private finishPause(resumedAt: number | null): void {
+    if (!this.showPausePopup) return;
+
+    clearInterval(this.pauseTimer);
+    this.pauseTimer = null;
+    this.showPausePopup = false;
+    this.resumeSent = false;
+
+    if (this.clockSync) {
+      this.clockSync = resumeClock(this.clockSync, resumedAt ?? getServerNow(this.clockSync));
+      this.tickClock();
+    }
+  }
+
+  /**
+   * Отсчет паузы; по истечении срока отправляется RESUME
+   */
+  private tickPause(): void {
+    this.pauseLeftMs = Math.max(0, this.pauseDeadline - Date.now());
+    if (this.pauseLeftMs === 0) {
+      this.resumeGame();
+    }
+  }
+
+  // ==================== ЧАТ ====================
+
+  toggleChat(): void {
+    this.chatOpen = !this.chatOpen;
+    if (this.chatOpen) {
+      this.unreadCount = 0;
+      this.scrollChatToEnd();
+    }
+  }
+
+  /**
+   * Отправка сообщения
+   * @description Длина и частота сообщений проверяются до отправки;
+   * само сообщение появится в чате, когда сервер разошлет его игрокам
+   */
+  sendChatMessage(): void {
+    const text = normalizeChatText(this.chatInput);
+    const error = validateChatText(text);
+    if (error) {
+      this.chatError = error;
+      return;
+    }
+
+    const now = Date.now();
+    const cooldown = getChatCooldown(this.chatSentAt, now);
+    if (cooldown > 0) {
+      this.chatError = `Слишком часто — подождите ${Math.ceil(cooldown / 1000)} с`;
+      return;
+    }
+    if (!this.gameIdNum || !this.playerId) return;
+
+    this.webSocketService.sendChatMessage({
+      gameId: this.gameIdNum,
+      playerId: this.playerId,
+      text
+    });
+    this.chatSentAt = [...pruneSentTimes(this.chatSentAt, now), now];
+    this.chatInput = '';
+    this.chatError = '';
+  }
+
+  /**
+   * Скрытие сообщений соперника (они не удаляются и появятся после отмены)
+   */
+  toggleMuteOpponent(): void {
+    this.opponentMuted = !this.opponentMuted;
+    if (this.opponentMuted) {
+      this.unreadCount = 0;
+    }
+  }
+
+  isOwnMessage(message: ChatMessage): boolean {
+    return message.playerId === this.playerId;
+  }
+
+  get visibleChatMessages(): ChatMessage[] {
+    return this.opponentMuted
+      ? this.chatMessages.filter(message => this.isOwnMessage(message))
+      : this.chatMessages;
+  }
+
+  get hiddenChatCount(): number {
+    return this.chatMessages.length - this.visibleChatMessages.length;
+  }
+
+  /**
+   * Добавление полученных сообщений
+   * @param isHistory - История при входе в партию не считается непрочитанной
+   */
+  private handleChatMessages(notifications: ChatMessageNotification[], isHistory = false): void {
+    const incoming = notifications
+      .filter(notification => notification.gameId === this.gameIdNum)
+      .map(notification => this.toChatMessage(notification));
+    if (incoming.length === 0) return;
+
+    const known = new Set(this.chatMessages.map(message => message.id));
+    const unread = incoming.filter(message => !known.has(message.id) && !this.isOwnMessage(message));
+    this.chatMessages = mergeChatMessages(this.chatMessages, incoming);
+
+    if (!isHistory && !this.chatOpen && !this.opponentMuted) {
+      this.unreadCount += unread.length;
+    }
+    this.scrollChatToEnd();
+  }
+
+  private toChatMessage(notification: ChatMessageNotification): ChatMessage {
+    const sentAt = parseServerTime(notification.sentAt) ?? Date.now();
+    return {
+      id: String(notification.messageId ?? `${notification.playerId}-${sentAt}`),
+      playerId: notification.playerId,
+      text: notification.text,
+      sentAt
+    };
+  }
+
+  /**
+   * Прокрутка чата к последнему сообщению после отрисовки
+   */
+  private scrollChatToEnd(): void {
+    clearTimeout(this.chatScrollTimer);
+    this.chatScrollTimer = setTimeout(() => {
+      const list = this.chatList?.nativeElement;
+      if (list) {
+        list.scrollTop = list.scrollHeight;
       }
     });
-    this.stompSubscriptions = [];
+  }
+
+  // ==================== БЫСТРЫЕ РЕАКЦИИ ====================
+
+  /**
+   * Отправка реакции сопернику (не чаще REACTION_COOLDOWN_MS)
+   */
+  sendReaction(reaction: GameReaction): void {
+    if (!this.reactionsEnabled || this.reactionCooldown) return;
+
+    this.sendGameAction({ actionType: 'REACTION', reactionId: reaction.id });
+    this.showReaction(reaction, true);
+
+    this.reactionCooldown = true;
+    this.reactionCooldownTimer = setTimeout(() => this.reactionCooldown = false, REACTION_COOLDOWN_MS);
+  }
+
+  private handleReaction(notification: GameReactionNotification): void {
+    const reaction = getReaction(notification.reactionId);
+    if (!this.reactionsEnabled || !reaction || notification.gameId !== this.gameIdNum) return;
+    if (notification.fromPlayerId === this.playerId) return;
+
+    this.showReaction(reaction, false);
+  }
+
+  /**
+   * Показ реакции над полем соперника
+   * @description Реакции появляются в разных местах поля и исчезают
+   * через REACTION_DISPLAY_MS; лишние (сверх MAX_VISIBLE_REACTIONS) убираются сразу
+   */
+  private showReaction(reaction: GameReaction, own: boolean): void {
+    const key = ++this.reactionKey;
+    const flying: FlyingReaction = { key, reaction, own, offset: 15 + (key * 37) % 70 };
+    this.flyingReactions = [...this.flyingReactions, flying].slice(-MAX_VISIBLE_REACTIONS);
+
+    const timer = setTimeout(() => {
+      this.flyingReactions = this.flyingReactions.filter(item => item.key !== key);
+      this.reactionTimers = this.reactionTimers.filter(item => item !== timer);
+    }, REACTION_DISPLAY_MS);
+    this.reactionTimers.push(timer);
+  }
+
+  // ==================== ВВОД КООРДИНАТЫ ====================
+
+  /**
+   * Выстрел по клетке, введенной текстом ("Б7", "б 7" или "b7")
+   * @description Клетка проверяется до отправки, а затем обрабатывается так же,
+   * как клик по полю (в режиме залпа - отмечается для залпа)
+   */
+  fireAtTypedCoordinate(): void {
+    const text = this.coordinateInput.trim();
+    const coord = parseCoordinate(text);
+    if (!coord) {
+      this.coordinateError = 'Введите букву строки и номер столбца, например Б7';
+      return;
+    }
+    if (!isInsideBoard(coord, this.rules.boardSize)) {
+      this.coordinateError = `Клетки ${text.toUpperCase()} нет на поле`;
+      return;
+    }
+    if (this.showPausePopup) {
+      this.coordinateError = 'Игра на паузе';
+      return;
+    }
+    if (!this.isYourTurn) {
+      this.coordinateError = 'Сейчас не ваш ход — дождитесь хода соперника';
+      return;
+    }
+    if (isCellShot(this.opponentField, coord)) {
+      this.coordinateError = `По клетке ${formatCoordinate(coord)} уже стреляли`;
+      return;
+    }
+
+    this.coordinateInput = '';
+    this.coordinateError = '';
+    this.cursor = coord;
+    this.onOpponentCellClick(coord.row, coord.col);
+  }
+
+  // ==================== ЖУРНАЛ ХОДОВ ====================
+
+  /**
+   * Подсветка клетки хода из журнала (повторный клик снимает подсветку)
+   */
+  toggleLogEntry(entry: MoveLogEntry): void {
+    this.highlightedEntry = this.highlightedEntry?.id === entry.id ? null : entry;
+  }
+
+  /**
+   * Проверка, что клетка подсвечена из журнала
+   * @description 'me' - выстрелы игрока (поле соперника), 'opponent' - выстрелы по полю игрока
+   */
+  isHighlightedCell(player: RecordedPlayer, row: number, col: number): boolean {
+    const entry = this.highlightedEntry;
+    return !!entry && entry.player === player && entry.row === row && entry.col === col;
   }
 
   // ==================== УПРАВЛЕНИЕ ИГРОЙ ====================
   offerDraw(): void {
     console.log('Предложение ничьи');
     this.showDrawPopup = true;
-    this.sendGameActionWithData('OFFER_DRAW');
+    this.sendGameAction({ actionType: 'OFFER_DRAW' });
   }
 
   cancelDrawOffer(): void {
     console.log('Отмена предложения ничьи');
     this.showDrawPopup = false;
-    this.sendGameActionWithData('CANCEL_DRAW');
+    this.sendGameAction({ actionType: 'CANCEL_DRAW' });
   }
 
   closeDrawPopup(): void {
@@ -571,13 +1258,13 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
   acceptDraw(): void {
     console.log('Принятие предложения ничьи');
     this.showDrawResponsePopup = false;
-    this.sendGameActionWithData('ACCEPT_DRAW');
+    this.sendGameAction({ actionType: 'ACCEPT_DRAW' });
   }
 
   declineDraw(): void {
     console.log('Отклонение предложения ничьи');
     this.showDrawResponsePopup = false;
-    this.sendGameActionWithData('DECLINE_DRAW');
+    this.sendGameAction({ actionType: 'DECLINE_DRAW' });
   }
 
   surrender(): void {
@@ -588,7 +1275,7 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
   confirmSurrender(): void {
     console.log('Подтверждение сдачи');
     this.showSurrenderPopup = false;
-    this.sendGameActionWithData('SURRENDER');
+    this.sendGameAction({ actionType: 'SURRENDER' });
   }
 
   cancelSurrender(): void {
@@ -596,12 +1283,12 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
     this.showSurrenderPopup = false;
   }
 
-  private handleGameEnd(endNotification: any) {
+  private handleGameEnd(endNotification: GameEndNotification) {
     console.log('🏁 Игра завершена с результатом:', endNotification.result);
     this.showGameResult(endNotification);
   }
 
-  private handleDrawOffer(drawOffer: any) {
+  private handleDrawOffer(drawOffer: DrawOffer) {
     this.showDrawResponsePopup = true;
     // Сохраняем данные о предложении
     const drawOfferData = {
@@ -617,14 +1304,22 @@ export class TwoPlayersFieldComponent implements OnChanges, OnInit, OnDestroy {
     alert('Ошибка игры: ' + message);
   }
 
-  private showGameResult(endNotification: any) {
+  private showGameResult(endNotification: GameEndNotification) {
+    clearInterval(this.clockTimer);
+    clearInterval(this.pauseTimer);
+    // Причина (например, проигрыш по времени) показывается на странице результата
+    const extras = { state: { reason: endNotification.reason } };
+
     // Теперь это сработает, так как бэк пришлет winnerId как число
     if (endNotification.draw) {
+      this.finishRecord('draw');
       this.router.navigate(['/lobby']);
     } else if (endNotification.winnerId === this.playerId) {
-      this.router.navigate(['/win']);
+      this.finishRecord('me');
+      this.router.navigate(['/win'], extras);
     } else {
-      this.router.navigate(['/lose']);
+      this.finishRecord('opponent');
+      this.router.navigate(['/lose'], extras);
     }
   }
 }
@@ -1,11 +1,14 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { Router, RouterModule, ActivatedRoute  } from '@angular/router';
 import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
 import {
   WebSocketService,
   GameStartNotification
 } from '../../services/webSocket.service';
 import { AuthService } from '../../services/auth.service';
+import { GameSessionService } from '../../services/game-session.service';
+import { ConnectionBannerComponent } from '../../components/connection-banner/connection-banner.component';
 /**
  * Компонент страницы ожидания подключения противника
  *
@@ -27,7 +30,7 @@ import { AuthService } from '../../services/auth.service';
 @Component({
   selector: 'app-waiting-page',
   standalone: true,
-  imports: [RouterModule, CommonModule],
+  imports: [RouterModule, CommonModule, ConnectionBannerComponent],
   templateUrl: './waiting-page.component.html',
   styleUrl: './waiting-page.component.scss'
 })
@@ -67,10 +70,12 @@ export class WaitingPageComponent implements OnInit, OnDestroy {
 
   /**
    * Имя приглашенного противника
-   * Получается из query параметров навигации
+   * Получается из сессии текущей партии
    */
   opponentName: string | null = null;
   private wsSubscriptionsInitialized = false;
+  /** Подписки страницы (переживают переподключение, поэтому снимаются при уходе) */
+  private wsSubscriptions: Subscription[] = [];
   /**
    * Флаг истечения времени ожидания
    * Устанавливается true при достижении maxWaitTime
@@ -84,10 +89,9 @@ export class WaitingPageComponent implements OnInit, OnDestroy {
   constructor( private router: Router,
                private route: ActivatedRoute,
                private ws: WebSocketService,
-               private authService: AuthService) {
-    // Получаем имя оппонента из query параметров навигации
-    const navigation = this.router.getCurrentNavigation();
-    this.opponentName = navigation?.extras?.queryParams?.['opponent'] || null;
+               private authService: AuthService,
+               private gameSessionService: GameSessionService) {
+    this.opponentName = this.gameSessionService.session.opponent?.nickname || null;
   }
 
   /**
@@ -120,27 +124,33 @@ export class WaitingPageComponent implements OnInit, OnDestroy {
       this.wsSubscriptionsInitialized = true;
 
       // 1) игра принята — уведомление получают ОБА игрока
-      this.ws.subscribeToGameStart((game: GameStartNotification) => {
+      const startSub = this.ws.observeGameStart().subscribe((game: GameStartNotification) => {
         console.log('WaitingPage: игра начинается', game);
         this.clearAllTimers();
 
-        this.router.navigate(['/placement'], {
-          queryParams: {
-            opponentId: game.opponentId,
-            opponentNickname: game.opponentNickname
+        this.gameSessionService.update({
+          phase: 'placing',
+          opponent: {
+            playerId: game.opponentId,
+            nickname: game.opponentNickname,
+            avatarUrl: game.opponentAvatarUrl
           }
         });
+        this.router.navigate(['/placement']);
       });
 
       // 2) приглашение отклонено — это видит только инициатор
-      this.ws.subscribeToRejection((game: GameStartNotification) => {
+      const rejectionSub = this.ws.observeRejections().subscribe((game: GameStartNotification) => {
         console.log('WaitingPage: приглашение отклонено', game);
         this.clearAllTimers();
+        this.gameSessionService.reset();
 
         this.router.navigate(['/multiplayer'], {
           queryParams: { inviteRejected: true }
         });
       });
+
+      this.wsSubscriptions.push(startSub, rejectionSub);
     };
 
     // если WS ещё не подключен — подключаем и потом вешаем подписки
@@ -168,6 +178,8 @@ export class WaitingPageComponent implements OnInit, OnDestroy {
    */
   ngOnDestroy() {
     this.clearAllTimers();
+    this.wsSubscriptions.forEach(sub => sub.unsubscribe());
+    this.wsSubscriptions = [];
   }
 
   /**
@@ -204,6 +216,7 @@ export class WaitingPageComponent implements OnInit, OnDestroy {
     console.log('Время ожидания истекло');
     this.timeExpired = true;
     this.clearAllTimers();
+    this.gameSessionService.reset();
 
     // Показываем сообщение об истечении времени в течение 2 секунд
     setTimeout(() => {
@@ -221,6 +234,7 @@ export class WaitingPageComponent implements OnInit, OnDestroy {
   cancelWaiting() {
     console.log('Ожидание отменено');
     this.clearAllTimers();
+    this.gameSessionService.reset();
 
     // Возвращаемся в меню мультиплеера
     this.router.navigate(['/multiplayer']);
@@ -0,0 +1,180 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subscription as RxSubscription, pairwise } from 'rxjs';
+import { createEmptyMatrix, getColumnLabels, getRowLabels, resolveNewShots } from '../../engine/battleship.engine';
+import { GameRules } from '../../engine/battleship.model';
+import { DEFAULT_GAME_RULES, isValidGameRules } from '../../engine/game-rules';
+import { GameRecord, createGameRecord, recordShots } from '../../engine/game-record';
+import { MoveLogEntry, buildMoveLog } from '../../engine/move-log';
+import { AuthService } from '../../services/auth.service';
+import {
+  SpectatorBoardDTO,
+  SpectatorGameState,
+  WebSocketService
+} from '../../services/webSocket.service';
+import { ConnectionBannerComponent } from '../../components/connection-banner/connection-banner.component';
+
+/**
+ * Страница просмотра сетевой партии
+ *
+ * Зритель видит оба поля без кораблей (кроме потопленных), журнал ходов
+ * и аватары игроков. Сделать ход или повлиять на партию зритель не может.
+ *
+ * Состояние приходит в общий для зрителей канал /topic/game.spectate/{gameId}
+ * после каждого хода. Журнал строится по разнице состояний, поэтому ходы,
+ * сделанные до входа зрителя, идут в нем одним блоком.
+ */
+@Component({
+  selector: 'app-watch-page',
+  standalone: true,
+  imports: [CommonModule, ConnectionBannerComponent],
+  templateUrl: './watch-page.component.html',
+  styleUrls: ['./watch-page.component.scss']
+})
+export class WatchPageComponent implements OnInit, OnDestroy {
+  gameId = '';
+  state: SpectatorGameState | null = null;
+  rules: GameRules = DEFAULT_GAME_RULES;
+  rows = getRowLabels(this.rules.boardSize);
+  columns = getColumnLabels(this.rules.boardSize);
+
+  moveLog: MoveLogEntry[] = [];
+  connectionError = '';
+
+  private gameIdNum = 0;
+  private playerId = 0;
+  private record: GameRecord | null = null;
+  private previousShots: string[][][] = [];
+  private stateSub: RxSubscription | null = null;
+  private connectionSub: RxSubscription | null = null;
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private authService: AuthService,
+    private webSocketService: WebSocketService
+  ) {}
+
+  ngOnInit(): void {
+    this.gameId = this.route.snapshot.paramMap.get('gameId') ?? '';
+    this.gameIdNum = parseInt(this.gameId, 10);
+    this.playerId = Number(this.authService.getCurrentUser()?.player_id) || 0;
+
+    if (!this.gameIdNum || !this.playerId) {
+      this.connectionError = 'Войдите в аккаунт, чтобы смотреть партии';
+      return;
+    }
+
+    // Пока соединения нет, о нем сообщает баннер, а сервис переподключается сам
+    if (!this.webSocketService.isConnected()) {
+      this.webSocketService.connect(this.playerId)
+        .catch(err => console.error('Не удалось подключиться к WS для просмотра партии:', err));
+    }
+
+    // При каждом появлении соединения (в том числе после обрыва) входим зрителем заново
+    this.connectionSub = this.webSocketService.connectionState$
+      .pipe(pairwise())
+      .subscribe(([previous, current]) => {
+        if (previous !== 'online' && current === 'online') {
+          this.sendWatch();
+        }
+      });
+
+    this.startWatching();
+  }
+
+  ngOnDestroy(): void {
+    this.connectionSub?.unsubscribe();
+    if (this.gameIdNum && this.playerId) {
+      this.webSocketService.sendStopWatching({ gameId: this.gameIdNum, playerId: this.playerId });
+    }
+    this.stateSub?.unsubscribe();
+  }
+
+  /**
+   * Подписка на состояние партии и вход зрителем
+   * @description Подписка оформляется и без соединения - сервис выполнит ее при подключении
+   */
+  private startWatching(): void {
+    this.stateSub = this.webSocketService.observeSpectatorState(this.gameIdNum)
+      .subscribe((state: SpectatorGameState) => this.updateState(state));
+
+    if (this.webSocketService.isConnected()) {
+      this.sendWatch();
+    }
+  }
+
+  private sendWatch(): void {
+    this.webSocketService.sendWatchGame({ gameId: this.gameIdNum, playerId: this.playerId });
+  }
+
+  private updateState(state: SpectatorGameState): void {
+    if (state.gameId !== this.gameIdNum || state.players?.length !== 2) return;
+
+    if (!this.state && state.rules && isValidGameRules(state.rules)) {
+      this.rules = state.rules;
+      this.rows = getRowLabels(this.rules.boardSize);
+      this.columns = getColumnLabels(this.rules.boardSize);
+    }
+    this.state = state;
+    this.recordMoves(state.players);
+  }
+
+  /**
+   * Журнал ходов по новым выстрелам
+   * @description В записи первый игрок - 'me', второй - 'opponent';
+   * выстрелы по полю второго игрока сделаны первым и наоборот
+   */
+  private recordMoves([first, second]: SpectatorBoardDTO[]): void {
+    if (!this.record) {
+      this.record = createGameRecord(this.gameId, 'online', this.rules.boardSize, first.nickname, second.nickname);
+      this.previousShots = [createEmptyMatrix(this.rules.boardSize), createEmptyMatrix(this.rules.boardSize)];
+    }
+
+    this.record.myField = first.sunkShips;
+    recordShots(this.record, 'me', resolveNewShots(this.previousShots[1], second.shots, second.sunkShips));
+    recordShots(this.record, 'opponent', resolveNewShots(this.previousShots[0], first.shots, first.sunkShips));
+    this.previousShots = [first.shots, second.shots];
+
+    this.moveLog = buildMoveLog(this.record, this.rules.shipTypes, second.sunkShips).reverse();
+  }
+
+  goToLobby(): void {
+    this.router.navigate(['/lobby']);
+  }
+
+  // ==================== ГЕТТЕРЫ ДЛЯ ШАБЛОНА ====================
+
+  get players(): SpectatorBoardDTO[] {
+    return this.state?.players ?? [];
+  }
+
+  get statusText(): string {
+    if (!this.state) {
+      return 'Подключение к партии...';
+    }
+    if (this.state.finished) {
+      const winner = this.players.find(player => player.playerId === this.state!.winnerId);
+      return winner ? `Партия окончена — победил ${winner.nickname}` : 'Партия окончена';
+    }
+    const current = this.players.find(player => player.playerId === this.state!.currentTurnPlayerId);
+    return current ? `Ходит ${current.nickname}` : 'Партия идет';
+  }
+
+  isCurrentTurn(player: SpectatorBoardDTO): boolean {
+    return !this.state?.finished && player.playerId === this.state?.currentTurnPlayerId;
+  }
+
+  isSunkCell(board: SpectatorBoardDTO, row: number, col: number): boolean {
+    return board.sunkShips?.[row]?.[col] === 'S';
+  }
+
+  getAvatarPath(avatarUrl: string | null): string {
+    return avatarUrl ? `/assets/avatars/${avatarUrl}` : '';
+  }
+
+  getInitials(nickname: string): string {
+    return nickname ? nickname.charAt(0).toUpperCase() : '?';
+  }
+}
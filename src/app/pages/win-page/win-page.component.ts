@@ -1,6 +1,7 @@
 import { Component, OnInit } from '@angular/core';
 import { Router, RouterModule } from '@angular/router';
 import { CommonModule } from '@angular/common';
+import { GameRecordService } from '../../services/game-record.service';
 
 /**
  * Компонент страницы победы в игре "Морской бой"
@@ -21,6 +22,11 @@ import { CommonModule } from '@angular/common';
   styleUrl: './win-page.component.scss'
 })
 export class WinPageComponent implements OnInit {
+  /** Идентификатор записи только что закончившейся партии (null - записи нет) */
+  replayGameId: string | null = this.gameRecordService.getLatestRecord()?.gameId ?? null;
+
+  /** Партия закончилась по времени (причина передается игровой страницей через history.state) */
+  endedOnTime: boolean = history.state?.reason === 'TIMEOUT';
 
   /**
    * Конструктор компонента
@@ -30,7 +36,10 @@ export class WinPageComponent implements OnInit {
    * - Внедрение зависимости маршрутизатора для управления навигацией
    * - Подготовка к переходу между игровыми состояниями
    */
-  constructor(private router: Router) {}
+  constructor(
+    private router: Router,
+    private gameRecordService: GameRecordService
+  ) {}
 
   /**
    * Метод инициализации компонента
@@ -61,6 +70,15 @@ export class WinPageComponent implements OnInit {
     this.router.navigate(['/lobby']);
   }
 
+  /**
+   * Переход к повтору только что закончившейся партии
+   */
+  watchReplay() {
+    if (this.replayGameId) {
+      this.router.navigate(['/replay', this.replayGameId]);
+    }
+  }
+
   /**
    * Запуск анимационных эффектов победы
    * 
@@ -0,0 +1,50 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { GameRules } from '../engine/battleship.model';
+
+/**
+ * Незаконченная сетевая партия текущего игрока
+ * @interface ActiveGame
+ * @property {number} gameId - Идентификатор партии
+ * @property {number} opponentId - Идентификатор соперника
+ * @property {string} opponentNickname - Никнейм соперника
+ * @property {string | null} opponentAvatarUrl - Аватар соперника
+ * @property {boolean} isMyTurn - Сейчас ход текущего игрока
+ * @property {GameRules} [rules] - Правила партии (нет - классические)
+ * @property {string} startedAt - Время начала партии (ISO 8601)
+ */
+export interface ActiveGame {
+  gameId: number;
+  opponentId: number;
+  opponentNickname: string;
+  opponentAvatarUrl: string | null;
+  isMyTurn: boolean;
+  rules?: GameRules;
+  startedAt: string;
+}
+
+/**
+ * Сервис незаконченных сетевых партий
+ *
+ * Сервер хранит партии, начатые текущим пользователем (он определяется
+ * по JWT токену), поэтому вернуться в партию можно после перезагрузки
+ * страницы или с другого устройства.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ActiveGameService {
+  /** Базовый URL API партий */
+  private readonly API_URL = `${environment.apiUrl}/api/games`;
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Незаконченные партии текущего пользователя (новые первыми)
+   */
+  getActiveGames(): Observable<ActiveGame[]> {
+    return this.http.get<ActiveGame[]>(`${this.API_URL}/active`);
+  }
+}
@@ -4,6 +4,7 @@ import { Observable, BehaviorSubject, throwError } from 'rxjs';
 import { Router } from '@angular/router';
 import { catchError, tap } from 'rxjs/operators';
 import { environment } from '../../environments/environment';
+import { GameSessionService } from './game-session.service';
 
 /**
  * Интерфейс для представления данных пользователя в системе
@@ -99,7 +100,8 @@ export class AuthService {
 
   constructor(
     private http: HttpClient,
-    private router: Router
+    private router: Router,
+    private gameSessionService: GameSessionService
   ) {}
 
   /**
@@ -143,7 +145,7 @@ export class AuthService {
    * 1. Отправка запроса на сервер для установки статуса offline
    * 2. Удаление токена и данных пользователя из localStorage
    * 3. Обновление состояния авторизации на false
-   * 4. Сброс данных текущего пользователя
+   * 4. Сброс данных текущего пользователя и его текущей партии
    * 5. Перенаправление на страницу входа
    *
    * Вызывается при клике на "Выйти" или при истечении сессии
@@ -166,6 +168,7 @@ export class AuthService {
     localStorage.removeItem(this.USER_KEY);
     this.authState.next(false);
     this.currentUserSubject.next(null);
+    this.gameSessionService.reset();
     this.router.navigate(['/']);
   }
 
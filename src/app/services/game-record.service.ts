@@ -0,0 +1,64 @@
+import { Injectable } from '@angular/core';
+import { GameRecord, isValidGameRecord } from '../engine/game-record';
+
+/**
+ * Сервис записей партий
+ *
+ * Игровые страницы дописывают в запись каждый ход, а страница /replay/:gameId
+ * воспроизводит ее. Записи хранятся в localStorage браузера, в котором шла игра;
+ * хранится не больше MAX_STORED_RECORDS последних партий.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GameRecordService {
+  /** Ключ записей в localStorage */
+  private readonly STORAGE_KEY = 'battleshipGameRecords';
+
+  /** Сколько последних партий хранится */
+  private readonly MAX_STORED_RECORDS = 20;
+
+  /**
+   * Все записи, начиная с последней начатой партии
+   */
+  getRecords(): GameRecord[] {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY);
+      const parsed = saved ? JSON.parse(saved) : [];
+      return Array.isArray(parsed) ? parsed.filter(isValidGameRecord) : [];
+    } catch (error) {
+      console.error('Не удалось прочитать записи партий из localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Запись партии по идентификатору
+   */
+  getRecord(gameId: string): GameRecord | null {
+    return this.getRecords().find(record => record.gameId === gameId) ?? null;
+  }
+
+  /**
+   * Запись последней начатой партии
+   */
+  getLatestRecord(): GameRecord | null {
+    return this.getRecords()[0] ?? null;
+  }
+
+  /**
+   * Сохранение записи (новая запись становится первой, старые сверх лимита удаляются)
+   */
+  saveRecord(record: GameRecord): void {
+    const others = this.getRecords().filter(saved => saved.gameId !== record.gameId);
+    const records = [record, ...others]
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .slice(0, this.MAX_STORED_RECORDS);
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(records));
+    } catch (error) {
+      console.error('Не удалось сохранить запись партии:', error);
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import { Injectable } from '@angular/core';
+import { BoardLayoutDTO, GameRules } from '../engine/battleship.model';
+import { DEFAULT_GAME_RULES, isValidGameRules } from '../engine/game-rules';
+import { AiDifficulty, isAiDifficulty } from '../engine/ai-opponent';
+import { ComputerStrategy, isComputerStrategy } from './models/computer.model';
+
+/** Режим партии */
+export type GameMode = 'SINGLE_PLAYER' | 'MULTIPLAYER';
+
+/**
+ * Этап партии: inviting - приглашение отправлено, placing - расстановка,
+ * playing - партия идет, finished - партия окончена
+ */
+export type GamePhase = 'inviting' | 'placing' | 'playing' | 'finished';
+
+const GAME_MODES: GameMode[] = ['SINGLE_PLAYER', 'MULTIPLAYER'];
+const GAME_PHASES: GamePhase[] = ['inviting', 'placing', 'playing', 'finished'];
+
+/**
+ * Соперник в сетевой партии
+ * @interface SessionOpponent
+ * @property {number | null} playerId - Идентификатор соперника
+ * @property {string} nickname - Никнейм соперника
+ * @property {string | null} avatarUrl - Аватар соперника
+ */
+export interface SessionOpponent {
+  playerId: number | null;
+  nickname: string;
+  avatarUrl: string | null;
+}
+
+/**
+ * Компьютерный соперник в одиночной игре
+ * @interface SessionAiOpponent
+ * @property {AiDifficulty} difficulty - Уровень сложности
+ * @property {ComputerStrategy} computerStrategy - Стратегия расстановки кораблей компьютера
+ * @property {boolean} offline - Игра без сервера (ходы ИИ считаются в браузере)
+ */
+export interface SessionAiOpponent {
+  difficulty: AiDifficulty;
+  computerStrategy: ComputerStrategy;
+  offline: boolean;
+}
+
+/**
+ * Текущая партия
+ * @interface GameSession
+ * @property {GameMode | null} mode - Режим партии (null - партии нет)
+ * @property {GamePhase | null} phase - Этап партии
+ * @property {number | null} gameId - Идентификатор партии на сервере (известен после начала)
+ * @property {SessionOpponent | null} opponent - Соперник в сетевой партии
+ * @property {SessionAiOpponent | null} ai - Компьютерный соперник в одиночной игре
+ * @property {GameRules} rules - Правила партии
+ * @property {BoardLayoutDTO | null} layout - Расстановка игрока (после подтверждения)
+ */
+export interface GameSession {
+  mode: GameMode | null;
+  phase: GamePhase | null;
+  gameId: number | null;
+  opponent: SessionOpponent | null;
+  ai: SessionAiOpponent | null;
+  rules: GameRules;
+  layout: BoardLayoutDTO | null;
+}
+
+/** Пустая сессия: партии нет, правила классические */
+const EMPTY_GAME_SESSION: GameSession = {
+  mode: null,
+  phase: null,
+  gameId: null,
+  opponent: null,
+  ai: null,
+  rules: DEFAULT_GAME_RULES,
+  layout: null
+};
+
+/**
+ * Сервис текущей партии
+ *
+ * Единственное место, через которое страницы лобби, приглашения, ожидания,
+ * расстановки и игры передают друг другу режим, соперника, идентификатор
+ * партии, правила, расстановку и этап. Игрок не хранится: его дает AuthService.
+ *
+ * Сессия сохраняется в sessionStorage, поэтому переживает перезагрузку
+ * страницы, но не переходит в другие вкладки.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GameSessionService {
+  /** Ключ сессии в sessionStorage */
+  private readonly STORAGE_KEY = 'battleshipGameSession';
+
+  private currentSession: GameSession = this.loadSession();
+
+  get session(): GameSession {
+    return this.currentSession;
+  }
+
+  /**
+   * Правила текущей партии
+   */
+  get rules(): GameRules {
+    return this.currentSession.rules;
+  }
+
+  /**
+   * Начало новой партии: прежние соперник, партия и расстановка забываются
+   */
+  start(mode: GameMode, phase: GamePhase, changes: Partial<GameSession> = {}): void {
+    this.save({ ...EMPTY_GAME_SESSION, rules: this.currentSession.rules, mode, phase, ...changes });
+  }
+
+  /**
+   * Изменение сессии (переданные поля заменяют текущие)
+   */
+  update(changes: Partial<GameSession>): void {
+    this.save({ ...this.currentSession, ...changes });
+  }
+
+  /**
+   * Установка правил для следующей партии
+   * @throws {Error} Если правила некорректны
+   */
+  setRules(rules: GameRules): void {
+    if (!isValidGameRules(rules)) {
+      throw new Error('Некорректные правила игры');
+    }
+    this.update({ rules });
+  }
+
+  /**
+   * Сброс сессии: партии нет, правила классические
+   */
+  reset(): void {
+    this.currentSession = EMPTY_GAME_SESSION;
+    sessionStorage.removeItem(this.STORAGE_KEY);
+  }
+
+  private save(session: GameSession): void {
+    this.currentSession = session;
+    try {
+      sessionStorage.setItem(this.STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.error('Не удалось сохранить партию в sessionStorage:', error);
+    }
+  }
+
+  /**
+   * Чтение сессии из sessionStorage
+   * @description Некорректные поля заменяются значениями пустой сессии
+   */
+  private loadSession(): GameSession {
+    try {
+      const saved = sessionStorage.getItem(this.STORAGE_KEY);
+      const parsed = saved ? JSON.parse(saved) : null;
+      if (!parsed || typeof parsed !== 'object') {
+        return EMPTY_GAME_SESSION;
+      }
+
+      return {
+        mode: GAME_MODES.includes(parsed.mode) ? parsed.mode : null,
+        phase: GAME_PHASES.includes(parsed.phase) ? parsed.phase : null,
+        gameId: typeof parsed.gameId === 'number' && parsed.gameId > 0 ? parsed.gameId : null,
+        opponent: this.parseOpponent(parsed.opponent),
+        ai: this.parseAiOpponent(parsed.ai),
+        rules: isValidGameRules(parsed.rules) ? parsed.rules : DEFAULT_GAME_RULES,
+        layout: parsed.layout && Array.isArray(parsed.layout.ships) ? parsed.layout : null
+      };
+    } catch {
+      return EMPTY_GAME_SESSION;
+    }
+  }
+
+  private parseOpponent(value: unknown): SessionOpponent | null {
+    if (typeof value !== 'object' || value === null) {
+      return null;
+    }
+    const { playerId, nickname, avatarUrl }: Partial<Record<keyof SessionOpponent, unknown>> = value;
+    if (typeof nickname !== 'string') {
+      return null;
+    }
+    return {
+      playerId: typeof playerId === 'number' ? playerId : null,
+      nickname,
+      avatarUrl: typeof avatarUrl === 'string' ? avatarUrl : null
+    };
+  }
+
+  private parseAiOpponent(value: unknown): SessionAiOpponent | null {
+    if (typeof value !== 'object' || value === null) {
+      return null;
+    }
+    const { difficulty, computerStrategy, offline }: Partial<Record<keyof SessionAiOpponent, unknown>> = value;
+    if (!isAiDifficulty(difficulty) || !isComputerStrategy(computerStrategy)) {
+      return null;
+    }
+    return {
+      difficulty,
+      computerStrategy,
+      offline: offline === true
+    };
+  }
+}
@@ -1,8 +1,22 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Observable } from 'rxjs';
-import { GameResponse, GameState, ShipPlacement } from './models/game.model';
-import { ComputerStrategy } from './models/computer.model';
+import { environment } from '../../environments/environment';
+import { Coordinate } from '../engine/battleship.model';
+import { toSalvoShots } from '../engine/battleship.engine';
+import { AiDifficulty } from '../engine/ai-opponent';
+import { AiGameState, CreateAiGameRequest, GameResponse, GameState, ShipPlacement } from './models/game.model';
+
+/**
+ * Идентификаторы уровней сложности в API игр против ИИ
+ * @description Сервер знает уровни по идентификаторам прежнего лобби (easy, medium, captain),
+ * уровни клиентского ИИ переводятся в них по возрастанию сложности
+ */
+const AI_DIFFICULTY_API_IDS: Record<AiDifficulty, string> = {
+  sailor: 'easy',
+  captain: 'medium',
+  admiral: 'captain'
+};
 
 @Injectable({
   providedIn: 'root'
@@ -10,11 +24,59 @@ import { ComputerStrategy } from './models/computer.model';
 export class GameService {
   private apiUrl = '/api/singleplayer';
 
+  /** Базовый URL API игр против ИИ */
+  private readonly AI_GAME_URL = `${environment.apiUrl}/api/ai/game`;
+
   constructor(private http: HttpClient) { }
 
-  createSinglePlayerGame(strategy: ComputerStrategy): Observable<GameResponse> {
-    return this.http.post<GameResponse>(`${this.apiUrl}/new`, {
-      computerStrategy: strategy
+  /**
+   * Создание игры против ИИ на сервере
+   * @returns {Observable<AiGameState>} Начальное состояние созданной игры
+   */
+  createSinglePlayerGame(request: CreateAiGameRequest): Observable<AiGameState> {
+    return this.http.post<AiGameState>(`${this.AI_GAME_URL}/create`, {
+      ...request,
+      difficulty: AI_DIFFICULTY_API_IDS[request.difficulty],
+      gameType: 'SINGLEPLAYER'
+    });
+  }
+
+  /**
+   * Выстрел игрока в игре против ИИ
+   */
+  makeAiGameMove(gameId: number, playerId: number, row: number, col: number): Observable<AiGameState> {
+    return this.http.post<AiGameState>(`${this.AI_GAME_URL}/${gameId}/move`, {
+      playerId,
+      row,
+      col
+    });
+  }
+
+  /**
+   * Залп игрока в игре против ИИ (режим 'salvo')
+   */
+  fireAiGameSalvo(gameId: number, playerId: number, shots: Coordinate[]): Observable<AiGameState> {
+    return this.http.post<AiGameState>(`${this.AI_GAME_URL}/${gameId}/salvo`, {
+      playerId,
+      shots: toSalvoShots(shots)
+    });
+  }
+
+  /**
+   * Текущее состояние игры против ИИ
+   */
+  getAiGameState(gameId: number, playerId: number): Observable<AiGameState> {
+    return this.http.get<AiGameState>(`${this.AI_GAME_URL}/${gameId}/state`, {
+      params: { playerId: playerId.toString() }
+    });
+  }
+
+  /**
+   * Сдача в игре против ИИ
+   */
+  surrenderAiGame(gameId: number, playerId: number): Observable<unknown> {
+    return this.http.post(`${this.AI_GAME_URL}/${gameId}/surrender`, null, {
+      params: { playerId: playerId.toString() }
     });
   }
 
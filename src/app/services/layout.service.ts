@@ -0,0 +1,206 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, defer, from, of } from 'rxjs';
+import { concatMap, finalize, reduce, tap } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { Coordinate, GameRules, Ship, ShipPlacement } from '../engine/battleship.model';
+import { ROW_LABELS, fleetToShipPlacements } from '../engine/battleship.engine';
+import { DEFAULT_GAME_RULES, isValidGameRules } from '../engine/game-rules';
+
+/**
+ * Сохраненная расстановка в формате сервера
+ * @interface SavedLayout
+ * @property {number} id - Идентификатор расстановки на сервере
+ * @property {string} name - Название расстановки
+ * @property {string} createdAt - Дата создания (ISO 8601)
+ * @property {ShipPlacement[]} ships - Размещенные корабли
+ * @property {GameRules} [rules] - Правила, для которых сделана расстановка (нет - классические)
+ */
+export interface SavedLayout {
+  id: number;
+  name: string;
+  createdAt: string;
+  ships: ShipPlacement[];
+  rules?: GameRules;
+}
+
+/**
+ * Запрос на создание расстановки
+ * @interface SaveLayoutRequest
+ * @property {string} name - Название расстановки
+ * @property {ShipPlacement[]} ships - Размещенные корабли
+ * @property {GameRules} rules - Правила, для которых сделана расстановка
+ * @property {string} [createdAt] - Исходная дата создания (при переносе из браузера)
+ */
+export interface SaveLayoutRequest {
+  name: string;
+  ships: ShipPlacement[];
+  rules: GameRules;
+  createdAt?: string;
+}
+
+/**
+ * Корабль расстановки, сохраненной в localStorage
+ * @interface LegacyShip
+ * @description Первые версии хранили клетку как букву строки и номер столбца с 1,
+ * более поздние - как индексы строки и столбца (Coordinate)
+ */
+interface LegacyShip extends Omit<Ship, 'positions'> {
+  positions: Array<Coordinate | { row: string; col: number }>;
+}
+
+/**
+ * Расстановка, сохраненная в localStorage под ключом battleshipPlacements_<userId>
+ * @interface LegacyLayout
+ * @property {number} id - Идентификатор расстановки в браузере
+ * @property {string} name - Название расстановки
+ * @property {string} date - Дата создания (Date после JSON.stringify)
+ * @property {LegacyShip[]} ships - Корабли расстановки
+ * @property {GameRules} [rules] - Правила, для которых сделана расстановка (нет - классические)
+ */
+interface LegacyLayout {
+  id: number;
+  name: string;
+  date: string;
+  ships: LegacyShip[];
+  rules?: GameRules;
+}
+
+/**
+ * Сервис сохраненных расстановок кораблей
+ *
+ * Расстановки хранятся на сервере и привязаны к текущему пользователю
+ * (он определяется по JWT токену), поэтому доступны с любого устройства
+ * и учитываются в статистике savedLayouts.
+ *
+ * Раньше расстановки хранились только в localStorage браузера
+ * под ключом battleshipPlacements_<userId>. Такие расстановки один раз
+ * переносятся на сервер через migrateLocalLayouts.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LayoutService {
+  /** Базовый URL API расстановок */
+  private readonly API_URL = `${environment.apiUrl}/api/layouts`;
+
+  /** Префикс ключа старых расстановок в localStorage */
+  private readonly LEGACY_STORAGE_PREFIX = 'battleshipPlacements_';
+
+  /** Ключи localStorage, перенос которых сейчас идет */
+  private readonly migratingKeys = new Set<string>();
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Список расстановок текущего пользователя
+   */
+  getLayouts(): Observable<SavedLayout[]> {
+    return this.http.get<SavedLayout[]>(this.API_URL);
+  }
+
+  /**
+   * Создание расстановки
+   * @returns {Observable<SavedLayout>} Сохраненная расстановка с идентификатором сервера
+   */
+  createLayout(request: SaveLayoutRequest): Observable<SavedLayout> {
+    return this.http.post<SavedLayout>(this.API_URL, request);
+  }
+
+  /**
+   * Переименование расстановки
+   */
+  renameLayout(id: number, name: string): Observable<SavedLayout> {
+    return this.http.patch<SavedLayout>(`${this.API_URL}/${id}`, { name });
+  }
+
+  /**
+   * Удаление расстановки
+   */
+  deleteLayout(id: number): Observable<void> {
+    return this.http.delete<void>(`${this.API_URL}/${id}`);
+  }
+
+  // ==================== ПЕРЕНОС ИЗ LOCALSTORAGE ====================
+
+  /**
+   * Перенос расстановок из localStorage на сервер
+   * @description Ключ остается в localStorage до конца переноса: после каждой
+   * сохраненной на сервере расстановки в нем перезаписываются оставшиеся, а удаляется
+   * он, когда перенесены все. Поэтому при ошибке, закрытии вкладки или отписке
+   * непереданные расстановки будут перенесены при следующем вызове.
+   * Пока перенос для ключа идет, повторный вызов ничего не делает
+   * @param {number | string} userId - Идентификатор пользователя из ключа localStorage
+   * @returns {Observable<number>} Количество перенесенных расстановок
+   */
+  migrateLocalLayouts(userId: number | string): Observable<number> {
+    return defer(() => {
+      const key = `${this.LEGACY_STORAGE_PREFIX}${userId}`;
+      if (this.migratingKeys.has(key)) {
+        return of(0);
+      }
+
+      const legacy = this.readLegacyLayouts(key);
+      if (legacy.length === 0) {
+        localStorage.removeItem(key);
+        return of(0);
+      }
+
+      this.migratingKeys.add(key);
+      let remaining = legacy;
+      return from(legacy).pipe(
+        concatMap(placement => this.createLayout(this.toSaveRequest(placement))),
+        tap(() => {
+          remaining = remaining.slice(1);
+          if (remaining.length > 0) {
+            localStorage.setItem(key, JSON.stringify(remaining));
+          } else {
+            localStorage.removeItem(key);
+          }
+        }),
+        reduce(count => count + 1, 0),
+        finalize(() => this.migratingKeys.delete(key))
+      );
+    });
+  }
+
+  /**
+   * Чтение старых расстановок из localStorage
+   * @private
+   * @returns {LegacyLayout[]} Расстановки в том виде, в котором их сохранял браузер
+   */
+  private readLegacyLayouts(key: string): LegacyLayout[] {
+    try {
+      const saved = localStorage.getItem(key);
+      const parsed: unknown = saved ? JSON.parse(saved) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Не удалось прочитать расстановки из localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Преобразование старой расстановки в запрос на создание
+   * @private
+   * @description Старые расстановки хранили позиции как букву строки и номер столбца с 1
+   */
+  private toSaveRequest(placement: LegacyLayout): SaveLayoutRequest {
+    const ships: Ship[] = (placement.ships || []).map(ship => ({
+      ...ship,
+      positions: (ship.positions || []).map(pos =>
+        typeof pos.row === 'string'
+          ? { row: ROW_LABELS.indexOf(pos.row), col: pos.col - 1 }
+          : { row: pos.row, col: pos.col }
+      )
+    }));
+    const date = new Date(placement.date);
+
+    return {
+      name: placement.name || 'Расстановка',
+      ships: fleetToShipPlacements(ships),
+      rules: isValidGameRules(placement.rules) ? placement.rules : DEFAULT_GAME_RULES,
+      createdAt: isNaN(date.getTime()) ? undefined : date.toISOString()
+    };
+  }
+}
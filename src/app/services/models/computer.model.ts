@@ -1 +1,20 @@
-export type ComputerStrategy = 'coastal' | 'diagonal' | 'half_left' | 'half_right';
+import {
+  PlacementStrategyId,
+  findPlacementStrategy,
+  getStrategyName,
+  isPlacementStrategyId
+} from '../../engine/placement-strategies';
+
+// Стратегия расстановки кораблей компьютера - идентификатор из реестра стратегий расстановки
+export type ComputerStrategy = PlacementStrategyId;
+
+// Встроенная стратегия, она регистрируется при загрузке реестра
+export const DEFAULT_COMPUTER_STRATEGY: ComputerStrategy = findPlacementStrategy('coastal')!.id;
+
+export function isComputerStrategy(value: unknown): value is ComputerStrategy {
+  return isPlacementStrategyId(value);
+}
+
+export function getComputerStrategyName(strategy: ComputerStrategy): string {
+  return getStrategyName(strategy);
+}
@@ -1,3 +1,7 @@
+import { BoardLayoutDTO, GameRules } from '../../engine/battleship.model';
+import { AiDifficulty } from '../../engine/ai-opponent';
+import { ComputerStrategy } from './computer.model';
+
 export interface GameState {
   status: 'WAITING' | 'ACTIVE' | 'COMPLETED';
   currentPlayer: 'HUMAN' | 'COMPUTER';
@@ -16,3 +20,29 @@ export interface GameResponse {
 export interface ShipPlacement {
   placementMatrix: string[][];
 }
+
+export interface AiGameState {
+  gameId: number;
+  playerId: number;
+  playerField: string[][];
+  opponentField: string[][];
+  playerHits: string[][];
+  opponentHits: string[][];
+  opponentSunkShips?: string[][];
+  playerShipsLeft: number;
+  opponentShipsLeft: number;
+  playerTurn: boolean;
+  gameOver: boolean;
+  winner: string;
+  lastAIShot?: number[];
+  lastAIShotHit?: boolean;
+  message?: string;
+}
+
+export interface CreateAiGameRequest {
+  playerId: number;
+  boardLayout: BoardLayoutDTO;
+  difficulty: AiDifficulty;
+  computerStrategy: ComputerStrategy;
+  rules: GameRules;
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Настройки игрока
+ * @interface PlayerSettings
+ * @property {boolean} reactionsEnabled - Показывать быстрые реакции в сетевых партиях
+ */
+export interface PlayerSettings {
+  reactionsEnabled: boolean;
+}
+
+/** Настройки по умолчанию */
+const DEFAULT_PLAYER_SETTINGS: PlayerSettings = {
+  reactionsEnabled: true
+};
+
+/**
+ * Сервис настроек игрока
+ *
+ * Настройки относятся к браузеру и хранятся в localStorage;
+ * меняются на странице профиля.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PlayerSettingsService {
+  /** Ключ настроек в localStorage */
+  private readonly STORAGE_KEY = 'battleshipPlayerSettings';
+
+  private currentSettings: PlayerSettings = this.loadSettings();
+
+  get settings(): PlayerSettings {
+    return this.currentSettings;
+  }
+
+  /**
+   * Изменение настроек (переданные поля заменяют текущие)
+   */
+  update(changes: Partial<PlayerSettings>): void {
+    this.currentSettings = { ...this.currentSettings, ...changes };
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.currentSettings));
+    } catch (error) {
+      console.error('Не удалось сохранить настройки в localStorage:', error);
+    }
+  }
+
+  private loadSettings(): PlayerSettings {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY);
+      const parsed = saved ? JSON.parse(saved) : null;
+      return {
+        ...DEFAULT_PLAYER_SETTINGS,
+        ...(parsed && typeof parsed.reactionsEnabled === 'boolean' ? { reactionsEnabled: parsed.reactionsEnabled } : {})
+      };
+    } catch {
+      return DEFAULT_PLAYER_SETTINGS;
+    }
+  }
+}
@@ -1,13 +1,19 @@
 import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subscriber, map, tap } from 'rxjs';
 import SockJS from 'sockjs-client';
 import * as Stomp from 'webstomp-client';
 import { environment } from '../../environments/environment';
+import { BoardLayoutDTO, FiringMode, GameRules, SalvoShotDTO, ShipContact, TimeControl } from '../engine/battleship.model';
+import { ServerClockState } from '../engine/game-clock';
 
 export interface GameInvitationRequest {
   inviterId: number;
   opponentId: number;
   inviterNickname: string;
   inviterAvatarUrl: string | null;
+  firingMode?: FiringMode;
+  shipContact?: ShipContact;
+  timeControl?: TimeControl;
 }
 
 export interface GameInvitationResponse {
@@ -16,6 +22,9 @@ export interface GameInvitationResponse {
   inviterNickname: string;
   inviterAvatarUrl: string | null;
   timestamp: string;
+  firingMode?: FiringMode;
+  shipContact?: ShipContact;
+  timeControl?: TimeControl;
 }
 
 export interface GameStartNotification {
@@ -26,29 +35,113 @@ export interface GameStartNotification {
   currentTurnPlayerId?: number | null;
 }
 
-export interface GameDecisionRequest {
-  inviterId: number;
-  opponentId: number;
+// Причина завершения партии: TIMEOUT - проигрыш по времени (истекли общие часы
+// или время на ход при действии 'forfeit')
+export type GameEndReason = 'FLEET_DESTROYED' | 'SURRENDER' | 'DRAW' | 'TIMEOUT';
+
+export interface GameEndNotification {
+  gameId: number;
+  winnerId: number | null;
+  draw?: boolean;
+  result?: string;
+  reason?: GameEndReason;
 }
 
-export interface ShipPlacement {
-  shipId: number;
-  size: number;
-  row: number;
-  col: number;
-  vertical: boolean;
+// Состояние партии для игрока: поля, часы (ServerClockState) и пауза.
+// Необязательные поля сервер присылает, только когда они есть
+export interface GameStateMessage extends ServerClockState {
+  gameId: number;
+  myField: string[][];        // Свои корабли
+  opponentField: string[][];  // Поле соперника со своими выстрелами ('H' / 'M')
+  myHits: string[][];         // Выстрелы соперника по своему полю
+  opponentHits: string[][];
+  opponentSunkShips?: string[][]; // Клетки потопленных кораблей соперника ('S')
+  myShipsLeft: number;
+  opponentShipsLeft: number;
+  currentTurnPlayerId: number;
+  opponentNickname?: string;
+  rules?: GameRules;
+  spectatorCount?: number;
+  expiredTurnPlayerId?: number | null;  // Чей ход пропущен по времени
+  pausedUntil?: number | string;
 }
 
-export interface BoardLayoutDTO {
-  ships: ShipPlacement[];
-  matrix: string[][];  // Character[][] в Java эквивалентен string[][] в TypeScript
+export interface DrawOffer {
+  gameId: number;
+  fromPlayerId: number;
 }
 
+export interface GameError {
+  gameId?: number;
+  message?: string;
+}
+
+// События паузы: REQUEST_PAUSE - соперник просит паузу, PAUSE_STARTED - пауза началась
+// (до pausedUntil), PAUSE_DECLINED - соперник отказал, RESUMED - игра продолжена
+export type GamePauseEvent = 'REQUEST_PAUSE' | 'PAUSE_STARTED' | 'PAUSE_DECLINED' | 'RESUMED';
+
+export interface GamePauseNotification {
+  gameId: number;
+  event: GamePauseEvent;
+  fromPlayerId: number;
+  serverTime?: number | string;
+  pausedAt?: number | string;
+  pausedUntil?: number | string;
+  pausesLeft?: number;
+}
+
+// Быстрая реакция соперника (идентификатор из GAME_REACTIONS)
+export interface GameReactionNotification {
+  gameId: number;
+  fromPlayerId: number;
+  reactionId: string;
+}
+
+// Режим зрителя: поле игрока без кораблей, кроме потопленных
+export interface SpectatorBoardDTO {
+  playerId: number;
+  nickname: string;
+  avatarUrl: string | null;
+  shipsLeft: number;
+  shots: string[][];     // Выстрелы соперника по этому полю ('H' / 'M')
+  sunkShips: string[][]; // Клетки потопленных кораблей ('S')
+}
+
+export interface SpectatorGameState {
+  gameId: number;
+  players: SpectatorBoardDTO[];
+  currentTurnPlayerId: number | null;
+  spectatorCount: number;
+  rules?: GameRules;
+  finished?: boolean;
+  winnerId?: number | null;
+}
+
+// Число зрителей партии (приходит игрокам при каждом изменении)
+export interface SpectatorCountNotification {
+  gameId: number;
+  spectatorCount: number;
+}
+
+export interface WatchGameRequest {
+  gameId: number;
+  playerId: number;
+}
+
+export interface GameDecisionRequest {
+  inviterId: number;
+  opponentId: number;
+}
+
+// Формат расстановки определяется движком правил
+export type { ShipPlacement, BoardLayoutDTO, SalvoShotDTO } from '../engine/battleship.model';
+
 export interface GameReadyMessage {
   playerId: number;
   opponentId: number;
   boardLayout: BoardLayoutDTO;
   gameType: string;
+  rules?: GameRules;
 }
 
 export interface GameMoveDTO {
@@ -58,11 +151,73 @@ export interface GameMoveDTO {
   column: number;
 }
 
+// Залп: несколько выстрелов за один ход (режим 'salvo')
+export interface GameSalvoDTO {
+  gameId: number;
+  playerId: number;
+  shots: SalvoShotDTO[];
+}
+
 export interface GetGameStateRequest {
   gameId: number;
   playerId: number;
 }
 
+// Игровые действия: сдача, ничья, пауза и быстрые реакции
+export type GameAction =
+  | { actionType: 'SURRENDER' }
+  | { actionType: 'OFFER_DRAW' | 'ACCEPT_DRAW' | 'DECLINE_DRAW' | 'CANCEL_DRAW' }
+  | { actionType: 'REQUEST_PAUSE'; durationSeconds: number }
+  | { actionType: 'ACCEPT_PAUSE' | 'DECLINE_PAUSE' | 'RESUME' }
+  | { actionType: 'REACTION'; reactionId: string };
+
+export type GameActionDTO = GameAction & {
+  gameId: number;
+  playerId: number;
+};
+
+// Чат партии: сервер рассылает каждое сообщение обоим игрокам (в том числе автору)
+export interface ChatMessageDTO {
+  gameId: number;
+  playerId: number;
+  text: string;
+}
+
+export interface ChatMessageNotification {
+  gameId: number;
+  messageId: number | string;
+  playerId: number;
+  text: string;
+  sentAt: number | string;
+}
+
+// Состояние соединения: connecting - первое подключение, online - подключено,
+// reconnecting - соединение потеряно и идут попытки переподключения,
+// offline - соединения нет (не подключались, вышли или попытки закончились)
+export type ConnectionState = 'connecting' | 'online' | 'reconnecting' | 'offline';
+
+// Подписка, которая переживает переподключение
+interface ManagedSubscription {
+  unsubscribe(): void;
+}
+
+// Задержка перед попыткой переподключения растет вдвое: 1 с, 2 с, 4 с ... до 30 с
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const RECONNECT_MAX_ATTEMPTS = 10;
+
+// Одинаковый запрос состояния партии чаще раза в секунду не отправляется
+const STATE_REQUEST_DEDUPE_MS = 1000;
+
+// Зарегистрированная подписка: восстанавливается после каждого переподключения,
+// а с концом сессии завершается поток ее подписчика
+interface RegisteredSubscription {
+  destination: string;
+  handler: (message: Stomp.Message) => void;
+  subscriber: Subscriber<unknown>;
+  active: Stomp.Subscription | null;
+}
+
 @Injectable({
   providedIn: 'root'
 })
@@ -70,30 +225,104 @@ export class WebSocketService {
   private stompClient: Stomp.Client | null = null;
   private currentPlayerId: number | null = null;
 
+  private connectionStateSubject = new BehaviorSubject<ConnectionState>('offline');
+  /** Состояние соединения (для баннера на игровых страницах) */
+  connectionState$ = this.connectionStateSubject.asObservable();
+
+  private registeredSubscriptions = new Set<RegisteredSubscription>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+
+  // Время последнего запроса состояния по ключу gameId:playerId (до ответа сервера)
+  private stateRequestedAt = new Map<string, number>();
+
   connect(playerId: number): Promise<void> {
+    if (!playerId || playerId <= 0) {
+      return Promise.reject(new Error('Invalid player ID'));
+    }
+
+    this.cancelReconnect();
+    this.currentPlayerId = playerId; // ← сохраняем id игрока
+    this.reconnectAttempts = 0;
+    this.connectionStateSubject.next('connecting');
+
+    return this.openConnection().catch(error => {
+      // Первое подключение не удалось: сообщаем вызывающему и пробуем снова в фоне
+      this.scheduleReconnect();
+      throw error;
+    });
+  }
+
+  /**
+   * Переподключение по запросу игрока (например, после исчерпания попыток)
+   */
+  reconnect() {
+    if (!this.currentPlayerId || this.isConnected()) return;
+
+    this.cancelReconnect();
+    this.reconnectAttempts = 0;
+    this.connectionStateSubject.next('reconnecting');
+    this.openConnection().catch(() => this.scheduleReconnect());
+  }
+
+  disconnect() {
+    const ended = [...this.registeredSubscriptions];
+    this.cancelReconnect();
+    this.currentPlayerId = null;
+    this.registeredSubscriptions.clear();
+    this.closeClient();
+    this.connectionStateSubject.next('offline');
+
+    // Сессия закончилась: потоки подписок больше ничего не получат
+    ended.forEach(entry => entry.subscriber.complete());
+  }
+
+  /**
+   * Открытие SockJS/STOMP соединения
+   * @description После подключения восстанавливаются все зарегистрированные подписки.
+   * Потеря уже открытого соединения запускает переподключение
+   */
+  private openConnection(): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (!playerId || playerId <= 0) {
-        reject(new Error('Invalid player ID'));
-        return;
-      }
+      this.closeClient();
 
       try {
         console.log('WS: connecting to', `${environment.apiUrl}/ws`);
         const socket = new SockJS(`${environment.apiUrl}/ws`);
-        this.stompClient = Stomp.over(socket, { debug: true });
-        this.currentPlayerId = playerId; // ← сохраняем id игрока
+        const client = Stomp.over(socket, { debug: true });
+        this.stompClient = client;
+        let opened = false;
 
-        this.stompClient.connect(
+        client.connect(
           {},
           () => {
-            console.log('WS: connected successfully for player', playerId);
+            if (this.stompClient !== client) {
+              // Пока шло подключение, соединение было закрыто или заменено
+              this.safeDisconnect(client);
+              return;
+            }
+            opened = true;
+            console.log('WS: connected successfully for player', this.currentPlayerId);
+            this.reconnectAttempts = 0;
+            this.stateRequestedAt.clear();
+            this.restoreSubscriptions();
+            this.connectionStateSubject.next('online');
             resolve();
           },
           (error: any) => {
-            console.error('WS: connection failed:', error);
+            if (this.stompClient !== client) return;
+
             this.stompClient = null;
-            this.currentPlayerId = null;
-            reject(error);
+            this.forgetActiveSubscriptions();
+            this.safeDisconnect(client);
+
+            if (opened) {
+              console.warn('WS: connection lost:', error);
+              this.scheduleReconnect();
+            } else {
+              console.error('WS: connection failed:', error);
+              reject(error);
+            }
           }
         );
       } catch (e) {
@@ -103,16 +332,91 @@ export class WebSocketService {
     });
   }
 
-  disconnect() {
-    if (this.stompClient) {
-      try {
-        this.stompClient.disconnect();
-      } catch (e) {
-        console.warn('WS: disconnect error:', e);
-      }
-      this.stompClient = null;
+  /**
+   * Следующая попытка переподключения с экспоненциальной задержкой
+   */
+  private scheduleReconnect() {
+    if (!this.currentPlayerId || this.reconnectTimer) return;
+
+    if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+      console.error('WS: reconnect attempts exhausted');
+      this.connectionStateSubject.next('offline');
+      return;
     }
-    this.currentPlayerId = null;
+
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.connectionStateSubject.next('reconnecting');
+    console.log(`WS: reconnect attempt ${this.reconnectAttempts} in ${delay} ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openConnection().catch(() => this.scheduleReconnect());
+    }, delay);
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private closeClient() {
+    const client = this.stompClient;
+    this.stompClient = null;
+    this.forgetActiveSubscriptions();
+    if (client) {
+      this.safeDisconnect(client);
+    }
+  }
+
+  private safeDisconnect(client: Stomp.Client) {
+    try {
+      client.disconnect();
+    } catch (e) {
+      console.warn('WS: disconnect error:', e);
+    }
+  }
+
+  /**
+   * Подписка с регистрацией
+   * @description Если соединения сейчас нет, подписка будет оформлена при подключении
+   */
+  private subscribeTo(
+    destination: string,
+    handler: (message: Stomp.Message) => void,
+    subscriber: Subscriber<unknown>
+  ): ManagedSubscription {
+    const entry: RegisteredSubscription = { destination, handler, subscriber, active: null };
+    this.registeredSubscriptions.add(entry);
+    if (this.isConnected()) {
+      entry.active = this.stompClient!.subscribe(destination, handler);
+    }
+
+    return {
+      unsubscribe: () => {
+        this.registeredSubscriptions.delete(entry);
+        try {
+          entry.active?.unsubscribe();
+        } catch (e) {
+          console.warn('WS: unsubscribe error:', e);
+        }
+        entry.active = null;
+      }
+    };
+  }
+
+  private restoreSubscriptions() {
+    this.registeredSubscriptions.forEach(entry => {
+      console.log('WS: restore subscription:', entry.destination);
+      entry.active = this.stompClient!.subscribe(entry.destination, entry.handler);
+    });
+  }
+
+  // Подписки закрытого соединения недействительны - их заменят при переподключении
+  private forgetActiveSubscriptions() {
+    this.registeredSubscriptions.forEach(entry => entry.active = null);
   }
 
   private ensureConnected(): boolean {
@@ -123,6 +427,15 @@ export class WebSocketService {
     return true;
   }
 
+  // Подписаться можно и во время переподключения: подписка оформится после него
+  private ensureSession(): boolean {
+    if (!this.currentPlayerId) {
+      console.warn('WebSocket session not started. Skipping subscription.');
+      return false;
+    }
+    return true;
+  }
+
   getCurrentPlayerId(): number | null {
     return this.currentPlayerId;
   }
@@ -208,10 +521,33 @@ export class WebSocketService {
     }
   }
 
-  // Метод для запроса состояния игры
+  // Метод для отправки залпа (все выстрелы хода одним сообщением)
+  sendGameSalvo(salvo: GameSalvoDTO) {
+    try {
+      if (!this.ensureConnected()) return;
+      const payload = JSON.stringify(salvo);
+      console.log('WS: sending game salvo:', payload);
+      this.stompClient!.send(
+        '/app/game.salvo',
+        payload,
+        { 'content-type': 'application/json' }
+      );
+    } catch (e) {
+      console.error('Failed to send game salvo:', e);
+    }
+  }
+
+  // Метод для запроса состояния игры (повтор еще не отвеченного запроса пропускается)
   sendGetGameState(request: GetGameStateRequest) {
     try {
       if (!this.ensureConnected()) return;
+      const key = this.stateRequestKey(request);
+      const requestedAt = this.stateRequestedAt.get(key);
+      if (requestedAt !== undefined && Date.now() - requestedAt < STATE_REQUEST_DEDUPE_MS) {
+        console.log('WS: game state already requested, skipping:', key);
+        return;
+      }
+      this.stateRequestedAt.set(key, Date.now());
       const payload = JSON.stringify(request);
       console.log('WS: sending get game state request:', payload);
       this.stompClient!.send(
@@ -224,232 +560,190 @@ export class WebSocketService {
     }
   }
 
-  // Метод для отправки игровых действий (сдача, ничья)
-  sendGameAction(action: any) {
+  private stateRequestKey(request: GetGameStateRequest): string {
+    return `${request.gameId}:${request.playerId}`;
+  }
+
+  // Метод для отправки сообщения в чат партии
+  sendChatMessage(message: ChatMessageDTO) {
     try {
       if (!this.ensureConnected()) return;
-      const payload = JSON.stringify(action);
-      console.log('WS: sending game action:', payload);
+      const payload = JSON.stringify(message);
+      console.log('WS: sending chat message:', payload);
       this.stompClient!.send(
-        '/app/game.action',
+        '/app/game.chat',
         payload,
         { 'content-type': 'application/json' }
       );
     } catch (e) {
-      console.error('Failed to send game action:', e);
+      console.error('Failed to send chat message:', e);
     }
   }
 
-  // ============== ПОДПИСКИ ==============
-  subscribeToInvitations(callback: (inv: GameInvitationResponse) => void) {
+  // Метод для запроса истории чата (ответ приходит в /queue/game.chat.history)
+  sendGetChatHistory(request: GetGameStateRequest) {
     try {
       if (!this.ensureConnected()) return;
-      if (!this.currentPlayerId) {
-        console.warn('currentPlayerId is null, cannot subscribe to invitations');
-        return;
-      }
-      const destination = `/queue/invitations/${this.currentPlayerId}`;
-      console.log('WS: subscribe to invitations:', destination);
-      return this.stompClient!.subscribe(destination, (message: Stomp.Message) => {
-        try {
-          const body: GameInvitationResponse = JSON.parse(message.body);
-          console.log('WS: invitation received:', body);
-          callback(body);
-        } catch (e) {
-          console.error('Error parsing invitation message:', e);
-        }
-      });
+      const payload = JSON.stringify(request);
+      console.log('WS: sending get chat history request:', payload);
+      this.stompClient!.send(
+        '/app/game.chat.history',
+        payload,
+        { 'content-type': 'application/json' }
+      );
     } catch (e) {
-      console.error('Failed to subscribe to invitations:', e);
-      return null;
+      console.error('Failed to send get chat history request:', e);
     }
   }
 
-  subscribeToGameStart(callback: (game: GameStartNotification) => void) {
+  // Метод для входа в партию зрителем (состояние придет в /topic/game.spectate)
+  sendWatchGame(request: WatchGameRequest) {
     try {
       if (!this.ensureConnected()) return;
-      if (!this.currentPlayerId) {
-        console.warn('currentPlayerId is null, cannot subscribe to game.start');
-        return;
-      }
-      const destination = `/queue/game.start/${this.currentPlayerId}`;
-      console.log('WS: subscribe to game.start:', destination);
-      return this.stompClient!.subscribe(destination, (message: Stomp.Message) => {
-        try {
-          const body: GameStartNotification = JSON.parse(message.body);
-          console.log('WS: game.start received:', body);
-          callback(body);
-
-          // Если пришло уведомление о начале игры с gameId - запрашиваем состояние
-          if (body.gameId && body.gameId > 0) {
-            console.log('Получен gameId из game.start, запрашиваем состояние игры');
-            this.sendGetGameState({
-              gameId: body.gameId,
-              playerId: this.currentPlayerId!
-            });
-          }
-        } catch (e) {
-          console.error('Error parsing game start message:', e);
-        }
-      });
+      const payload = JSON.stringify(request);
+      console.log('WS: sending watch game request:', payload);
+      this.stompClient!.send(
+        '/app/game.watch',
+        payload,
+        { 'content-type': 'application/json' }
+      );
     } catch (e) {
-      console.error('Failed to subscribe to game start:', e);
-      return null;
+      console.error('Failed to send watch game request:', e);
     }
   }
 
-  subscribeToGameStartDirect(callback: (notification: GameStartNotification) => void) {
+  // Метод для выхода зрителя из партии
+  sendStopWatching(request: WatchGameRequest) {
     try {
-      if (!this.ensureConnected() || !this.currentPlayerId) {
-        console.warn('WebSocket не подключен или нет currentPlayerId');
-        return null;
-      }
-      const destination = `/queue/game.start/${this.currentPlayerId}`;
-      console.log('WS: subscribe to game.start direct:', destination);
-      return this.stompClient!.subscribe(
-        destination,
-        (message: Stomp.Message) => {
-          try {
-            const body: GameStartNotification = JSON.parse(message.body);
-            console.log('WS: game.start direct received:', body);
-            callback(body);
-
-            // Если пришло уведомление о начале игры с gameId - запрашиваем состояние
-            if (body.gameId && body.gameId > 0) {
-              console.log('Получен gameId из game.start direct, запрашиваем состояние игры');
-              this.sendGetGameState({
-                gameId: body.gameId,
-                playerId: this.currentPlayerId!
-              });
-            }
-          } catch (e) {
-            console.error('Error parsing game start direct message:', e);
-          }
-        }
+      if (!this.ensureConnected()) return;
+      const payload = JSON.stringify(request);
+      console.log('WS: sending stop watching request:', payload);
+      this.stompClient!.send(
+        '/app/game.unwatch',
+        payload,
+        { 'content-type': 'application/json' }
       );
     } catch (e) {
-      console.error('Failed to subscribe to game start direct:', e);
-      return null;
+      console.error('Failed to send stop watching request:', e);
     }
   }
 
-  subscribeToRejection(callback: (game: GameStartNotification) => void) {
+  // Метод для отправки игровых действий (сдача, ничья, пауза, реакции)
+  sendGameAction(action: GameActionDTO) {
     try {
       if (!this.ensureConnected()) return;
-      if (!this.currentPlayerId) {
-        console.warn('currentPlayerId is null, cannot subscribe to game.rejected');
-        return;
-      }
-      const destination = `/queue/game.rejected/${this.currentPlayerId}`;
-      console.log('WS: subscribe to game.rejected:', destination);
-      return this.stompClient!.subscribe(destination, (message: Stomp.Message) => {
-        try {
-          const body: GameStartNotification = JSON.parse(message.body);
-          console.log('WS: game.rejected received:', body);
-          callback(body);
-        } catch (e) {
-          console.error('Error parsing rejection message:', e);
-        }
-      });
+      const payload = JSON.stringify(action);
+      console.log('WS: sending game action:', payload);
+      this.stompClient!.send(
+        '/app/game.action',
+        payload,
+        { 'content-type': 'application/json' }
+      );
     } catch (e) {
-      console.error('Failed to subscribe to rejection:', e);
-      return null;
+      console.error('Failed to send game action:', e);
     }
   }
 
-  // Добавить новый метод для подписки на состояние игры
-  subscribeToGameState(playerId: number, callback: (gameState: any) => void): any {
-    try {
-      if (!this.ensureConnected() || !playerId) {
-        console.warn('WebSocket не подключен или нет playerId');
-        return null;
-      }
-      const destination = `/queue/game.state/${playerId}`;
-      console.log('WS: subscribe to game.state:', destination);
-      return this.stompClient!.subscribe(destination, (message: Stomp.Message) => {
-        try {
-          const body = JSON.parse(message.body);
-          console.log('WS: game.state received:', body);
-          callback(body);
-        } catch (e) {
-          console.error('Error parsing game state message:', e);
-        }
-      });
-    } catch (e) {
-      console.error('Failed to subscribe to game state:', e);
-      return null;
-    }
+  // ============== ПОДПИСКИ ==============
+  // Каждый метод возвращает холодный поток: STOMP подписка оформляется при подписке
+  // на поток, переживает переподключения и снимается при отписке
+
+  observeInvitations(): Observable<GameInvitationResponse> {
+    return this.messages<GameInvitationResponse>('/queue/invitations');
   }
 
-  // Метод для подписки на завершение игры
-  subscribeToGameEnd(playerId: number, callback: (notification: any) => void): any {
-    try {
-      if (!this.ensureConnected() || !playerId) {
-        console.warn('WebSocket не подключен или нет playerId');
-        return null;
-      }
-      const destination = `/queue/game.end/${playerId}`;
-      console.log('WS: subscribe to game.end:', destination);
-      return this.stompClient!.subscribe(destination, (message: Stomp.Message) => {
-        try {
-          const body = JSON.parse(message.body);
-          console.log('WS: game.end received:', body);
-          callback(body);
-        } catch (e) {
-          console.error('Error parsing game end message:', e);
+  /**
+   * Уведомления о начале партии
+   * @description На каждое уведомление с gameId запрашивается состояние партии;
+   * если на поток подписано несколько страниц, повторы отсекает sendGetGameState
+   */
+  observeGameStart(): Observable<GameStartNotification> {
+    return this.messages<GameStartNotification>('/queue/game.start').pipe(
+      tap(notification => {
+        if (notification.gameId && notification.gameId > 0 && this.currentPlayerId) {
+          this.sendGetGameState({ gameId: notification.gameId, playerId: this.currentPlayerId });
         }
-      });
-    } catch (e) {
-      console.error('Failed to subscribe to game end:', e);
-      return null;
-    }
+      })
+    );
   }
 
-  // Метод для подписки на ошибки
-  subscribeToErrors(playerId: number, callback: (error: any) => void): any {
-    try {
-      if (!this.ensureConnected() || !playerId) {
-        console.warn('WebSocket не подключен или нет playerId');
-        return null;
-      }
-      const destination = `/queue/game.error/${playerId}`;
-      console.log('WS: subscribe to game.error:', destination);
-      return this.stompClient!.subscribe(destination, (message: Stomp.Message) => {
-        try {
-          const body = JSON.parse(message.body);
-          console.log('WS: game.error received:', body);
-          callback(body);
-        } catch (e) {
-          console.error('Error parsing error message:', e);
-        }
-      });
-    } catch (e) {
-      console.error('Failed to subscribe to errors:', e);
-      return null;
-    }
+  observeRejections(): Observable<GameStartNotification> {
+    return this.messages<GameStartNotification>('/queue/game.rejected');
   }
 
-  // Метод для подписки на предложения ничьи
-  subscribeToDrawOffers(playerId: number, callback: (offer: any) => void): any {
-    try {
-      if (!this.ensureConnected() || !playerId) {
-        console.warn('WebSocket не подключен или нет playerId');
-        return null;
+  observeGameState(playerId: number): Observable<GameStateMessage> {
+    return this.messages<GameStateMessage>('/queue/game.state', playerId).pipe(
+      tap(state => this.stateRequestedAt.delete(this.stateRequestKey({ gameId: state.gameId, playerId })))
+    );
+  }
+
+  // Состояние партии в режиме зрителя (общий канал для всех зрителей)
+  observeSpectatorState(gameId: number): Observable<SpectatorGameState> {
+    return this.messages<SpectatorGameState>('/topic/game.spectate', gameId);
+  }
+
+  observeSpectatorCount(playerId: number): Observable<SpectatorCountNotification> {
+    return this.messages<SpectatorCountNotification>('/queue/game.spectators', playerId);
+  }
+
+  observeGameEnd(playerId: number): Observable<GameEndNotification> {
+    return this.messages<GameEndNotification>('/queue/game.end', playerId);
+  }
+
+  observeErrors(playerId: number): Observable<GameError> {
+    return this.messages<GameError>('/queue/game.error', playerId);
+  }
+
+  observeDrawOffers(playerId: number): Observable<DrawOffer> {
+    return this.messages<DrawOffer>('/queue/game.draw', playerId);
+  }
+
+  observeChat(playerId: number): Observable<ChatMessageNotification> {
+    return this.messages<ChatMessageNotification>('/queue/game.chat', playerId);
+  }
+
+  observeChatHistory(playerId: number): Observable<ChatMessageNotification[]> {
+    return this.messages<ChatMessageNotification[]>('/queue/game.chat.history', playerId).pipe(
+      map(messages => Array.isArray(messages) ? messages : [])
+    );
+  }
+
+  observeReactions(playerId: number): Observable<GameReactionNotification> {
+    return this.messages<GameReactionNotification>('/queue/game.reaction', playerId);
+  }
+
+  observePause(playerId: number): Observable<GamePauseNotification> {
+    return this.messages<GamePauseNotification>('/queue/game.pause', playerId);
+  }
+
+  /**
+   * Холодный поток JSON сообщений назначения `${prefix}/${id}`
+   * @description Без id используется игрок текущей сессии. Если сессии нет,
+   * поток сразу завершается; disconnect() завершает его вместе с сессией
+   */
+  private messages<T>(prefix: string, id?: number): Observable<T> {
+    return new Observable<T>(subscriber => {
+      const targetId = id ?? this.currentPlayerId;
+      if (!this.ensureSession() || !targetId) {
+        console.warn('WebSocket сессия не начата или нет id для', prefix);
+        subscriber.complete();
+        return;
       }
-      const destination = `/queue/game.draw/${playerId}`;
-      console.log('WS: subscribe to game.draw:', destination);
-      return this.stompClient!.subscribe(destination, (message: Stomp.Message) => {
+
+      const destination = `${prefix}/${targetId}`;
+      const label = prefix.substring(prefix.lastIndexOf('/') + 1);
+      console.log(`WS: subscribe to ${label}:`, destination);
+
+      const subscription = this.subscribeTo(destination, (message: Stomp.Message) => {
         try {
-          const body = JSON.parse(message.body);
-          console.log('WS: game.draw received:', body);
-          callback(body);
+          const body: T = JSON.parse(message.body);
+          console.log(`WS: ${label} received:`, body);
+          subscriber.next(body);
         } catch (e) {
-          console.error('Error parsing draw offer message:', e);
+          console.error(`Error parsing ${label} message:`, e);
         }
-      });
-    } catch (e) {
-      console.error('Failed to subscribe to draw offers:', e);
-      return null;
-    }
+      }, subscriber);
+      return () => subscription.unsubscribe();
+    });
   }
 }